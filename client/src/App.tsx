@@ -15,6 +15,7 @@ import WorkoutSession from "@/pages/workout-session";
 import TrainerPairs from "@/pages/trainer-pairs";
 import PreBuiltWorkouts from "@/pages/pre-built-workouts";
 import AdminPanel from "@/pages/admin-panel";
+import Moderation from "@/pages/moderation";
 import WorkoutStructureDocs from "@/pages/workout-structure-docs";
 import CoachTest from "@/pages/coach-test";
 import CoachLab from "@/lab/CoachLab";
@@ -34,6 +35,7 @@ function Router() {
       <Route path="/trainer-pairs" component={TrainerPairs} />
       <Route path="/pre-built-workouts" component={PreBuiltWorkouts} />
       <Route path="/admin" component={AdminPanel} />
+      <Route path="/review" component={Moderation} />
       <Route path="/workout-structure-docs" component={WorkoutStructureDocs} />
       <Route path="/coach-test" component={CoachTest} />
       <Route path="/lab/coach" component={CoachLab} />
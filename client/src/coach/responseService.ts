@@ -1,9 +1,10 @@
 import { TimelineContext, Event } from '@/types/coach';
 import { fetchPool, markUsed, type PoolItem } from './responseApi';
+import { normalizeEventType } from '@shared/events';
 
 export interface CoachResponse {
   id: number;
-  event_type: string;   // 'EV_BLOCK_START','EV_COUNTDOWN','EV_WORK_START','EV_WORK_END','EV_REST_START','EV_REST_END','EV_ROUND_REST_START','EV_ROUND_REST_END','EV_BLOCK_END','EV_WORKOUT_END','EV_AWAIT_READY'
+  event_type: string;   // canonical TimelineEventType (legacy names are normalized when matching)
   pattern: string;      // specific or 'any'
   mode: string;         // 'rep-round'|'superset'|'interval'|'any'
   chatter_level: string;// 'silent' | 'minimal' | 'high' | 'any'
@@ -44,7 +45,7 @@ function inCooldown(r: CoachResponse, now: number): boolean {
 function fit(r: CoachResponse, ctx: TimelineContext, ev: Event): boolean {
   if (!r.active) return false;
   const eventType = mapEventType(ev);
-  const matchEvent = r.event_type === eventType;
+  const matchEvent = normalizeEventType(r.event_type) === eventType;
   const matchPattern = r.pattern === 'any' || r.pattern === ctx.pattern;
   const matchMode = r.mode === 'any' || r.mode === ctx.mode;
   const rowChat = normalizeChatterLabel(r.chatter_level);
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { X } from 'lucide-react';
+import type { Exercise } from '@shared/schema';
+import type { UserBlockWorkoutDTOType } from '@shared/dto';
+
+interface BlockWorkoutBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Pattern = 'circuit' | 'superset' | 'straight_sets';
+
+/**
+ * Single-block builder for members: pick exercises and timing, and the server
+ * compiles it with the same timeline compiler as staff workouts.
+ */
+export default function BlockWorkoutBuilder({ open, onOpenChange }: BlockWorkoutBuilderProps) {
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState<Pattern>('circuit');
+  const [rounds, setRounds] = useState(3);
+  const [workSec, setWorkSec] = useState(40);
+  const [restSec, setRestSec] = useState(20);
+  const [roundRestSec, setRoundRestSec] = useState(60);
+  const [isPublic, setIsPublic] = useState(false);
+  const [withSections, setWithSections] = useState(true);
+  const [withFinisher, setWithFinisher] = useState(false);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Exercise[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: exercises = [] } = useQuery<Exercise[]>({
+    queryKey: ['/api/exercises'],
+    enabled: open,
+  });
+
+  const matches = search.trim()
+    ? exercises
+        .filter(ex => ex.name.toLowerCase().includes(search.trim().toLowerCase()))
+        .filter(ex => !selected.some(s => s.id === ex.id))
+        .slice(0, 20)
+    : [];
+
+  const reset = () => {
+    setName('');
+    setSearch('');
+    setSelected([]);
+    setIsPublic(false);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (payload: UserBlockWorkoutDTOType) => {
+      if (withSections || withFinisher) {
+        const generated = await apiRequest('/api/blocks/generate-sections', 'POST', {
+          blocks: payload.blocks,
+          warmup: withSections,
+          cooldown: withSections,
+          finisher: withFinisher,
+        });
+        payload = { ...payload, blocks: generated.blocks };
+      }
+      return apiRequest('/api/user-block-workouts', 'POST', payload);
+    },
+    onSuccess: () => {
+      toast({ title: 'Workout Saved', description: `${name} is ready to start.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/user-block-workouts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/block-workouts'] });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could Not Save Workout',
+        description: error.message || 'Failed to save workout.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const minExercises = pattern === 'superset' ? 2 : 1;
+  const canSave = name.trim().length > 0 && selected.length >= minExercises && !createMutation.isPending;
+
+  const handleSave = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      visibility: isPublic ? 'public' : 'private',
+      blocks: [{
+        name: name.trim(),
+        type: 'custom_sequence',
+        params: {
+          type: 'custom_sequence',
+          pattern,
+          mode: 'time',
+          setsPerExercise: rounds,
+          workSec,
+          restSec,
+          roundRestSec: pattern === 'straight_sets' ? 0 : roundRestSec,
+          transitionSec: 0,
+          awaitReadyBeforeStart: false,
+        },
+        exercises: selected.map(ex => ({ exerciseId: ex.id })),
+      }],
+    });
+  };
+
+  const numberField = (id: string, label: string, value: number, onChange: (v: number) => void, min = 0) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, parseInt(e.target.value) || min))}
+        data-testid={`builder-${id}`}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="block-workout-builder">
+        <DialogHeader>
+          <DialogTitle>Build a Workout</DialogTitle>
+          <DialogDescription>Pick your exercises and timing. Private workouts are only visible to you.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="builder-name">Name</Label>
+            <Input
+              id="builder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Tuesday Circuit"
+              data-testid="builder-name"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={pattern} onValueChange={(value) => setPattern(value as Pattern)}>
+              <SelectTrigger data-testid="builder-pattern">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="circuit">Circuit - one set of each, repeat</SelectItem>
+                <SelectItem value="superset">Superset - alternate pairs</SelectItem>
+                <SelectItem value="straight_sets">Straight sets - all sets, then next</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('rounds', pattern === 'straight_sets' ? 'Sets' : 'Rounds', rounds, setRounds, 1)}
+            {numberField('work-sec', 'Work (sec)', workSec, setWorkSec, 1)}
+            {numberField('rest-sec', 'Rest (sec)', restSec, setRestSec)}
+            {pattern !== 'straight_sets' && numberField('round-rest-sec', 'Rest between rounds (sec)', roundRestSec, setRoundRestSec)}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="builder-search">Exercises</Label>
+            {selected.length > 0 && (
+              <div className="flex flex-wrap gap-2" data-testid="builder-selected">
+                {selected.map((ex, index) => (
+                  <Badge key={ex.id} variant="secondary" className="gap-1">
+                    {index + 1}. {ex.name}
+                    <button
+                      type="button"
+                      onClick={() => setSelected(prev => prev.filter(s => s.id !== ex.id))}
+                      aria-label={`Remove ${ex.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              id="builder-search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search exercises to add"
+              data-testid="builder-search"
+            />
+            {matches.length > 0 && (
+              <ScrollArea className="h-40 rounded-md border">
+                {matches.map(ex => (
+                  <button
+                    key={ex.id}
+                    type="button"
+                    className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-100"
+                    onClick={() => {
+                      setSelected(prev => [...prev, ex]);
+                      setSearch('');
+                    }}
+                    data-testid={`builder-add-${ex.id}`}
+                  >
+                    {ex.name}
+                  </button>
+                ))}
+              </ScrollArea>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="builder-sections">Add warm-up and cool-down</Label>
+            <Switch
+              id="builder-sections"
+              checked={withSections}
+              onCheckedChange={setWithSections}
+              data-testid="builder-sections"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="builder-finisher">Add a conditioning finisher</Label>
+            <Switch
+              id="builder-finisher"
+              checked={withFinisher}
+              onCheckedChange={setWithFinisher}
+              data-testid="builder-finisher"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="builder-public">Share with other members</Label>
+            <Switch
+              id="builder-public"
+              checked={isPublic}
+              onCheckedChange={setIsPublic}
+              data-testid="builder-public"
+            />
+          </div>
+
+          <Button className="w-full" onClick={handleSave} disabled={!canSave} data-testid="builder-save">
+            {createMutation.isPending ? 'Saving...' : 'Save Workout'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
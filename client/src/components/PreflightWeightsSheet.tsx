@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,7 +16,7 @@ export function PreflightWeightsSheet({
   onCancel
 }: {
   exercises: ExerciseRow[];
-  lastLoads: Record<string, number | undefined>;
+  lastLoads: Record<string, number | undefined>; // Always in lbs
   onSave: (planned: Record<string, number | undefined>) => void;
   onCancel?: () => void;
 }) {
@@ -25,6 +25,23 @@ export function PreflightWeightsSheet({
 
   const rows = useMemo(() => exercises, [exercises]);
 
+  const inUnit = (lbs: number | undefined) =>
+    lbs !== undefined && unit === 'kg' ? Math.round(lbs * LBS_TO_KG * 10) / 10 : lbs;
+
+  // Last loads usually arrive after mount; fill only the fields the user hasn't touched
+  useEffect(() => {
+    setPlanned(p => {
+      const next = { ...p };
+      for (const [id, val] of Object.entries(lastLoads)) {
+        if (next[id] === undefined && val !== undefined) {
+          next[id] = inUnit(val);
+        }
+      }
+      return next;
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastLoads]);
+
   const toggleUnit = () => {
     const newUnit = unit === 'lbs' ? 'kg' : 'lbs';
     const conversion = unit === 'lbs' ? LBS_TO_KG : KG_TO_LBS;
@@ -46,7 +63,7 @@ export function PreflightWeightsSheet({
     setPlanned(p => ({ ...p, [id]: Number.isFinite(n!) ? n : undefined }));
   };
 
-  const useLast = (id: string) => setPlanned(p => ({ ...p, [id]: lastLoads[id] }));
+  const useLast = (id: string) => setPlanned(p => ({ ...p, [id]: inUnit(lastLoads[id]) }));
 
   return (
     <Card className="w-full max-w-2xl">
@@ -71,7 +88,7 @@ export function PreflightWeightsSheet({
               <Input
                 inputMode="decimal"
                 value={planned[r.id] ?? ''}
-                placeholder={lastLoads[r.id] ? String(lastLoads[r.id]) : unit}
+                placeholder={lastLoads[r.id] ? String(inUnit(lastLoads[r.id])) : unit}
                 onChange={e => setLoad(r.id, e.target.value)}
                 data-testid={`input-weight-${r.id}`}
               />
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Building2, Check, Plus, Save, ScanLine, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { GymProfile } from "@shared/schema";
+
+interface GymProfilesResponse {
+  gyms: GymProfile[];
+  selectedGymProfileId: number | null;
+}
+
+// Gym profiles: pick the gym recommendations are filtered by and edit its equipment
+export default function GymProfilesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<GymProfilesResponse>({
+    queryKey: ["/api/gym-profiles"],
+  });
+  const { data: catalog = [] } = useQuery<string[]>({
+    queryKey: ["/api/exercises/equipment"],
+  });
+
+  const gyms = data?.gyms ?? [];
+  const selectedId = data?.selectedGymProfileId ?? null;
+
+  // Gym being edited and its inventory (kept locally until saved)
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [equipment, setEquipment] = useState<string[]>([]);
+  const [newGymName, setNewGymName] = useState("");
+  const editing = gyms.find(gym => gym.id === editingId) ?? null;
+
+  useEffect(() => {
+    if (editingId === null && gyms.length > 0) {
+      setEditingId(selectedId ?? gyms[0].id);
+    }
+  }, [gyms, selectedId, editingId]);
+
+  useEffect(() => {
+    setEquipment(editing?.equipment ?? []);
+  }, [editing]);
+
+  const onError = (error: any) => {
+    toast({ title: "Gym update failed", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/gym-profiles"] });
+
+  const createGymMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/gym-profiles", "POST", { name: newGymName.trim() }),
+    onSuccess: (gym: GymProfile) => {
+      setNewGymName("");
+      setEditingId(gym.id);
+      refresh();
+    },
+    onError,
+  });
+
+  const saveEquipmentMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/gym-profiles/${editingId}`, "PUT", { equipment }),
+    onSuccess: () => {
+      toast({ title: "Gym equipment saved" });
+      refresh();
+    },
+    onError,
+  });
+
+  const selectGymMutation = useMutation({
+    mutationFn: async (id: number | null) => id === null
+      ? apiRequest("/api/gym-profiles/selection", "DELETE")
+      : apiRequest(`/api/gym-profiles/${id}/select`, "PUT"),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/training"] });
+    },
+    onError,
+  });
+
+  const deleteGymMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/gym-profiles/${id}`, "DELETE"),
+    onSuccess: (_result, id) => {
+      if (editingId === id) setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const toggleEquipment = (name: string) => {
+    setEquipment(prev => prev.includes(name) ? prev.filter(e => e !== name) : [...prev, name]);
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          My Gyms
+        </CardTitle>
+        <CardDescription>
+          Recommendations and generated warm-ups only use equipment your selected gym has
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {gyms.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No gyms yet. Add one below or scan your gym with the mapping tool.
+            </p>
+          )}
+          {gyms.map(gym => (
+            <div
+              key={gym.id}
+              className={`flex items-center justify-between p-2 border rounded-lg text-sm ${gym.id === editingId ? "border-primary" : ""}`}
+              data-testid={`gym-profile-${gym.id}`}
+            >
+              <button className="text-left flex-1" onClick={() => setEditingId(gym.id)}>
+                <span className="font-medium">{gym.name}</span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {gym.equipment.length} equipment{gym.source === "gym_mapping" ? " · scanned" : ""}
+                </span>
+              </button>
+              <div className="flex items-center gap-2">
+                {gym.id === selectedId ? (
+                  <Badge className="gap-1"><Check className="h-3 w-3" />Selected</Badge>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => selectGymMutation.mutate(gym.id)}>
+                    Use this gym
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => deleteGymMutation.mutate(gym.id)}
+                  data-testid={`button-delete-gym-${gym.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {selectedId !== null && (
+            <Button size="sm" variant="ghost" onClick={() => selectGymMutation.mutate(null)}>
+              Don't filter by gym
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New gym name"
+            value={newGymName}
+            onChange={e => setNewGymName(e.target.value)}
+            data-testid="input-new-gym"
+          />
+          <Button
+            onClick={() => createGymMutation.mutate()}
+            disabled={!newGymName.trim() || createGymMutation.isPending}
+            className="gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+          <Link href="/gym-mapping">
+            <Button variant="outline" className="gap-2">
+              <ScanLine className="h-4 w-4" />
+              Scan
+            </Button>
+          </Link>
+        </div>
+
+        {editing && (
+          <div>
+            <Label className="mb-2 block">Equipment at {editing.name}</Label>
+            {editing.unmatchedDetections.length > 0 && (
+              <p className="text-xs text-amber-600 mb-2">
+                Scanned but not recognised: {editing.unmatchedDetections.join(", ")}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {catalog.map(name => (
+                <Badge
+                  key={name}
+                  variant={equipment.includes(name) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => toggleEquipment(name)}
+                >
+                  {name}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex justify-end mt-4">
+              <Button
+                onClick={() => saveEquipmentMutation.mutate()}
+                disabled={saveEquipmentMutation.isPending}
+                className="gap-2"
+                data-testid="button-save-gym-equipment"
+              >
+                <Save className="h-4 w-4" />
+                Save equipment
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
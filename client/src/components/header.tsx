@@ -1,4 +1,4 @@
-import { Dumbbell, Bell, Camera, Home, Menu, User, LogOut, Upload, Target, Settings } from "lucide-react";
+import { Dumbbell, Bell, Camera, Home, Menu, User, LogOut, Upload, Target, Settings, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Link, useLocation } from "wouter";
@@ -117,6 +117,19 @@ export default function Header() {
               </Link>
             )}
             
+            {isAuthenticated && (
+              <Link href="/review">
+                <Button 
+                  variant={location === "/review" ? "default" : "ghost"} 
+                  size="sm"
+                  className="flex items-center gap-2"
+                >
+                  <ShieldCheck className="h-4 w-4" />
+                  Review
+                </Button>
+              </Link>
+            )}
+            
             {adminStatus?.isAdmin && (
               <Link href="/admin">
                 <Button 
@@ -253,6 +266,20 @@ export default function Header() {
                 </Link>
               )}
               
+              {isAuthenticated && (
+                <Link href="/review">
+                  <Button 
+                    variant={location === "/review" ? "default" : "ghost"} 
+                    size="sm"
+                    className="w-full justify-start gap-2"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    <ShieldCheck className="h-4 w-4" />
+                    Review
+                  </Button>
+                </Link>
+              )}
+              
               {adminStatus?.isAdmin && (
                 <Link href="/admin">
                   <Button 
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 
 interface RealtimeConfig {
   sessionId: number;
+  sessionKind?: 'block' | 'workout'; // Block workout session or template workout session
   onTranscript?: (transcript: string, isFinal: boolean) => void;
   onError?: (error: string) => void;
 }
@@ -13,8 +14,12 @@ interface RealtimeState {
   error: string | null;
 }
 
+// Reconnect backoff after a dropped socket; the server holds the session for ~60s
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 15000, 20000];
+
 export function useRealtimeVoice({
   sessionId,
+  sessionKind = 'block',
   onTranscript,
   onError,
 }: RealtimeConfig) {
@@ -40,6 +45,9 @@ export function useRealtimeVoice({
   const audioDoneCallbacksRef = useRef<Array<() => void>>([]); // Callbacks for audio completion
   
   const responseCounterRef = useRef(0);
+  const intentionalCloseRef = useRef(false); // disconnect() was called - don't reconnect
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // --- PCM Sanity Ping ---
   function runAudioSanityPing(audioCtx: AudioContext) {
@@ -69,14 +77,23 @@ export function useRealtimeVoice({
 
   const connect = useCallback(async () => {
     try {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+        reconnectTimeoutRef.current = null;
+      }
+      intentionalCloseRef.current = false;
+
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/realtime?sessionId=${sessionId}`;
+      const wsUrl = `${protocol}//${window.location.host}/realtime?sessionId=${sessionId}&kind=${sessionKind}`;
       
       const ws = new WebSocket(wsUrl);
       wsRef.current = ws;
+      let opened = false;
 
       ws.onopen = () => {
         console.log('✅ Connected to Realtime API');
+        opened = true;
+        reconnectAttemptRef.current = 0;
         setState(prev => ({ ...prev, isConnected: true, error: null }));
       };
 
@@ -90,7 +107,10 @@ export function useRealtimeVoice({
         }
 
         if (message.type === 'session.ready') {
-          console.log('🎙️ Session ready');
+          console.log('🎙️ Session ready', message.backend ? `(${message.backend})` : '');
+          if (message.resumed) {
+            console.log('🔁 Coaching session resumed at step', message.restored?.currentStepIndex);
+          }
         }
 
         // ChatGPT: Reset audio queue on new response
@@ -172,10 +192,23 @@ export function useRealtimeVoice({
         onError?.('Connection error');
       };
 
-      ws.onclose = () => {
-        console.log('🔌 Disconnected from Realtime API');
+      ws.onclose = (event) => {
+        console.log('🔌 Disconnected from Realtime API', event.code);
+        if (wsRef.current && wsRef.current !== ws) return; // Superseded by a newer connection
         setState(prev => ({ ...prev, isConnected: false }));
         cleanup();
+
+        // Only drops of an established socket are retried; a refused handshake
+        // (not signed in, not your session) never opens and isn't retried
+        const attempt = reconnectAttemptRef.current;
+        if (!intentionalCloseRef.current && (opened || attempt > 0) && attempt < RECONNECT_DELAYS_MS.length) {
+          reconnectAttemptRef.current = attempt + 1;
+          console.log(`🔁 Reconnecting in ${RECONNECT_DELAYS_MS[attempt]}ms (attempt ${attempt + 1})`);
+          reconnectTimeoutRef.current = setTimeout(() => {
+            reconnectTimeoutRef.current = null;
+            connectRef.current?.();
+          }, RECONNECT_DELAYS_MS[attempt]);
+        }
       };
 
     } catch (error) {
@@ -183,7 +216,10 @@ export function useRealtimeVoice({
       setState(prev => ({ ...prev, error: 'Failed to connect' }));
       onError?.('Failed to connect');
     }
-  }, [sessionId, onTranscript, onError]);
+  }, [sessionId, sessionKind, onTranscript, onError]);
+
+  const connectRef = useRef<typeof connect | null>(null);
+  connectRef.current = connect;
 
   const startListening = useCallback(async () => {
     try {
@@ -472,6 +508,13 @@ export function useRealtimeVoice({
     
     stopListening();
     
+    intentionalCloseRef.current = true;
+    reconnectAttemptRef.current = 0;
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+
     if (wsRef.current) {
       wsRef.current.close(1000, 'Graceful shutdown');
       wsRef.current = null;
@@ -590,9 +633,13 @@ export function useRealtimeVoice({
 
   useEffect(() => {
     return () => {
+      intentionalCloseRef.current = true;
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
       cleanup();
       if (wsRef.current) {
-        wsRef.current.close();
+        wsRef.current.close(1000, 'Unmounted');
       }
     };
   }, []);
@@ -149,11 +149,11 @@ export default function CoachLab(){
     // seed preview/start split
     seedResponses([
       // PREVIEW (name + set/round)
-      { id:101,event_type:'work_preview',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Set {{setNum}} — {{exercise}} coming up.',priority:5,cooldown_sec:6,active:true,usage_count:0,last_used_at:null },
-      { id:102,event_type:'work_preview',pattern:'any',mode:'time',chatter_level:'minimal',locale:'en-US',text_template:'Round {{roundNum}} — {{exercise}} next.',priority:5,cooldown_sec:6,active:true,usage_count:0,last_used_at:null },
+      { id:101,event_type:'EV_WORK_PREVIEW',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Set {{setNum}} — {{exercise}} coming up.',priority:5,cooldown_sec:6,active:true,usage_count:0,last_used_at:null },
+      { id:102,event_type:'EV_WORK_PREVIEW',pattern:'any',mode:'time',chatter_level:'minimal',locale:'en-US',text_template:'Round {{roundNum}} — {{exercise}} next.',priority:5,cooldown_sec:6,active:true,usage_count:0,last_used_at:null },
       // START (cue only) — if pool misses, observer will synthesize with DB cues
-      { id:111,event_type:'work_start',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{cue}}.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
-      { id:112,event_type:'work_start',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Move — {{cue}}.',priority:4,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
+      { id:111,event_type:'EV_WORK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{cue}}.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
+      { id:112,event_type:'EV_WORK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Move — {{cue}}.',priority:4,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
     ] as any);
 
     // quick pre-block orientation (optional)
@@ -171,9 +171,9 @@ export default function CoachLabRepRound(){
 
     // Seed pools for preview/start/halfway
     seedResponses([
-      { id:201,event_type:'work_preview',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Round {{roundNum}} — {{exercise}} next.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
-      { id:211,event_type:'work_start',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{cue}}.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
-      { id:221,event_type:'halfway',pattern:'any',mode:'reps',chatter_level:'high',locale:'en-US',text_template:'Halfway — keep it smooth.',priority:5,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
+      { id:201,event_type:'EV_WORK_PREVIEW',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Round {{roundNum}} — {{exercise}} next.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
+      { id:211,event_type:'EV_WORK_START',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{cue}}.',priority:5,cooldown_sec:4,active:true,usage_count:0,last_used_at:null },
+      { id:221,event_type:'EV_HALFWAY',pattern:'any',mode:'reps',chatter_level:'high',locale:'en-US',text_template:'Halfway — keep it smooth.',priority:5,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
     ] as any);
 
     // Round 1: use centralized scheduler with preview BEFORE beeps
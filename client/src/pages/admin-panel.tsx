@@ -13,9 +13,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Plus, Trash2, Save, Eye, GripVertical, ArrowUp, ArrowDown, Edit, Copy, Power, PowerOff, Clock, BookOpen } from "lucide-react";
-import type { Exercise } from "@shared/schema";
+import { ArrowLeft, Plus, Trash2, Save, Eye, GripVertical, ArrowUp, ArrowDown, Edit, Copy, Power, PowerOff, Clock, BookOpen, History, RotateCcw, Flame, Zap } from "lucide-react";
+import type { Exercise, AdminAudit } from "@shared/schema";
+import type { DiffEntry } from "@shared/audit-diff";
 import { TimelinePreview } from "@/components/TimelinePreview";
+import { SECTION_LABELS, type WorkoutSectionT } from "@shared/timeline";
+import type { BlockDTOType } from "@shared/dto";
 
 interface BlockParams {
   setsPerExercise?: number;
@@ -42,6 +45,7 @@ interface Block {
   type: string;
   params: BlockParams;
   exercises: BlockExercise[];
+  section?: WorkoutSectionT;
 }
 
 type WorkoutPattern = "superset" | "straight_sets" | "circuit" | "transition" | "custom";
@@ -63,6 +67,27 @@ interface ExecutionStep {
   };
 }
 
+// Builder blocks in the WorkoutDTO shape the admin endpoints accept
+function toBlockDTOs(blocks: Block[]) {
+  return blocks.map(block => ({
+    name: block.name,
+    type: block.type,
+    section: block.section,
+    params: {
+      ...block.params,
+      type: block.type, // Add discriminator to params
+    },
+    exercises: block.exercises?.map(ex => ({
+      exerciseId: ex.exerciseId,
+      overrides: {
+        workSec: ex.workSec,
+        restSec: ex.restSec,
+        targetReps: ex.targetReps,
+      }
+    })),
+  }));
+}
+
 // Manage Workouts Tab Component
 function ManageWorkoutsTab({ onEditWorkout }: { onEditWorkout: (id: number) => void }) {
   const queryClient = useQueryClient();
@@ -255,6 +280,201 @@ function ManageWorkoutsTab({ onEditWorkout }: { onEditWorkout: (id: number) => v
   );
 }
 
+// Audit Log Tab Component
+const AUDIT_ACTIONS = ["create", "update", "delete", "publish", "unpublish", "restore"];
+
+function formatDiffValue(value: unknown) {
+  if (value === undefined) return "—";
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function AuditLogTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("");
+  const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (entityFilter !== "all") params.set("entity", entityFilter);
+  if (actionFilter !== "all") params.set("action", actionFilter);
+  if (actorFilter.trim()) params.set("actorId", actorFilter.trim());
+  const queryString = params.toString();
+
+  const { data: entries, isLoading } = useQuery<AdminAudit[]>({
+    queryKey: [`/api/admin/audit${queryString ? `?${queryString}` : ""}`],
+  });
+
+  const { data: selectedEntry } = useQuery<AdminAudit & { diff: DiffEntry[] }>({
+    queryKey: [`/api/admin/audit/${selectedEntryId}`],
+    enabled: selectedEntryId !== null,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ id, side }: { id: number; side: "before" | "after" }) => {
+      return await apiRequest(`/api/admin/audit/${id}/restore`, "POST", { side });
+    },
+    onSuccess: () => {
+      toast({ title: "Workout restored" });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/audit') });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/block-workouts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/block-workouts'] });
+      setSelectedEntryId(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canRestore = (entry: AdminAudit, side: "before" | "after") =>
+    entry.entity === "workout" && !!(entry[side] as any)?.blocks;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>
+            Every admin change with before/after snapshots - open an entry to see the diff or restore it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Entity</Label>
+              <Select value={entityFilter} onValueChange={setEntityFilter}>
+                <SelectTrigger data-testid="select-audit-entity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  <SelectItem value="workout">Workout</SelectItem>
+                  <SelectItem value="block">Block</SelectItem>
+                  <SelectItem value="block_exercise">Block exercise</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger data-testid="select-audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Actor ID</Label>
+              <Input
+                value={actorFilter}
+                onChange={(e) => setActorFilter(e.target.value)}
+                placeholder="Any admin"
+                data-testid="input-audit-actor"
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-12">Loading audit log...</div>
+          ) : !entries || entries.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">No audit entries match these filters.</div>
+          ) : (
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  className="w-full text-left border rounded-lg p-3 flex items-center justify-between gap-4 hover:bg-muted/50"
+                  onClick={() => setSelectedEntryId(entry.id)}
+                  data-testid={`audit-entry-${entry.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>{entry.action}</Badge>
+                    <span className="font-medium">{entry.entity} #{entry.entityId}</span>
+                    {(entry.after as any)?.name || (entry.before as any)?.name ? (
+                      <span className="text-sm text-muted-foreground">
+                        {(entry.after as any)?.name || (entry.before as any)?.name}
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="text-xs text-muted-foreground text-right">
+                    <div>{new Date(entry.at).toLocaleString()}</div>
+                    <div className="font-mono">{entry.actorId || "system"}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit Entry Diff Dialog */}
+      <Dialog open={selectedEntryId !== null} onOpenChange={(open) => !open && setSelectedEntryId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedEntry ? `${selectedEntry.action} ${selectedEntry.entity} #${selectedEntry.entityId}` : "Audit entry"}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedEntry && new Date(selectedEntry.at).toLocaleString()}
+              {selectedEntry?.restoredFromAuditId && ` · restored from entry #${selectedEntry.restoredFromAuditId}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!selectedEntry ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : selectedEntry.diff.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No differences between before and after.</div>
+          ) : (
+            <div className="space-y-1 font-mono text-xs">
+              {selectedEntry.diff.map((d) => (
+                <div
+                  key={d.path}
+                  className={`grid grid-cols-3 gap-2 p-2 rounded ${
+                    d.kind === "added" ? "bg-green-50" : d.kind === "removed" ? "bg-red-50" : "bg-yellow-50"
+                  }`}
+                >
+                  <span className="font-semibold break-all">{d.path || "(root)"}</span>
+                  <span className="text-red-700 break-all">{formatDiffValue(d.before)}</span>
+                  <span className="text-green-700 break-all">{formatDiffValue(d.after)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {selectedEntry && (canRestore(selectedEntry, "before") || canRestore(selectedEntry, "after")) && (
+            <div className="flex justify-end gap-2 pt-4">
+              {(["before", "after"] as const).filter(side => canRestore(selectedEntry, side)).map(side => (
+                <Button
+                  key={side}
+                  variant="outline"
+                  onClick={() => restoreMutation.mutate({ id: selectedEntry.id, side })}
+                  disabled={restoreMutation.isPending}
+                  data-testid={`button-restore-${side}`}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Restore {side}
+                </Button>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
 export default function AdminPanel() {
   const { toast } = useToast();
   const [blocks, setBlocks] = useState<Block[]>([]);
@@ -303,23 +523,7 @@ export default function AdminPanel() {
         throw new Error("Add at least one block");
       }
 
-      // Transform blocks to match backend DTO format
-      const transformedBlocks = blocks.map(block => ({
-        name: block.name,
-        type: block.type,
-        params: {
-          ...block.params,
-          type: block.type, // Add discriminator to params
-        },
-        exercises: block.exercises?.map(ex => ({
-          exerciseId: ex.exerciseId,
-          overrides: {
-            workSec: ex.workSec,
-            restSec: ex.restSec,
-            targetReps: ex.targetReps,
-          }
-        })),
-      }));
+      const transformedBlocks = toBlockDTOs(blocks);
 
       if (editingWorkoutId) {
         // Update existing workout
@@ -379,6 +583,7 @@ export default function AdminPanel() {
         description: block.description || "",
         type: block.type,
         params: block.params,
+        section: block.section,
         exercises: block.exercises.map((ex: any) => ({
           exerciseId: ex.exerciseId,
           targetReps: ex.targetReps,
@@ -651,6 +856,52 @@ export default function AdminPanel() {
     setBlocks(newBlocks);
   };
 
+  // Replace any warm-up/cool-down blocks (and the finisher, when one is asked for)
+  // with ones generated from the main blocks
+  const generateSections = async (finisher = false) => {
+    try {
+      const result = await apiRequest('/api/blocks/generate-sections', 'POST', {
+        blocks: toBlockDTOs(blocks),
+        finisher,
+      });
+      const fromDTO = (block: BlockDTOType): Block => ({
+        id: Math.random().toString(36).substr(2, 9),
+        name: block.name,
+        description: "",
+        type: block.type,
+        params: block.params,
+        section: block.section,
+        exercises: (block.exercises ?? []).map((ex, idx) => ({
+          exerciseId: ex.exerciseId,
+          orderIndex: idx,
+        })),
+      });
+      const mainBlocks = blocks.filter(b =>
+        b.section !== "warmup" && b.section !== "cooldown" && !(finisher && b.section === "finisher")
+      );
+      setBlocks([
+        ...result.warmup.map(fromDTO),
+        ...mainBlocks,
+        ...result.finisher.map(fromDTO),
+        ...result.cooldown.map(fromDTO),
+      ]);
+      toast({
+        title: finisher
+          ? (result.finisher.length > 0 ? "Sections and finisher added" : "Sections added; no conditioning exercises for a finisher")
+          : "Warm-up and cool-down added",
+        description: result.targets.muscleGroups.length > 0
+          ? `Targeting ${result.targets.muscleGroups.slice(0, 3).join(", ")}`
+          : "No muscle data for these exercises; added general sections"
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to generate sections",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
   const compileTimeline = async () => {
     if (blocks.length === 0) {
       toast({
@@ -739,9 +990,13 @@ export default function AdminPanel() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-lg grid-cols-3">
             <TabsTrigger value="create">Create Workout</TabsTrigger>
             <TabsTrigger value="manage">Manage Workouts</TabsTrigger>
+            <TabsTrigger value="audit">
+              <History className="h-4 w-4 mr-1" />
+              Audit Log
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="create" className="mt-6">
@@ -1242,7 +1497,14 @@ export default function AdminPanel() {
                           <div className="flex items-start justify-between">
                             <div>
                               <h3 className="font-semibold">{index + 1}. {block.name}</h3>
-                              <p className="text-sm text-muted-foreground">{block.params.type}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {block.params.type}
+                                {block.section && block.section !== "main" && (
+                                  <span className="ml-2 text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded" data-testid={`text-block-section-${index}`}>
+                                    {SECTION_LABELS[block.section]}
+                                  </span>
+                                )}
+                              </p>
                             </div>
                             <div className="flex gap-1">
                               <Button
@@ -1334,6 +1596,22 @@ export default function AdminPanel() {
                     <Eye className="mr-2 h-4 w-4" />
                     Preview Timeline
                   </Button>
+                  <Button 
+                    variant="outline" 
+                    data-testid="button-generate-sections"
+                    onClick={() => generateSections()}
+                  >
+                    <Flame className="mr-2 h-4 w-4" />
+                    Warm-up & Cool-down
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    data-testid="button-generate-finisher"
+                    onClick={() => generateSections(true)}
+                  >
+                    <Zap className="mr-2 h-4 w-4" />
+                    With Finisher
+                  </Button>
                 </div>
               )}
             </CardContent>
@@ -1393,6 +1671,10 @@ export default function AdminPanel() {
       <TabsContent value="manage" className="mt-6">
         <ManageWorkoutsTab onEditWorkout={(id) => loadWorkoutMutation.mutate(id)} />
       </TabsContent>
+
+      <TabsContent value="audit" className="mt-6">
+        <AuditLogTab />
+      </TabsContent>
     </Tabs>
 
         {/* Timeline Preview Dialog */}
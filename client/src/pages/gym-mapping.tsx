@@ -682,7 +682,7 @@ export default function GymMapping() {
     }
   };
 
-  const saveGymLayout = () => {
+  const saveGymLayout = async () => {
     if (!currentLocation) {
       alert("Location access is required to save gym layouts");
       return;
@@ -707,6 +707,38 @@ export default function GymMapping() {
     setIsMappingMode(false);
     
     console.log("Gym layout created:", layout);
+
+    // Persist the detected equipment as a gym profile so recommendations can use it
+    if (!isAuthenticated) {
+      setShowAuthModal(true);
+      return;
+    }
+    if (layout.equipment.length === 0) {
+      toast({ title: "No equipment detected", description: "Scan the gym floor before saving a gym profile" });
+      return;
+    }
+
+    try {
+      const gym = await apiRequest('/api/gym-profiles/from-mapping', 'POST', {
+        name: layout.name,
+        location: layout.location,
+        detections: layout.equipment.map(item => ({ name: item.name, confidence: item.confidence })),
+        zones: layout.zones.map(zone => ({
+          name: zone.name,
+          type: zone.type,
+          equipment: zone.equipment.map(item => item.name),
+        })),
+      });
+      toast({
+        title: "Gym profile saved",
+        description: gym.unmatchedDetections.length > 0
+          ? `${gym.equipment.length} equipment types recognised; edit the profile to add ${gym.unmatchedDetections.join(", ")}`
+          : `${gym.equipment.length} equipment types recognised`,
+      });
+    } catch (error) {
+      console.error('Failed to save gym profile:', error);
+      toast({ title: "Could not save gym profile", variant: "destructive" });
+    }
   };
 
   return (
@@ -0,0 +1,394 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import Header from "@/components/header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, XCircle, Tag, ThumbsUp, ThumbsDown, History, ShieldCheck } from "lucide-react";
+import { getAITrainingEquipment } from "@shared/ai-equipment-catalog";
+import type { Contribution, ContributionModerationEvent } from "@shared/schema";
+import type { ModerationDecisionDTOType } from "@shared/dto";
+
+type ModerationStatus = "pending" | "approved" | "rejected";
+
+interface ModerationQueue {
+  items: Array<Contribution & { upVotes: number; downVotes: number }>;
+  total: number;
+  counts: Record<ModerationStatus, number>;
+}
+
+interface CommunityReviewItem {
+  id: string;
+  imageData: string;
+  equipment: string;
+  boundingBoxes: NonNullable<Contribution["boundingBoxes"]>;
+  votes: number;
+  createdAt: string;
+}
+
+const EQUIPMENT = getAITrainingEquipment();
+
+const ACTION_LABELS: Record<string, string> = {
+  approve: "Approved",
+  reject: "Rejected",
+  relabel: "Relabeled",
+  auto_verify: "Verified by community",
+};
+
+function imageSrc(imageData: string) {
+  return imageData.startsWith("data:") ? imageData : `data:image/jpeg;base64,${imageData}`;
+}
+
+function ModerationHistory({ contributionId }: { contributionId: string }) {
+  const { data: events = [], isLoading } = useQuery<ContributionModerationEvent[]>({
+    queryKey: [`/api/moderation/contributions/${contributionId}/history`],
+  });
+
+  if (isLoading) return <p className="text-xs text-gray-500">Loading history...</p>;
+  if (events.length === 0) return <p className="text-xs text-gray-500">No moderation history yet.</p>;
+
+  return (
+    <ul className="space-y-1 text-xs text-gray-600" data-testid={`history-${contributionId}`}>
+      {events.map(event => (
+        <li key={event.id}>
+          <span className="font-medium">{ACTION_LABELS[event.action] ?? event.action}</span>
+          {event.fromLabel !== event.toLabel && ` (${event.fromLabel} → ${event.toLabel})`}
+          {" by "}{event.actorId ?? "community"}
+          {" · "}{new Date(event.at).toLocaleString()}
+          {event.notes && <div className="text-gray-500">“{event.notes}”</div>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ReviewCard({ item, selected, onSelectedChange, onDecision, isPending }: {
+  item: ModerationQueue["items"][number];
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onDecision: (decision: ModerationDecisionDTOType) => void;
+  isPending: boolean;
+}) {
+  const [equipment, setEquipment] = useState(item.equipment);
+  const [notes, setNotes] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const relabeled = equipment !== item.equipment;
+  const decide = (action: ModerationDecisionDTOType["action"]) => onDecision({
+    action,
+    equipment: action === "reject" || !relabeled ? undefined : equipment,
+    notes: notes.trim() || undefined,
+  });
+
+  return (
+    <Card data-testid={`moderation-item-${item.id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            checked={selected}
+            onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            aria-label="Select for bulk action"
+            data-testid={`select-${item.id}`}
+          />
+          <img src={imageSrc(item.imageData)} alt={item.equipment} className="w-40 h-32 object-cover rounded-md bg-gray-100" />
+          <div className="flex-1 space-y-1 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{item.equipment}</Badge>
+              <Badge variant="secondary">{item.trainingSet ?? "unassigned"}</Badge>
+              {item.verified && <Badge className="bg-green-600">Verified</Badge>}
+            </div>
+            <p className="text-gray-600">
+              {item.boundingBoxes?.length ?? 0} boxes · confidence {Math.round(item.confidence * 100)}%
+            </p>
+            <p className="text-gray-600 flex items-center gap-3">
+              <span className="flex items-center gap-1"><ThumbsUp className="h-3 w-3" />{item.upVotes}</span>
+              <span className="flex items-center gap-1"><ThumbsDown className="h-3 w-3" />{item.downVotes}</span>
+            </p>
+            {item.notes && <p className="text-gray-500">Contributor: {item.notes}</p>}
+            {item.moderationNotes && <p className="text-gray-500">Moderator: {item.moderationNotes}</p>}
+          </div>
+        </div>
+
+        <div className="grid gap-2 md:grid-cols-2">
+          <Select value={equipment} onValueChange={setEquipment}>
+            <SelectTrigger data-testid={`label-${item.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EQUIPMENT.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            rows={1}
+            data-testid={`notes-${item.id}`}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => decide("approve")} disabled={isPending} data-testid={`approve-${item.id}`}>
+            <CheckCircle className="h-4 w-4 mr-1" />
+            {relabeled ? "Relabel & Approve" : "Approve"}
+          </Button>
+          <Button size="sm" variant="destructive" onClick={() => decide("reject")} disabled={isPending} data-testid={`reject-${item.id}`}>
+            <XCircle className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => decide("relabel")} disabled={isPending || !relabeled} data-testid={`relabel-${item.id}`}>
+            <Tag className="h-4 w-4 mr-1" />
+            Relabel Only
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setShowHistory(!showHistory)}>
+            <History className="h-4 w-4 mr-1" />
+            History
+          </Button>
+        </div>
+
+        {showHistory && <ModerationHistory contributionId={item.id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ModeratorQueue() {
+  const [status, setStatus] = useState<ModerationStatus>("pending");
+  const [equipmentFilter, setEquipmentFilter] = useState("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkNotes, setBulkNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const params = new URLSearchParams({ status });
+  if (equipmentFilter !== "all") params.set("equipment", equipmentFilter);
+  const queueKey = `/api/moderation/queue?${params.toString()}`;
+
+  const { data: queue, isLoading } = useQuery<ModerationQueue>({
+    queryKey: [queueKey],
+  });
+
+  const refresh = () => {
+    setSelected(new Set());
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/moderation/") });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: ModerationDecisionDTOType }) =>
+      apiRequest(`/api/moderation/contributions/${id}/review`, "POST", decision),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ title: "Review Failed", description: error.message || "Failed to save review.", variant: "destructive" });
+    },
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: (action: "approve" | "reject") =>
+      apiRequest("/api/moderation/contributions/bulk", "POST", {
+        ids: Array.from(selected),
+        action,
+        notes: bulkNotes.trim() || undefined,
+      }),
+    onSuccess: (result: { updated: number }) => {
+      toast({ title: "Bulk Review Saved", description: `${result.updated} contributions updated.` });
+      setBulkNotes("");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Bulk Review Failed", description: error.message || "Failed to save reviews.", variant: "destructive" });
+    },
+  });
+
+  const items = queue?.items ?? [];
+  const allSelected = items.length > 0 && items.every(item => selected.has(item.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Tabs value={status} onValueChange={(value) => { setStatus(value as ModerationStatus); setSelected(new Set()); }}>
+          <TabsList>
+            {(["pending", "approved", "rejected"] as const).map(s => (
+              <TabsTrigger key={s} value={s} data-testid={`status-${s}`}>
+                {s.charAt(0).toUpperCase() + s.slice(1)} ({queue?.counts[s] ?? 0})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Select value={equipmentFilter} onValueChange={setEquipmentFilter}>
+          <SelectTrigger className="w-56" data-testid="equipment-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All equipment</SelectItem>
+            {EQUIPMENT.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {items.length > 0 && (
+        <Card>
+          <CardContent className="p-4 flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="select-all"
+                checked={allSelected}
+                onCheckedChange={(checked) => setSelected(checked === true ? new Set(items.map(item => item.id)) : new Set())}
+                data-testid="select-all"
+              />
+              <Label htmlFor="select-all">{selected.size} selected</Label>
+            </div>
+            <Textarea
+              value={bulkNotes}
+              onChange={(e) => setBulkNotes(e.target.value)}
+              placeholder="Notes for all selected (optional)"
+              rows={1}
+              className="flex-1 min-w-[12rem]"
+            />
+            <Button size="sm" onClick={() => bulkMutation.mutate("approve")} disabled={selected.size === 0 || bulkMutation.isPending} data-testid="bulk-approve">
+              Approve Selected
+            </Button>
+            <Button size="sm" variant="destructive" onClick={() => bulkMutation.mutate("reject")} disabled={selected.size === 0 || bulkMutation.isPending} data-testid="bulk-reject">
+              Reject Selected
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading queue...</p>
+      ) : items.length === 0 ? (
+        <p className="text-gray-500" data-testid="queue-empty">Nothing to review here.</p>
+      ) : (
+        <div className="space-y-3">
+          {items.map(item => (
+            <ReviewCard
+              key={item.id}
+              item={item}
+              selected={selected.has(item.id)}
+              onSelectedChange={(checked) => setSelected(prev => {
+                const next = new Set(prev);
+                if (checked) next.add(item.id); else next.delete(item.id);
+                return next;
+              })}
+              onDecision={(decision) => reviewMutation.mutate({ id: item.id, decision })}
+              isPending={reviewMutation.isPending}
+            />
+          ))}
+          {queue && queue.total > items.length && (
+            <p className="text-sm text-gray-500">Showing {items.length} of {queue.total}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CommunityReview() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading } = useQuery<CommunityReviewItem[]>({
+    queryKey: ["/api/contributions/community-review"],
+  });
+
+  const voteMutation = useMutation({
+    mutationFn: ({ id, value }: { id: string; value: 1 | -1 }) =>
+      apiRequest(`/api/contributions/${id}/vote`, "POST", { value }),
+    onSuccess: (result: { verified: boolean }) => {
+      if (result.verified) {
+        toast({ title: "Verified", description: "The community agreed - this image is now in the training set." });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/contributions/community-review"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Vote Failed", description: error.message || "Failed to record vote.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) return <p className="text-gray-500">Loading images...</p>;
+  if (items.length === 0) {
+    return <p className="text-gray-500" data-testid="community-empty">No images waiting for your vote. Check back later!</p>;
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {items.map(item => (
+        <Card key={item.id} data-testid={`community-item-${item.id}`}>
+          <CardContent className="p-4 space-y-3">
+            <img src={imageSrc(item.imageData)} alt={item.equipment} className="w-full h-48 object-cover rounded-md bg-gray-100" />
+            <p className="text-sm">Is this a <span className="font-semibold">{item.equipment}</span>?</p>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => voteMutation.mutate({ id: item.id, value: 1 })} disabled={voteMutation.isPending} data-testid={`vote-up-${item.id}`}>
+                <ThumbsUp className="h-4 w-4 mr-1" />
+                Yes
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => voteMutation.mutate({ id: item.id, value: -1 })} disabled={voteMutation.isPending} data-testid={`vote-down-${item.id}`}>
+                <ThumbsDown className="h-4 w-4 mr-1" />
+                No
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Contribution review: members vote on other members' labels, and moderators
+ * approve, reject or relabel from the queue. Only approved images are exported
+ * for training.
+ */
+export default function Moderation() {
+  const { isAuthenticated } = useAuth();
+
+  const { data: moderatorStatus } = useQuery<{ isModerator: boolean }>({
+    queryKey: ['/api/auth/is-moderator'],
+    enabled: isAuthenticated
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Review Contributions
+            </CardTitle>
+            <CardDescription>
+              Help keep the equipment dataset accurate. Images join the training set once a moderator approves them or the community agrees on the label.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        {!isAuthenticated ? (
+          <p className="text-gray-600">Sign in to review contributions.</p>
+        ) : moderatorStatus?.isModerator ? (
+          <Tabs defaultValue="queue">
+            <TabsList>
+              <TabsTrigger value="queue">Moderation Queue</TabsTrigger>
+              <TabsTrigger value="community">Community Review</TabsTrigger>
+            </TabsList>
+            <TabsContent value="queue"><ModeratorQueue /></TabsContent>
+            <TabsContent value="community"><CommunityReview /></TabsContent>
+          </Tabs>
+        ) : (
+          <CommunityReview />
+        )}
+      </div>
+    </div>
+  );
+}
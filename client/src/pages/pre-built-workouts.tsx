@@ -6,12 +6,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
-import { Clock, Target, Zap, User, Play, Calendar, Users, Brain, Volume2, X } from 'lucide-react';
+import { Clock, Target, Zap, User, Play, Calendar, Users, Brain, Volume2, X, Plus, Lock, Globe, Trash2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Link, useLocation } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+import BlockWorkoutBuilder from '@/components/BlockWorkoutBuilder';
+import type { BlockWorkout } from '@shared/schema';
 
 interface WorkoutTemplate {
   id: number;
@@ -99,6 +102,51 @@ export default function PreBuiltWorkouts() {
   // Ensure blockWorkouts is always an array
   const blockWorkouts = Array.isArray(blockWorkoutsResponse) ? blockWorkoutsResponse : [];
 
+  // Member-built workouts (private and shared)
+  const { isAuthenticated } = useAuth();
+  const [builderOpen, setBuilderOpen] = useState(false);
+  const { data: myWorkouts = [] } = useQuery<BlockWorkout[]>({
+    queryKey: ['/api/user-block-workouts'],
+    enabled: isAuthenticated,
+  });
+
+  const invalidateMemberWorkouts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/user-block-workouts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/block-workouts'] });
+  };
+
+  const visibilityMutation = useMutation({
+    mutationFn: ({ id, isPublic }: { id: number; isPublic: boolean }) =>
+      apiRequest(`/api/user-block-workouts/${id}`, 'PATCH', { visibility: isPublic ? 'public' : 'private' }),
+    onSuccess: invalidateMemberWorkouts,
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update workout.', variant: 'destructive' });
+    },
+  });
+
+  const deleteMyWorkoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/user-block-workouts/${id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to delete workout');
+      }
+      // 204 when deleted; 200 with a body when it was made private instead
+      return response.status === 204 ? null : response.json();
+    },
+    onSuccess: (result: { madePrivate?: boolean; message?: string } | null) => {
+      if (result?.madePrivate) {
+        toast({ title: 'Workout Made Private', description: result.message });
+      } else {
+        toast({ title: 'Workout Deleted' });
+      }
+      invalidateMemberWorkouts();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to delete workout.', variant: 'destructive' });
+    },
+  });
+
   // Fetch detailed template when selected
   const { data: detailedTemplate, isLoading: isLoadingDetails } = useQuery<DetailedWorkoutTemplate>({
     queryKey: ['/api/workout-templates', selectedTemplate?.id],
@@ -231,6 +279,85 @@ export default function PreBuiltWorkouts() {
         </select>
       </div>
 
+      {/* My Workouts Section */}
+      {isAuthenticated && (
+        <div className="mb-10" data-testid="my-block-workouts">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">My Workouts</h2>
+            <Button size="sm" onClick={() => setBuilderOpen(true)} data-testid="open-block-workout-builder">
+              <Plus className="h-4 w-4 mr-1" />
+              Build Workout
+            </Button>
+          </div>
+          {myWorkouts.length === 0 ? (
+            <p className="text-gray-600 text-sm">Build your own circuit or superset and it will show up here.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {myWorkouts.map((workout) => (
+                <Card key={workout.id} data-testid={`my-block-workout-${workout.id}`}>
+                  <CardHeader>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Badge variant={workout.isPublic ? 'default' : 'secondary'}>
+                        {workout.isPublic ? <Globe className="h-3 w-3 mr-1" /> : <Lock className="h-3 w-3 mr-1" />}
+                        {workout.isPublic ? 'Shared' : 'Private'}
+                      </Badge>
+                    </div>
+                    <CardTitle className="text-lg">{workout.name}</CardTitle>
+                    {workout.description && <CardDescription>{workout.description}</CardDescription>}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      <div className="flex items-center gap-4 text-sm text-gray-600">
+                        <div className="flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          <span>{workout.estimatedDurationMin}min</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Target className="h-4 w-4" />
+                          <span>{workout.blockSequence?.length || 0} blocks</span>
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`share-${workout.id}`} className="text-sm">Share with members</Label>
+                        <Switch
+                          id={`share-${workout.id}`}
+                          checked={workout.isPublic}
+                          disabled={visibilityMutation.isPending}
+                          onCheckedChange={(checked) => visibilityMutation.mutate({ id: workout.id, isPublic: checked })}
+                          data-testid={`share-my-block-workout-${workout.id}`}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => startBlockWorkoutMutation.mutate(workout.id)}
+                          disabled={startBlockWorkoutMutation.isPending}
+                          data-testid={`start-my-block-workout-${workout.id}`}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          Start
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => deleteMyWorkoutMutation.mutate(workout.id)}
+                          disabled={deleteMyWorkoutMutation.isPending}
+                          data-testid={`delete-my-block-workout-${workout.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+          <BlockWorkoutBuilder open={builderOpen} onOpenChange={setBuilderOpen} />
+        </div>
+      )}
+
       {/* Block Workouts Section */}
       {blockWorkouts.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" data-testid="block-workouts-grid">
@@ -243,6 +370,9 @@ export default function PreBuiltWorkouts() {
                         <Badge className="bg-purple-500 text-white">
                           Block Workout
                         </Badge>
+                        {workout.ownerId && (
+                          <Badge variant="outline">Member-built</Badge>
+                        )}
                       </div>
                       <CardTitle className="text-lg mb-2" data-testid={`block-workout-name-${workout.id}`}>
                         {workout.name}
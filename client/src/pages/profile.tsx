@@ -1,9 +1,14 @@
+import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { 
   User, 
   Mail, 
@@ -13,14 +18,70 @@ import {
   Users, 
   BarChart3,
   LogOut,
-  ArrowLeft
+  ArrowLeft,
+  Dumbbell,
+  Save
 } from "lucide-react";
 import { Link } from "wouter";
 import Header from "@/components/header";
-import { useQuery } from "@tanstack/react-query";
+import GymProfilesCard from "@/components/gym-profiles-card";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UserTrainingProfile } from "@shared/schema";
+
+const GOALS = [
+  { value: "strength", label: "Strength" },
+  { value: "hypertrophy", label: "Hypertrophy" },
+  { value: "endurance", label: "Endurance" },
+  { value: "fat_loss", label: "Fat loss" },
+  { value: "general_fitness", label: "General fitness" },
+];
 
 export default function Profile() {
   const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Training profile (editable copy kept in local state until saved)
+  const { data: trainingProfile } = useQuery<UserTrainingProfile>({
+    queryKey: ["/api/profile/training"],
+    enabled: isAuthenticated && !!user,
+  });
+  const [goals, setGoals] = useState<string[]>([]);
+  const [coachingStyle, setCoachingStyle] = useState("minimal");
+  const [preferredUnits, setPreferredUnits] = useState("lbs");
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState("epley");
+
+  useEffect(() => {
+    if (!trainingProfile) return;
+    setGoals(trainingProfile.goals);
+    setCoachingStyle(trainingProfile.coachingStyle);
+    setPreferredUnits(trainingProfile.preferredUnits);
+    setOneRepMaxFormula(trainingProfile.oneRepMaxFormula);
+  }, [trainingProfile]);
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("/api/profile/training", "PUT", { goals, coachingStyle, preferredUnits, oneRepMaxFormula });
+    },
+    onSuccess: () => {
+      toast({ title: "Training profile saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/training"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleGoal = (goal: string) => {
+    setGoals(prev => prev.includes(goal) ? prev.filter(g => g !== goal) : [...prev, goal]);
+  };
+
+  const estimatedOneRepMaxes = Object.entries(trainingProfile?.estimatedOneRepMaxes || {})
+    .sort(([, a], [, b]) => a.exerciseName.localeCompare(b.exerciseName));
   
   // Fetch contribution stats
   const { data: contributionStats, isLoading: statsLoading } = useQuery({
@@ -131,6 +192,112 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Training Profile */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Dumbbell className="h-5 w-5" />
+              Training Profile
+            </CardTitle>
+            <CardDescription>
+              Your AI coach uses these to tailor cues and load suggestions
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <Label className="mb-2 block">Goals</Label>
+              <div className="flex flex-wrap gap-2">
+                {GOALS.map(goal => (
+                  <Badge
+                    key={goal.value}
+                    variant={goals.includes(goal.value) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => toggleGoal(goal.value)}
+                    data-testid={`badge-goal-${goal.value}`}
+                  >
+                    {goal.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label className="mb-2 block">Coaching style</Label>
+                <Select value={coachingStyle} onValueChange={setCoachingStyle}>
+                  <SelectTrigger data-testid="select-coaching-style">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="minimal">Minimal</SelectItem>
+                    <SelectItem value="motivational">Motivational</SelectItem>
+                    <SelectItem value="technical">Technical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Units</Label>
+                <Select value={preferredUnits} onValueChange={setPreferredUnits}>
+                  <SelectTrigger data-testid="select-units">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lbs">lbs</SelectItem>
+                    <SelectItem value="kg">kg</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">1RM estimate</Label>
+                <Select value={oneRepMaxFormula} onValueChange={setOneRepMaxFormula}>
+                  <SelectTrigger data-testid="select-1rm-formula">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="epley">Epley</SelectItem>
+                    <SelectItem value="brzycki">Brzycki</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label className="mb-2 block">Estimated 1RMs</Label>
+              {estimatedOneRepMaxes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Log weight and reps during a workout to build your estimates
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {estimatedOneRepMaxes.map(([exerciseId, estimate]) => (
+                    <div key={exerciseId} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                      <span className="font-medium">{estimate.exerciseName || `Exercise ${exerciseId}`}</span>
+                      <span className="text-gray-600">
+                        {estimate.oneRepMax} {preferredUnits}
+                        <span className="text-xs text-gray-400 ml-2">from {estimate.weight} × {estimate.reps}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveProfileMutation.mutate()}
+                disabled={saveProfileMutation.isPending}
+                className="gap-2"
+                data-testid="button-save-training-profile"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <GymProfilesCard />
+
         {/* Stats Grid */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <Card>
@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { Link } from "wouter";
 import type { Exercise } from "@shared/schema";
+import { scorePairing } from "@/lib/pairing-logic";
 
 interface TrainerPairing {
   id: number;
@@ -76,6 +77,11 @@ export default function TrainerPairs() {
     queryKey: ['/api/exercises/muscle-groups'],
   });
 
+  // Weights the server scores with (built-in or the active learned set)
+  const { data: activeWeights } = useQuery<{ version: string; weights: Record<string, number> }>({
+    queryKey: ['/api/pairing-weights/active'],
+  });
+
   // Get trainer pairings
   const { data: pairings = [], isLoading } = useQuery<TrainerPairing[]>({
     queryKey: ['/api/trainer-pairs'],
@@ -235,6 +241,11 @@ export default function TrainerPairs() {
     setMuscleGroupFilterB("");
   };
 
+  // Same score the server will store for this pair
+  const previewScore = selectedExerciseA && selectedExerciseB
+    ? scorePairing(selectedExerciseA, selectedExerciseB, { weights: activeWeights?.weights })
+    : null;
+
   const handleCreatePairing = () => {
     if (!selectedExerciseA || !selectedExerciseB || !pairingType) {
       toast({
@@ -511,6 +522,24 @@ export default function TrainerPairs() {
             </div>
           </div>
 
+          {previewScore && (
+            <div className="rounded-md border p-3 text-sm space-y-2" data-testid="pairing-score-preview">
+              <div className="font-medium">
+                {previewScore.excluded ? "Excluded by pairing rules" : `Engine score: ${previewScore.score}`}
+                {activeWeights && activeWeights.version !== "default" && (
+                  <span className="ml-2 text-xs text-muted-foreground">weights {activeWeights.version}</span>
+                )}
+              </div>
+              <ul className="text-muted-foreground space-y-1">
+                {previewScore.excluded
+                  ? previewScore.reasoning.map(reason => <li key={reason}>• {reason}</li>)
+                  : previewScore.trace.filter(entry => entry.points > 0).map(entry => (
+                      <li key={entry.rule}>+{Math.round(entry.points)} {entry.reason}</li>
+                    ))}
+              </ul>
+            </div>
+          )}
+
           {/* Pairing Configuration */}
           <div className="grid md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -199,6 +199,7 @@ export default function WorkoutSessionPage() {
 
   const realtime = useRealtimeVoice({
     sessionId: session?.id || 0,
+    sessionKind: isBlockWorkout ? 'block' : 'workout',
     onTranscript: handleTranscript,
     onError: handleRealtimeError,
   });
@@ -228,7 +229,7 @@ export default function WorkoutSessionPage() {
   const coachContext = useMemo<TimelineContext>(() => {
     // Build blocks array from executionTimeline params
     const blocks = executionTimeline ? [{
-      id: 'block-1',
+      id: executionTimeline.executionTimeline?.find((s: any) => s.blockId)?.blockId ?? 'block-1',
       params: executionTimeline.params || {},
       exerciseIds: exercises.map(e => e.id)
     }] : [];
@@ -285,29 +286,29 @@ export default function WorkoutSessionPage() {
   useEffect(() => {
     seedResponses([
       // Pre-block
-      { id:1,event_type:'pre_block',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Get ready. Weights set?',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
-      { id:2,event_type:'pre_block',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Block starting. Check your setup.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:1,event_type:'EV_BLOCK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Get ready. Weights set?',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:2,event_type:'EV_BLOCK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Block starting. Check your setup.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
       
       // Work start - WITH EXERCISE NAMES
-      { id:3,event_type:'work_start',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'{{exercise}} — {{cue}}',priority:5,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
-      { id:4,event_type:'work_start',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{exercise}}. Stay tight.',priority:5,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
-      { id:5,event_type:'work_start',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'{{exercise}}. Own each rep.',priority:4,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
+      { id:3,event_type:'EV_WORK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'{{exercise}} — {{cue}}',priority:5,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
+      { id:4,event_type:'EV_WORK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Go — {{exercise}}. Stay tight.',priority:5,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
+      { id:5,event_type:'EV_WORK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'{{exercise}}. Own each rep.',priority:4,cooldown_sec:30,active:true,usage_count:0,last_used_at:null },
       
       // Work end - varied recovery cues
-      { id:6,event_type:'work_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Good set. Shake it out.',priority:5,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
-      { id:7,event_type:'work_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Strong work. Recover now.',priority:5,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
-      { id:8,event_type:'work_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Set done. Deep breath.',priority:4,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
+      { id:6,event_type:'EV_WORK_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Good set. Shake it out.',priority:5,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
+      { id:7,event_type:'EV_WORK_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Strong work. Recover now.',priority:5,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
+      { id:8,event_type:'EV_WORK_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Set done. Deep breath.',priority:4,cooldown_sec:25,active:true,usage_count:0,last_used_at:null },
       
       // Rest start
-      { id:9,event_type:'rest_start',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Rest. Log your numbers.',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
-      { id:10,event_type:'rest_start',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Breathe. Record your set.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:9,event_type:'EV_REST_START',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Rest. Log your numbers.',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:10,event_type:'EV_REST_START',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Breathe. Record your set.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
       
       // Rest end - WITH NEXT EXERCISE NAME
-      { id:11,event_type:'rest_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Time. Back to {{exercise}}.',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
-      { id:12,event_type:'rest_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Rest over. {{exercise}} — lock in.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:11,event_type:'EV_REST_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Time. Back to {{exercise}}.',priority:5,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
+      { id:12,event_type:'EV_REST_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Rest over. {{exercise}} — lock in.',priority:4,cooldown_sec:20,active:true,usage_count:0,last_used_at:null },
       
       // Workout end
-      { id:13,event_type:'workout_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Done. Strong session today.',priority:10,cooldown_sec:0,active:true,usage_count:0,last_used_at:null }
+      { id:13,event_type:'EV_WORKOUT_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Done. Strong session today.',priority:10,cooldown_sec:0,active:true,usage_count:0,last_used_at:null }
     ] as any);
   }, []);
 
@@ -1066,7 +1067,7 @@ export default function WorkoutSessionPage() {
       });
       emitCoachEvent({ 
         type: 'EV_AWAIT_READY', 
-        blockId: session?.id?.toString() || 'block-1' 
+        blockId: currentStep.blockId ?? 'block-1' 
       });
     } else if (currentStep.type === 'work') {
       // Handle both canonical rep-based (exercises array) and traditional (single exercise)
@@ -1311,6 +1312,11 @@ export default function WorkoutSessionPage() {
           name: blockSession.blockWorkout?.name || "Today's Workout",
           executionTimeline: executionTimeline
         }}
+        session={{
+          id: blockSession.id,
+          currentStep: blockSession.currentStep ?? 0,
+          status: blockSession.status
+        }}
       />
     );
   }
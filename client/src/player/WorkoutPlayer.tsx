@@ -10,6 +10,10 @@ import { speakTTS } from '@/audio/ttsAdapter';
 import { beeps } from '@/coach/beeps';
 import { voiceBus } from '@/audio/voiceBus';
 import { scheduleRepRound, formatRoundLabel } from '@/coach/coachRoundScheduler';
+import { Button } from '@/components/ui/button';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 
 interface WorkoutPlayerProps {
   workout: {
@@ -17,14 +21,67 @@ interface WorkoutPlayerProps {
     name: string;
     executionTimeline?: any; // Compiled timeline from server
   };
+  // Persisted block workout session (enables checkpointing + resume after reload)
+  session?: {
+    id: number;
+    currentStep: number;
+    status: string;
+  };
 }
 
-export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+type SubstitutionReason = 'busy' | 'missing';
+
+interface SubstitutesResponse {
+  candidates: Array<{
+    exercise: { id: number; name: string; equipmentPrimary?: string | null; equipment?: string | null };
+    score: number;
+    reasons: string[];
+  }>;
+}
+
+// Log a completed AMRAP round as one set (set index = round) per exercise in the window
+function logAmrapRound(sessionId: number, step: any, round: number) {
+  const exercises = step?.exercises || (step?.exercise ? [step.exercise] : []);
+  if (exercises.length === 0) return;
+  fetch(`/api/block-workout-sessions/${sessionId}/sets`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(exercises.map((ex: any) => ({ exerciseId: ex.id, setIndex: round }))),
+    credentials: 'include',
+  }).catch((err) => console.warn('AMRAP round log failed:', err));
+}
+
+// Fire-and-forget session sync; keepalive lets it survive tab close/phone lock
+function syncSession(sessionId: number, action: string, body?: Record<string, unknown>) {
+  fetch(`/api/block-workout-sessions/${sessionId}/${action}`, {
+    method: action === 'checkpoint' ? 'PATCH' : 'POST',
+    headers: body ? { 'Content-Type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include',
+    keepalive: true,
+  }).catch((err) => console.warn(`Session ${action} failed:`, err));
+}
+
+export function WorkoutPlayer({ workout, session }: WorkoutPlayerProps) {
+  const { toast } = useToast();
   const [planned, setPlanned] = useState<Record<string, number|undefined>>({});
-  const [stage, setStage] = useState<'loading'|'intro'|'preflight'|'playing'>('loading');
+  const [stage, setStage] = useState<'loading'|'resume'|'intro'|'preflight'|'playing'>('loading');
   const [audioReady, setAudioReady] = useState(false);
   const [chatterLevel, setChatterLevel] = useState<ChatterLevel>('minimal');
   const [repPaceSec, setRepPaceSec] = useState<number>(180);
+  const [paused, setPaused] = useState(false);
+  const [amrapRounds, setAmrapRounds] = useState<number | null>(null); // Rounds done in the running AMRAP window
+
+  // Timeline as played: starts as the session snapshot, then follows mid-session swaps
+  // without restarting the player (swaps never change step timing)
+  const [timeline, setTimeline] = useState<any>(workout.executionTimeline);
+  const timelineRef = useRef<any>(workout.executionTimeline);
+  useEffect(() => {
+    timelineRef.current = workout.executionTimeline;
+    setTimeline(workout.executionTimeline);
+  }, [workout.executionTimeline]);
 
   // Initialize AudioContext on first user gesture (iOS requirement)
   useEffect(() => {
@@ -57,9 +114,9 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
 
   // Extract exercises from the compiled timeline
   const exercises = useMemo(() => {
-    if (!workout.executionTimeline) return [];
+    if (!timeline) return [];
     const exerciseMap = new Map();
-    workout.executionTimeline.executionTimeline.forEach((step: any) => {
+    timeline.executionTimeline.forEach((step: any) => {
       // Handle canonical rep-based rounds with exercises array
       if (step.exercises) {
         step.exercises.forEach((ex: any) => {
@@ -90,25 +147,52 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
       }
     });
     return Array.from(exerciseMap.values());
-  }, [workout.executionTimeline]);
+  }, [timeline]);
+
+  // Read by the coach context so a swap renames exercises without rebuilding it
+  const exercisesRef = useRef(exercises);
+  exercisesRef.current = exercises;
+
+  // Most recent logged load per exercise (lbs) to pre-fill the preflight sheet
+  const exerciseIdsParam = exercises.map((e: any) => e.id).join(',');
+  const { data: lastLoadHistory } = useQuery<Record<string, { load: number }>>({
+    queryKey: [`/api/block-set-logs/last-loads?unit=lbs&exerciseIds=${exerciseIdsParam}`],
+    enabled: exercises.length > 0,
+  });
+  const lastLoads = useMemo(() => {
+    const loads: Record<string, number | undefined> = {};
+    Object.entries(lastLoadHistory || {}).forEach(([id, entry]) => {
+      loads[id] = entry.load;
+    });
+    return loads;
+  }, [lastLoadHistory]);
 
   // Extract block metadata from the compiled timeline
   const firstBlock = workout.executionTimeline?.params;
-  const exerciseCount = exercises.length;
+  // Planned count: a swap can add the substitute alongside the exercise it replaced
+  const exerciseCount = useMemo(() => {
+    const ids = new Set<number>();
+    workout.executionTimeline?.executionTimeline?.forEach((step: any) => {
+      [step.exercise, ...(step.exercises ?? [])].forEach((ex: any) => ex && ids.add(ex.id));
+    });
+    return ids.size;
+  }, [workout.executionTimeline]);
   const pattern = firstBlock?.pattern ?? 'superset';
-  const mode = firstBlock?.mode ?? 'reps' as const;
+  // AMRAP windows run on the clock; the rep-round scheduler only plays 'work' steps
+  const hasAmrap = !!workout.executionTimeline?.executionTimeline?.some((s: any) => s.type === 'amrap');
+  const mode = firstBlock?.mode ?? (hasAmrap ? 'time' : 'reps') as 'time' | 'reps';
 
   // Build a TimelineContext the observer can use
   // Build current round info from timeline - MUST be before conditional returns
   const currentRound = useMemo(() => {
-    if (!workout.executionTimeline?.executionTimeline) return null;
-    const workSteps = workout.executionTimeline.executionTimeline.filter((s: any) => s.type === 'work');
+    if (!timeline?.executionTimeline) return null;
+    const workSteps = timeline.executionTimeline.filter((s: any) => s.type === 'work');
     return {
       total: workSteps.length,
       current: 1, // TODO: Track actual progress
       exercises: exercises.map(e => e.name).join(' + ')
     };
-  }, [workout.executionTimeline, exercises]);
+  }, [timeline, exercises]);
 
   const ctx = useMemo<TimelineContext>(() => ({
     workoutId: workout.id.toString(),
@@ -118,10 +202,10 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
     prefs: { preflightLoadIntake: true, strictEMOM: true, allowAutoExtendRest: false, rpeLabels: 'words' },
     plannedLoads: planned,
     nowMs: () => Date.now(),
-    getExerciseName: (id) => exercises.find(e => e.id === id)?.name || 'Exercise',
+    getExerciseName: (id) => exercisesRef.current.find(e => e.id === id)?.name || 'Exercise',
     getNextExerciseName: () => undefined,
     getExerciseMeta: (id) => {
-      const e = exercises.find(x => x.id === id) as any;
+      const e = exercisesRef.current.find(x => x.id === id) as any;
       return e
         ? { id: e.id, name: e.name, cues: e.cues||[], equipment: e.equipment||[], muscleGroup: e.muscleGroup||'', estimatedTimeSec: e.estimatedTimeSec }
         : { id, name: 'Exercise', cues: [], equipment: [], muscleGroup: '', estimatedTimeSec: 45 };
@@ -149,21 +233,32 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
     beep: (k) => beeps.play(k),
     caption: (t) => console.log('[CAPTION]', t),
     haptic: () => {}
-  }), [workout.id, pattern, mode, planned, exercises, chatterLevel, exerciseCount, firstBlock]);
+  }), [workout.id, pattern, mode, planned, chatterLevel, exerciseCount, firstBlock]);
 
   // Seed response lines
   useEffect(() => {
     seedResponses([
-      { id:1,event_type:'pre_block',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Block starting — set up now.',priority:4,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
-      { id:2,event_type:'rest_start',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Rest — log reps & load; tap "Use last values" if unchanged.',priority:5,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
-      { id:3,event_type:'workout_end',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Workout complete — great job today!',priority:10,cooldown_sec:0,active:true,usage_count:0,last_used_at:null }
+      { id:1,event_type:'EV_BLOCK_START',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Block starting — set up now.',priority:4,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
+      { id:2,event_type:'EV_REST_START',pattern:'any',mode:'reps',chatter_level:'minimal',locale:'en-US',text_template:'Rest — log reps & load; tap "Use last values" if unchanged.',priority:5,cooldown_sec:10,active:true,usage_count:0,last_used_at:null },
+      { id:3,event_type:'EV_WORKOUT_END',pattern:'any',mode:'any',chatter_level:'minimal',locale:'en-US',text_template:'Workout complete — great job today!',priority:10,cooldown_sec:0,active:true,usage_count:0,last_used_at:null }
     ] as any);
   }, []);
 
-  // Check if workout has a compiled timeline - show intro first
+  // Step to start from; tracks the latest checkpoint so a restart continues where we were
+  const resumeStepRef = useRef<number>(session?.currentStep ?? 0);
+  const lastCheckpointRef = useRef<number>(session?.currentStep ?? 0);
+
+  const checkpoint = (stepIndex: number) => {
+    resumeStepRef.current = stepIndex;
+    if (!session || stepIndex === lastCheckpointRef.current) return;
+    lastCheckpointRef.current = stepIndex;
+    syncSession(session.id, 'checkpoint', { currentStep: stepIndex });
+  };
+
+  // Check if workout has a compiled timeline - offer resume for a session in progress, else intro
   useEffect(() => {
     if (workout.executionTimeline) {
-      setStage('intro');
+      setStage(resumeStepRef.current > 0 ? 'resume' : 'intro');
     }
   }, [workout.executionTimeline]);
 
@@ -172,7 +267,7 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
   const roundCancelsRef = useRef<Array<() => void>>([]);
   
   useEffect(() => {
-    if (stage !== 'playing' || !workout.executionTimeline) return;
+    if (stage !== 'playing' || !timelineRef.current) return;
     
     const isRepRound = mode === 'reps';
     
@@ -181,7 +276,7 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
       console.log('🏋️ Starting rep-round workout with canonical scheduler');
       
       // Extract work steps from timeline (each represents a round)
-      const workSteps = workout.executionTimeline.executionTimeline.filter(
+      const workSteps = timelineRef.current.executionTimeline.filter(
         (step: any) => step.type === 'work'
       );
       
@@ -194,29 +289,37 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
         return meta?.cues?.[0] || null;
       };
       
+      // Resume: skip rounds before the checkpointed step and shift the clock
+      const allTimelineSteps = timelineRef.current.executionTimeline;
+      const resumeStep = allTimelineSteps[resumeStepRef.current];
+      const resumeOffsetMs = resumeStep ? resumeStep.atMs : 0;
+      
       // Schedule each round
       workSteps.forEach((workStep: any, roundIndex: number) => {
-        // Extract exercises from work step
-        const roundExercises = workStep.exercises || (workStep.exercise ? [workStep.exercise] : []);
-        const exerciseList = roundExercises.map((ex: any) => ({
-          id: ex.id.toString(),
-          name: ex.name || ctx.getExerciseName(ex.id.toString())
-        }));
+        const workStepIndex = allTimelineSteps.indexOf(workStep);
+        if (workStepIndex < resumeStepRef.current) return;
         
         // Calculate round duration from step timing
         const roundSec = Math.floor((workStep.endMs - workStep.atMs) / 1000);
         
         // Find the rest step after this work step to get roundRestSec
-        const allSteps = workout.executionTimeline.executionTimeline;
-        const workStepIndex = allSteps.indexOf(workStep);
-        const restStep = allSteps.slice(workStepIndex + 1).find((s: any) => s.type === 'rest');
+        const restStep = allTimelineSteps.slice(workStepIndex + 1).find((s: any) => s.type === 'rest');
         const roundRestSec = restStep ? Math.floor((restStep.endMs - restStep.atMs) / 1000) : 90;
         
         // Schedule this round (delayed to start at correct time)
-        const roundStartDelay = workStep.atMs - 3000; // Subtract 3s for pre-round countdown
+        const roundStartDelay = workStep.atMs - resumeOffsetMs - 3000; // Subtract 3s for pre-round countdown
         
         const timeoutId = window.setTimeout(() => {
           console.log(`🔔 ${formatRoundLabel(roundIndex + 1, totalRounds)} starting (${roundSec}s work, ${roundRestSec}s rest)`);
+          checkpoint(workStepIndex);
+          
+          // Read exercises when the round starts so a mid-session swap is picked up
+          const liveStep = timelineRef.current.executionTimeline[workStepIndex] ?? workStep;
+          const roundExercises = liveStep.exercises || (liveStep.exercise ? [liveStep.exercise] : []);
+          const exerciseList = roundExercises.map((ex: any) => ({
+            id: ex.id.toString(),
+            name: ex.name || ctx.getExerciseName(ex.id.toString())
+          }));
           
           const cancelRound = scheduleRepRound({
             ctx,
@@ -271,16 +374,90 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
       }
     });
     
-    console.log('🎬 Starting compiled timeline:', workout.executionTimeline);
-    player.start(workout.executionTimeline);
+    // Persist progress: periodic checkpoint, on tab hide, and completion
+    const unsubSession = player.subscribe((ev: Event) => {
+      if (ev.type === 'EV_WORKOUT_END' && session) {
+        syncSession(session.id, 'complete');
+      }
+      if (ev.type === 'EV_ROUND_COMPLETE' && session) {
+        const step = timelineRef.current.executionTimeline[player.getCurrentStepIndex()];
+        logAmrapRound(session.id, step, (ev.roundIndex ?? 0) + 1);
+      }
+    });
+    
+    // Track the AMRAP window so the UI can offer "Round done"
+    const unsubAmrap = player.subscribe((ev: Event) => {
+      const step = timelineRef.current.executionTimeline[player.getCurrentStepIndex()];
+      if (ev.type === 'EV_WORK_START') setAmrapRounds(step?.type === 'amrap' ? 0 : null);
+      if (ev.type === 'EV_ROUND_COMPLETE') setAmrapRounds((ev.roundIndex ?? 0) + 1);
+      if (ev.type === 'EV_WORK_END' || ev.type === 'EV_WORKOUT_END') setAmrapRounds(null);
+    });
+    const checkpointTimer = window.setInterval(() => checkpoint(player.getCurrentStepIndex()), CHECKPOINT_INTERVAL_MS);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') checkpoint(player.getCurrentStepIndex());
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    
+    console.log('🎬 Starting compiled timeline:', timelineRef.current, 'from step', resumeStepRef.current);
+    player.start(timelineRef.current, resumeStepRef.current);
     
     return () => {
+      checkpoint(player.getCurrentStepIndex());
+      window.clearInterval(checkpointTimer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
       player.stop();
+      playerRef.current = null;
       unsub();
       unsubBeeps();
+      unsubSession();
+      unsubAmrap();
+      setAmrapRounds(null);
     };
   }, [stage, ctx, workout.executionTimeline, mode]);
 
+  // Mid-session exercise swap (equipment busy or missing)
+  const [swapFor, setSwapFor] = useState<string | null>(null);
+  const [swapReason, setSwapReason] = useState<SubstitutionReason>('busy');
+  const { data: substitutes, isLoading: substitutesLoading } = useQuery<SubstitutesResponse>({
+    queryKey: [`/api/block-workout-sessions/${session?.id}/substitutes?exerciseId=${swapFor}&reason=${swapReason}`],
+    enabled: !!session && !!swapFor,
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: async (substituteExerciseId: number) => apiRequest(`/api/block-workout-sessions/${session!.id}/substitutions`, 'POST', {
+      exerciseId: Number(swapFor),
+      substituteExerciseId,
+      fromStep: playerRef.current?.getCurrentStepIndex() ?? resumeStepRef.current,
+      reason: swapReason,
+    }),
+    onSuccess: (result: { executionTimeline: any }) => {
+      timelineRef.current = result.executionTimeline;
+      setTimeline(result.executionTimeline);
+      playerRef.current?.replaceTimeline(result.executionTimeline);
+      setSwapFor(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Swap failed', description: error.message || 'Failed to swap exercise.', variant: 'destructive' });
+    },
+  });
+
+  const togglePause = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (player.isPaused()) {
+      player.resume();
+      setPaused(false);
+      if (session) syncSession(session.id, 'resume');
+    } else {
+      player.pause();
+      setPaused(true);
+      const stepIndex = player.getCurrentStepIndex();
+      resumeStepRef.current = stepIndex;
+      lastCheckpointRef.current = stepIndex;
+      if (session) syncSession(session.id, 'pause', { currentStep: stepIndex });
+    }
+  };
+
   if (stage === 'loading') {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
@@ -289,10 +466,45 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
     );
   }
 
+  if (stage === 'resume') {
+    const totalSteps = timeline?.executionTimeline?.length || 0;
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center max-w-md space-y-4">
+          <div className="text-2xl font-bold">{workout.name}</div>
+          <div className="text-muted-foreground">
+            You left off at step {resumeStepRef.current + 1} of {totalSteps}.
+          </div>
+          <div className="flex justify-center gap-3">
+            <Button
+              onClick={() => {
+                if (session?.status === 'paused') syncSession(session.id, 'resume');
+                setStage('playing');
+              }}
+              data-testid="button-resume-session"
+            >
+              Resume
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                checkpoint(0);
+                setStage('intro');
+              }}
+              data-testid="button-restart-session"
+            >
+              Start over
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (stage === 'intro') {
     // Build blocks array from workout data
-    const blocks = workout.executionTimeline ? [{
-      id: 'block-1',
+    const blocks = timeline ? [{
+      id: timeline.executionTimeline?.find((s: any) => s.blockId)?.blockId ?? 'block-1',
       name: firstBlock?.name || 'Block 1',
       params: {
         pattern: firstBlock?.pattern || 'superset',
@@ -337,7 +549,7 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
         <PreflightWeightsSheet
           exercises={exercises}
-          lastLoads={{}} // No previous loads for testing
+          lastLoads={lastLoads}
           onSave={(p) => { setPlanned(p); setStage('playing'); }}
           onCancel={() => setStage('intro')}
         />
@@ -366,9 +578,63 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
                   key={ex.id}
                   className="p-4 rounded-lg bg-card border text-left"
                 >
-                  <div className="font-semibold">{ex.name}</div>
-                  {ex.muscleGroup && (
-                    <div className="text-sm text-muted-foreground mt-1">{ex.muscleGroup}</div>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-semibold">{ex.name}</div>
+                      {ex.muscleGroup && (
+                        <div className="text-sm text-muted-foreground mt-1">{ex.muscleGroup}</div>
+                      )}
+                    </div>
+                    {session && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setSwapFor(swapFor === ex.id ? null : ex.id)}
+                        data-testid={`button-swap-exercise-${ex.id}`}
+                      >
+                        Swap
+                      </Button>
+                    )}
+                  </div>
+                  {swapFor === ex.id && (
+                    <div className="mt-3 space-y-2">
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant={swapReason === 'busy' ? 'default' : 'outline'}
+                          onClick={() => setSwapReason('busy')}
+                        >
+                          Equipment busy
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={swapReason === 'missing' ? 'default' : 'outline'}
+                          onClick={() => setSwapReason('missing')}
+                        >
+                          Not at my gym
+                        </Button>
+                      </div>
+                      {substitutesLoading && (
+                        <div className="text-sm text-muted-foreground">Finding replacements...</div>
+                      )}
+                      {substitutes?.candidates.length === 0 && (
+                        <div className="text-sm text-muted-foreground">No replacement found with your equipment.</div>
+                      )}
+                      {substitutes?.candidates.map(({ exercise, reasons }) => (
+                        <button
+                          key={exercise.id}
+                          className="w-full p-2 rounded border text-left text-sm hover:bg-muted disabled:opacity-50"
+                          onClick={() => swapMutation.mutate(exercise.id)}
+                          disabled={swapMutation.isPending}
+                          data-testid={`button-substitute-${exercise.id}`}
+                        >
+                          <div className="font-medium">{exercise.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[exercise.equipmentPrimary || exercise.equipment, ...reasons].filter(Boolean).join(' · ')}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
                   )}
                 </div>
               ))}
@@ -376,6 +642,22 @@ export function WorkoutPlayer({ workout }: WorkoutPlayerProps) {
           </div>
         )}
 
+        {mode !== 'reps' && (
+          <div className="flex justify-center gap-3 mb-6">
+            <Button variant="outline" onClick={togglePause} data-testid="button-toggle-pause">
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
+            {amrapRounds !== null && (
+              <Button onClick={() => playerRef.current?.completeRound()} data-testid="button-round-done">
+                Round done ({amrapRounds})
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => playerRef.current?.next()} data-testid="button-skip-step">
+              Skip
+            </Button>
+          </div>
+        )}
+
         <div className="text-sm text-muted-foreground">
           🎧 Listen for voice coaching cues and beeps
         </div>
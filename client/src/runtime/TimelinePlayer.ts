@@ -12,6 +12,7 @@ interface TimelineStep {
     equipment: string[];
     muscleGroup: string;
   };
+  exercises?: Array<{ id: number; name: string }>;
   atMs: number;
   endMs: number;
   durationSec?: number;
@@ -19,9 +20,13 @@ interface TimelineStep {
   round?: number;
   label?: string;
   coachPrompt?: string;
+  markers?: Array<{ type: 'halfway' | 'last_10s'; atMs: number; label?: string }>;
+  blockId?: string;
+  blockName?: string;
 }
 
 interface ExecutionTimeline {
+  eventSchemaVersion?: number;
   workoutHeader: {
     name: string;
     totalDurationSec: number;
@@ -37,11 +42,65 @@ interface ExecutionTimeline {
 
 type EventSubscriber = (ev: Event) => void;
 
+// One scheduled emission on the timeline clock
+interface ScheduledEvent {
+  atMs: number;
+  stepIndex: number;
+  event: Event;
+  isStepStart: boolean;
+}
+
+export interface TimelinePlayerOptions {
+  now?: () => number;                     // Monotonic clock (default performance.now)
+  tickMs?: number;                        // Scheduler resolution
+  referencePositionMs?: () => number | null; // Authoritative position for resync (e.g. server/audio clock)
+}
+
+const BLOCK_END_DELAY_MS = 1000;
+const WORKOUT_END_DELAY_MS = 2000;
+
+// Events this late are still delivered. Covers main-thread jank and background tabs
+// throttled to 1s timers; only longer gaps (phone locked) are coalesced.
+const STALE_EVENT_MS = 5000;
+
+// Timelines compiled before steps carried blockId are treated as a single block
+const LEGACY_BLOCK_ID = 'block-1';
+
+function blockIdOf(step: TimelineStep): string {
+  return step.blockId ?? LEGACY_BLOCK_ID;
+}
+
+/**
+ * Clock-driven timeline player.
+ *
+ * Position on the timeline = anchorPosMs + (now - anchorWallMs) while running,
+ * frozen while paused. A tick loop fires every event whose atMs has been reached,
+ * so pausing never drops events and resuming continues from the same point.
+ * Events overdue by more than STALE_EVENT_MS (phone locked, tab suspended) are
+ * coalesced: only the current step's start (and block/workout boundaries) is replayed.
+ * sync.allowedDriftMs only governs clock resync, not event delivery.
+ */
 export class TimelinePlayer {
   private subs: EventSubscriber[] = [];
-  private timeouts: NodeJS.Timeout[] = [];
-  private startTime: number = 0;
-  private isPaused: boolean = false;
+  private schedule: ScheduledEvent[] = [];
+  private steps: TimelineStep[] = [];
+  private cursor = 0;
+  private tickHandle: ReturnType<typeof setInterval> | null = null;
+  private lastResyncAt = 0;
+  private anchorWallMs = 0;
+  private anchorPosMs = 0;
+  private paused = false;
+  private completedRounds = new Map<number, number>(); // AMRAP step index → rounds marked done
+  private sync = { resyncEveryMs: 15000, allowedDriftMs: 250 };
+  private readonly now: () => number;
+  private readonly tickMs: number;
+  private readonly referencePositionMs?: () => number | null;
+
+  constructor(options: TimelinePlayerOptions = {}) {
+    this.now = options.now ?? (() => (typeof performance !== 'undefined' ? performance.now() : Date.now()));
+    this.tickMs = options.tickMs ?? 50;
+    this.referencePositionMs = options.referencePositionMs;
+  }
 
   subscribe(fn: EventSubscriber) {
     this.subs.push(fn);
@@ -56,15 +115,9 @@ export class TimelinePlayer {
 
   // Map server step types to coach event types
   private mapStepToEvent(step: TimelineStep, isStart: boolean): Event | null {
-    const exerciseId = step.exercise?.id?.toString() || 'unknown';
-    
-    switch (step.type) {
-      case 'instruction':
-        if (isStart) {
-          return { type: 'EV_BLOCK_START', blockId: 'block-1' };
-        }
-        return null;
+    const exerciseId = (step.exercise?.id ?? step.exercises?.[0]?.id)?.toString() || 'unknown';
 
+    switch (step.type) {
       case 'countdown':
         if (isStart) {
           return { type: 'EV_COUNTDOWN', sec: step.durationSec || 3 };
@@ -72,10 +125,11 @@ export class TimelinePlayer {
         return null;
 
       case 'work':
+      case 'amrap':
         if (isStart) {
-          return { type: 'EV_WORK_START', exerciseId };
+          return { type: 'EV_WORK_START', exerciseId, setIndex: step.set, roundIndex: step.round };
         } else {
-          return { type: 'EV_WORK_END', exerciseId };
+          return { type: 'EV_WORK_END', exerciseId, roundIndex: step.round };
         }
 
       case 'rest':
@@ -94,7 +148,7 @@ export class TimelinePlayer {
 
       case 'await_ready':
         if (isStart) {
-          return { type: 'EV_AWAIT_READY', blockId: 'block-1' };
+          return { type: 'EV_AWAIT_READY', blockId: blockIdOf(step) };
         }
         return null;
 
@@ -103,67 +157,214 @@ export class TimelinePlayer {
     }
   }
 
-  start(timeline: ExecutionTimeline) {
-    this.stop(); // Clear any existing timeouts
-    this.startTime = Date.now();
-    this.isPaused = false;
+  // Flatten steps into a time-ordered event schedule
+  private buildSchedule(steps: TimelineStep[]): ScheduledEvent[] {
+    const schedule: ScheduledEvent[] = [];
 
-    const steps = timeline.executionTimeline;
-    
-    // Emit initial block start
-    this.emit({ type: 'EV_BLOCK_START', blockId: 'block-1' });
+    steps.forEach((step, stepIndex) => {
+      // Block boundaries: close the previous block where its last step ends, open the next one
+      const prev = steps[stepIndex - 1];
+      if (!prev || blockIdOf(prev) !== blockIdOf(step)) {
+        if (prev) {
+          schedule.push({ atMs: prev.endMs, stepIndex: stepIndex - 1, event: { type: 'EV_BLOCK_END', blockId: blockIdOf(prev) }, isStepStart: false });
+        }
+        schedule.push({ atMs: step.atMs, stepIndex, event: { type: 'EV_BLOCK_START', blockId: blockIdOf(step) }, isStepStart: false });
+      }
 
-    // Schedule all step events
-    steps.forEach((step, index) => {
-      // Start event
       const startEvent = this.mapStepToEvent(step, true);
       if (startEvent) {
-        const timeout = setTimeout(() => {
-          if (!this.isPaused) {
-            this.emit(startEvent);
-          }
-        }, step.atMs);
-        this.timeouts.push(timeout);
+        schedule.push({ atMs: step.atMs, stepIndex, event: startEvent, isStepStart: true });
       }
 
+      // In-step markers (AMRAP/EMOM windows)
+      step.markers?.forEach((marker) => {
+        const event: Event = marker.type === 'halfway'
+          ? { type: 'EV_HALFWAY', exerciseId: step.exercise?.id?.toString() }
+          : { type: 'EV_LAST_10S', roundIndex: step.round };
+        schedule.push({ atMs: marker.atMs, stepIndex, event, isStepStart: false });
+      });
+
       // End event (for steps with duration)
       if (step.endMs > step.atMs) {
         const endEvent = this.mapStepToEvent(step, false);
         if (endEvent) {
-          const timeout = setTimeout(() => {
-            if (!this.isPaused) {
-              this.emit(endEvent);
-            }
-          }, step.endMs);
-          this.timeouts.push(timeout);
+          schedule.push({ atMs: step.endMs, stepIndex, event: endEvent, isStepStart: false });
         }
       }
-
-      // Block end after last step
-      if (index === steps.length - 1) {
-        const timeout = setTimeout(() => {
-          if (!this.isPaused) {
-            this.emit({ type: 'EV_BLOCK_END', blockId: 'block-1' });
-            setTimeout(() => {
-              this.emit({ type: 'EV_WORKOUT_END' });
-            }, 1000);
-          }
-        }, step.endMs + 1000);
-        this.timeouts.push(timeout);
-      }
     });
+
+    const last = steps[steps.length - 1];
+    if (last) {
+      const lastIndex = steps.length - 1;
+      schedule.push({ atMs: last.endMs + BLOCK_END_DELAY_MS, stepIndex: lastIndex, event: { type: 'EV_BLOCK_END', blockId: blockIdOf(last) }, isStepStart: false });
+      schedule.push({ atMs: last.endMs + WORKOUT_END_DELAY_MS, stepIndex: lastIndex, event: { type: 'EV_WORKOUT_END' }, isStepStart: false });
+    }
+
+    // Stable sort keeps "end of step N" ahead of "start of step N+1" at the same ms
+    return schedule
+      .map((entry, order) => ({ entry, order }))
+      .sort((a, b) => a.entry.atMs - b.entry.atMs || a.order - b.order)
+      .map(({ entry }) => entry);
+  }
+
+  start(timeline: ExecutionTimeline, fromStepIndex = 0) {
+    this.stop(); // Clear any existing tick loop
+    this.steps = timeline.executionTimeline;
+    this.schedule = this.buildSchedule(this.steps);
+    this.sync = {
+      resyncEveryMs: timeline.sync?.resyncEveryMs || 15000,
+      allowedDriftMs: timeline.sync?.allowedDriftMs || 250,
+    };
+    this.paused = false;
+    this.completedRounds.clear();
+
+    this.seek(fromStepIndex);
+
+    // Starting mid-block skips that block's EV_BLOCK_START, so announce it directly
+    const next = this.schedule[this.cursor];
+    if (this.steps.length > 0 && next?.event.type !== 'EV_BLOCK_START') {
+      this.emit({ type: 'EV_BLOCK_START', blockId: blockIdOf(this.steps[this.getCurrentStepIndex()]) });
+    }
+
+    this.lastResyncAt = this.now();
+    this.tickHandle = setInterval(() => this.tick(), this.tickMs);
+    this.tick();
   }
 
   stop() {
-    this.timeouts.forEach((t) => clearTimeout(t));
-    this.timeouts = [];
+    if (this.tickHandle) {
+      clearInterval(this.tickHandle);
+      this.tickHandle = null;
+    }
   }
 
   pause() {
-    this.isPaused = true;
+    if (this.paused) return;
+    this.anchorPosMs = this.getPositionMs();
+    this.paused = true;
   }
 
   resume() {
-    this.isPaused = false;
+    if (!this.paused) return;
+    this.anchorWallMs = this.now();
+    this.paused = false;
+    this.lastResyncAt = this.anchorWallMs;
+  }
+
+  isPaused() {
+    return this.paused;
+  }
+
+  // Current position on the timeline in ms (frozen while paused)
+  getPositionMs(): number {
+    if (this.paused) return this.anchorPosMs;
+    return this.anchorPosMs + (this.now() - this.anchorWallMs);
+  }
+
+  // Index of the step that contains the current position
+  getCurrentStepIndex(): number {
+    const pos = this.getPositionMs();
+    let index = 0;
+    for (let i = 0; i < this.steps.length; i++) {
+      if (this.steps[i].atMs <= pos) index = i;
+      else break;
+    }
+    return index;
+  }
+
+  /**
+   * Jump to the start of a step. Events before it are not replayed;
+   * the step's own start event fires on the next tick.
+   */
+  seek(stepIndex: number) {
+    if (this.steps.length === 0) return;
+    const index = Math.max(0, Math.min(stepIndex, this.steps.length - 1));
+    const target = this.steps[index].atMs;
+
+    this.anchorPosMs = target;
+    this.anchorWallMs = this.now();
+    this.cursor = this.schedule.findIndex((e) => e.stepIndex >= index && e.atMs >= target);
+    if (this.cursor === -1) this.cursor = this.schedule.length;
+  }
+
+  // Skip to the next step (e.g. user cuts a rest short)
+  next() {
+    this.seek(this.getCurrentStepIndex() + 1);
+  }
+
+  /**
+   * Mark a user-paced AMRAP round done and emit EV_ROUND_COMPLETE. Returns the
+   * completed round number, or null outside a running AMRAP window.
+   */
+  completeRound(): number | null {
+    const index = this.getCurrentStepIndex();
+    const step = this.steps[index];
+    if (this.paused || step?.type !== 'amrap' || this.getPositionMs() >= step.endMs) return null;
+
+    const round = (this.completedRounds.get(index) ?? 0) + 1;
+    this.completedRounds.set(index, round);
+    this.emit({ type: 'EV_ROUND_COMPLETE', roundIndex: round - 1 });
+    return round;
+  }
+
+  /**
+   * Swap in an edited copy of the running timeline (e.g. a mid-session exercise
+   * substitution). Step timing must be unchanged, so the schedule lines up
+   * entry for entry and the cursor and clock carry over.
+   */
+  replaceTimeline(timeline: ExecutionTimeline) {
+    this.steps = timeline.executionTimeline;
+    this.schedule = this.buildSchedule(this.steps);
+  }
+
+  /**
+   * Re-anchor the clock to an authoritative position if it drifted past
+   * sync.allowedDriftMs. Returns the drift that was observed.
+   */
+  resync(referencePosMs: number): number {
+    const drift = this.getPositionMs() - referencePosMs;
+    if (Math.abs(drift) > this.sync.allowedDriftMs) {
+      this.anchorPosMs = referencePosMs;
+      if (!this.paused) this.anchorWallMs = this.now();
+      // Moving backwards re-arms events that are now in the future again
+      if (drift > 0) {
+        const firstFuture = this.schedule.findIndex((e) => e.atMs > referencePosMs);
+        if (firstFuture !== -1 && firstFuture < this.cursor) this.cursor = firstFuture;
+      }
+    }
+    return drift;
+  }
+
+  private tick() {
+    if (this.paused) return;
+
+    const wallNow = this.now();
+    if (this.referencePositionMs && wallNow - this.lastResyncAt >= this.sync.resyncEveryMs) {
+      this.lastResyncAt = wallNow;
+      const ref = this.referencePositionMs();
+      if (ref !== null) this.resync(ref);
+    }
+
+    const pos = this.getPositionMs();
+    const due: ScheduledEvent[] = [];
+    while (this.cursor < this.schedule.length && this.schedule[this.cursor].atMs <= pos) {
+      due.push(this.schedule[this.cursor++]);
+    }
+    if (due.length === 0) return;
+
+    // Drop stale events; keep only the latest step start, the end of the step it follows
+    // (plus block/workout boundaries, in order) so the coach catches up
+    const latestStart = [...due].reverse().find((e) => e.isStepStart);
+    const fresh = due.filter((e) =>
+      pos - e.atMs <= STALE_EVENT_MS ||
+      e === latestStart ||
+      (latestStart && !e.isStepStart && e.stepIndex >= latestStart.stepIndex - 1 && e.atMs >= this.steps[latestStart.stepIndex].atMs) ||
+      e.event.type === 'EV_BLOCK_START' || e.event.type === 'EV_BLOCK_END' || e.event.type === 'EV_WORKOUT_END'
+    );
+    fresh.forEach((e) => this.emit(e.event));
+
+    if (this.cursor >= this.schedule.length) {
+      this.stop();
+    }
   }
 }
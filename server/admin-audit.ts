@@ -1,20 +1,29 @@
 /**
  * Admin Audit Logging - Canonical Admin
- * 
+ *
  * Tracks all admin actions for accountability and rollback capability.
+ * Workout entries carry full snapshots (see snapshotBlockWorkout) so any
+ * before/after state can be restored.
  */
 
-import type { InsertAdminAudit } from "@shared/schema";
+import type { AdminAudit } from "@shared/schema";
 import { db } from "./db";
 import { adminAudit } from "@shared/schema";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import { storage } from "./storage";
+import { WorkoutDTO, type WorkoutDTOType } from "@shared/dto";
+
+export type AdminAction = "create" | "update" | "delete" | "publish" | "unpublish" | "restore";
+export type AdminEntity = "workout" | "block" | "block_exercise";
 
 export async function logAdminAction(
   actorId: string,
-  action: "create" | "update" | "delete" | "publish" | "unpublish",
-  entity: "workout" | "block" | "block_exercise",
+  action: AdminAction,
+  entity: AdminEntity,
   entityId: number,
   before?: any,
-  after?: any
+  after?: any,
+  restoredFromAuditId?: number
 ): Promise<void> {
   try {
     await db.insert(adminAudit).values({
@@ -24,9 +33,94 @@ export async function logAdminAction(
       entityId,
       before: before || null,
       after: after || null,
+      restoredFromAuditId: restoredFromAuditId ?? null,
     });
   } catch (error) {
     console.error("Failed to log admin action:", error);
     // Don't throw - audit logging failure shouldn't break the main operation
   }
 }
+
+/**
+ * Restorable snapshot of a block workout, in the same shape the admin
+ * create/update endpoints accept (WorkoutDTO) plus publish state.
+ */
+export async function snapshotBlockWorkout(id: number): Promise<(WorkoutDTOType & { isPublished: boolean }) | null> {
+  const workout = await storage.getBlockWorkoutWithBlocks(id);
+  if (!workout) return null;
+
+  return {
+    name: workout.name,
+    description: workout.description ?? undefined,
+    isPublished: workout.isPublished,
+    blocks: workout.blocks.map((block: any) => ({
+      name: block.name,
+      type: block.type,
+      params: block.params,
+      ...(block.section && block.section !== "main" ? { section: block.section } : {}),
+      exercises: block.exercises.map((ex: any) => ({
+        exerciseId: ex.exerciseId,
+        ...(ex.overrides ? { overrides: ex.overrides } : {}),
+      })),
+    })),
+  };
+}
+
+export interface AuditFilters {
+  entity?: string;
+  entityId?: number;
+  actorId?: string;
+  action?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export async function getAdminAuditEntries(filters: AuditFilters = {}): Promise<AdminAudit[]> {
+  const conditions: SQL[] = [];
+  if (filters.entity) conditions.push(eq(adminAudit.entity, filters.entity));
+  if (filters.entityId !== undefined) conditions.push(eq(adminAudit.entityId, filters.entityId));
+  if (filters.actorId) conditions.push(eq(adminAudit.actorId, filters.actorId));
+  if (filters.action) conditions.push(eq(adminAudit.action, filters.action));
+
+  return db.select().from(adminAudit)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(adminAudit.at), desc(adminAudit.id))
+    .limit(Math.min(filters.limit ?? 50, 200))
+    .offset(filters.offset ?? 0);
+}
+
+export async function getAdminAuditEntry(id: number): Promise<AdminAudit | undefined> {
+  const [entry] = await db.select().from(adminAudit).where(eq(adminAudit.id, id));
+  return entry;
+}
+
+/**
+ * Restore a block workout to the before/after snapshot of an audit entry.
+ * Publish state is left alone; only name, description and blocks are restored.
+ * The restore is itself audited with the pre-restore snapshot as "before".
+ */
+export async function restoreBlockWorkoutFromAudit(
+  auditId: number,
+  side: "before" | "after",
+  actorId: string
+) {
+  const entry = await getAdminAuditEntry(auditId);
+  if (!entry) throw new Error("Audit entry not found");
+  if (entry.entity !== "workout") throw new Error("Only workout entries can be restored");
+
+  const parsed = WorkoutDTO.safeParse(entry[side]);
+  if (!parsed.success) {
+    throw new Error(`Audit entry has no restorable ${side} snapshot`);
+  }
+
+  const current = await snapshotBlockWorkout(entry.entityId);
+  if (!current) throw new Error("Workout no longer exists");
+
+  const { name, description, blocks } = parsed.data;
+  const workout = await storage.updateBlockWorkout(entry.entityId, { name, description, blocks });
+
+  const restored = await snapshotBlockWorkout(entry.entityId);
+  await logAdminAction(actorId, "restore", "workout", entry.entityId, current, restored, auditId);
+
+  return workout;
+}
@@ -224,7 +224,12 @@ export class AirtableService {
       },
       coachingTips: fields["Coaching Bullet Points"] ? this.parseInstructionField(fields["Coaching Bullet Points"]) : [],
       mistakes: fields["Common Mistakes"] ? this.parseInstructionField(fields["Common Mistakes"]) : [],
-      variations: fields["Exercise Variations"] ? this.parseInstructionField(fields["Exercise Variations"]) : []
+      variations: fields["Exercise Variations"] ? this.parseInstructionField(fields["Exercise Variations"]) : [],
+
+      // Mirror bookkeeping (filled in by the catalog sync)
+      airtableRecordId: record.id,
+      syncedAt: null,
+      removedAt: null
     };
   }
 
@@ -309,8 +314,14 @@ export class AirtableService {
   }
 
   async getAllExercises(): Promise<Exercise[]> {
+    return (await this.getAllExercisesWithFailures()).exercises;
+  }
+
+  // Also returns the IDs of records that failed to transform, so a sync can tell them from deletions
+  async getAllExercisesWithFailures(): Promise<{ exercises: Exercise[]; failedIds: number[] }> {
     try {
       const exercises: Exercise[] = [];
+      const failedIds: number[] = [];
       let offset: string | undefined;
 
       do {
@@ -337,13 +348,14 @@ export class AirtableService {
             exercises.push(this.transformRecord(record));
           } catch (error) {
             console.warn(`Failed to transform record ${record.id}:`, error);
+            failedIds.push(record.id.hashCode());
           }
         }
 
         offset = data.offset;
       } while (offset);
 
-      return exercises;
+      return { exercises, failedIds };
     } catch (error) {
       console.error("Failed to fetch exercises from Airtable:", error);
       throw error;
@@ -1,32 +1,114 @@
-import { OpenAI } from 'openai';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import { normalizeEventType, type TimelineEventType } from '@shared/events';
+import { getEmbeddingProvider } from './embedding-providers';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export interface KnowledgeMetadata {
+  title: string;
+  category: string;
+  tags: string[];
+  source: string;
+  heading?: string;     // Heading path of the chunk, e.g. "Squat > Common Mistakes"
+  chunkIndex?: number;
+}
 
-interface KnowledgeItem {
-  id: string;
+export interface KnowledgeItem {
+  id: string;            // `${documentId}#${chunkIndex}`; legacy whole-file items use the document ID
   content: string;
+  contentHash: string;   // Unchanged chunks keep their embedding on re-ingest
   embedding: number[];
-  metadata: {
-    title: string;
-    category: string;
-    tags: string;
-    source: string;
-  };
+  metadata: KnowledgeMetadata;
+}
+
+export interface KnowledgeFilters {
+  category?: string | string[];
+  tags?: string[];       // Matches chunks carrying any of these tags (case-insensitive)
+}
+
+export interface KnowledgeResult {
+  content: string;
+  metadata: KnowledgeMetadata;
+  score: number;
+}
+
+export interface KnowledgeCacheProvider {
+  id: string;            // Embedding provider that produced every vector in the cache
+  dimension: number;
+}
+
+export interface KnowledgeCache {
+  provider: KnowledgeCacheProvider | null;   // null when the cache is empty or missing
+  items: KnowledgeItem[];
 }
 
+const KNOWLEDGE_CACHE_VERSION = 3;
+
+// Caches written before providers were recorded were always OpenAI embeddings
+const LEGACY_CACHE_PROVIDER_ID = 'openai:text-embedding-3-small';
+
 let knowledgeStore: KnowledgeItem[] = [];
 const KNOWLEDGE_CACHE_PATH = path.join(process.cwd(), 'knowledge-base', 'embeddings-cache.json');
 
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// v1 caches were a bare array of whole-file items with comma-joined tags and no hash
+function normalizeCachedItem(raw: any): KnowledgeItem {
+  const tags = Array.isArray(raw.metadata?.tags)
+    ? raw.metadata.tags
+    : String(raw.metadata?.tags ?? '').split(',').map((t: string) => t.trim()).filter(Boolean);
+
+  return {
+    id: raw.id,
+    content: raw.content,
+    contentHash: raw.contentHash ?? '',
+    embedding: raw.embedding,
+    metadata: { ...raw.metadata, tags },
+  };
+}
+
+export function loadKnowledgeCache(): KnowledgeCache {
+  if (!fs.existsSync(KNOWLEDGE_CACHE_PATH)) {
+    return { provider: null, items: [] };
+  }
+  const data = JSON.parse(fs.readFileSync(KNOWLEDGE_CACHE_PATH, 'utf-8'));
+  const items = (Array.isArray(data) ? data : data.items ?? []).map(normalizeCachedItem);
+  if (items.length === 0) {
+    return { provider: null, items };
+  }
+
+  const provider: KnowledgeCacheProvider = data.provider ?? {
+    id: LEGACY_CACHE_PROVIDER_ID,
+    dimension: items[0].embedding.length,
+  };
+  return { provider, items };
+}
+
+/**
+ * Throws when the cache was embedded by a different provider (or dimension)
+ * than the active one; its vectors can't be compared with new query embeddings.
+ */
+export function assertCacheMatchesProvider(cache: KnowledgeCache): void {
+  if (!cache.provider) return;
+  const active = getEmbeddingProvider();
+  if (cache.provider.id !== active.id || cache.provider.dimension !== active.dimension) {
+    throw new Error(
+      `Knowledge cache was embedded with ${cache.provider.id} (${cache.provider.dimension} dims) ` +
+      `but the active provider is ${active.id} (${active.dimension} dims). ` +
+      `Run: tsx server/ingest-knowledge.ts reingest`
+    );
+  }
+}
+
 export async function initializeKnowledgeStore() {
   try {
     if (fs.existsSync(KNOWLEDGE_CACHE_PATH)) {
-      const cacheData = fs.readFileSync(KNOWLEDGE_CACHE_PATH, 'utf-8');
-      knowledgeStore = JSON.parse(cacheData);
-      console.log(`✅ Loaded ${knowledgeStore.length} knowledge items from cache`);
+      const cache = loadKnowledgeCache();
+      assertCacheMatchesProvider(cache);
+      knowledgeStore = cache.items;
+      console.log(`✅ Loaded ${knowledgeStore.length} knowledge items from cache (${getEmbeddingProvider().id})`);
     } else {
       console.log('⚠️ No knowledge cache found. Run: tsx server/ingest-knowledge.ts');
       knowledgeStore = [];
@@ -47,6 +129,8 @@ export async function addKnowledge(
     category: string;
     tags?: string[];
     source?: string;
+    heading?: string;
+    chunkIndex?: number;
   }
 ): Promise<KnowledgeItem> {
   const embedding = await generateEmbedding(content);
@@ -54,16 +138,19 @@ export async function addKnowledge(
   const item: KnowledgeItem = {
     id,
     content,
+    contentHash: hashContent(content),
     embedding,
     metadata: {
       title: metadata.title,
       category: metadata.category,
-      tags: metadata.tags ? metadata.tags.join(', ') : '',
+      tags: metadata.tags ?? [],
       source: metadata.source || '',
+      heading: metadata.heading,
+      chunkIndex: metadata.chunkIndex,
     },
   };
 
-  console.log(`✅ Generated embedding for: ${metadata.title}`);
+  console.log(`✅ Generated embedding for: ${metadata.heading || metadata.title}`);
   return item;
 }
 
@@ -73,24 +160,59 @@ export function saveKnowledgeCache(items: KnowledgeItem[]) {
     fs.mkdirSync(cacheDir, { recursive: true });
   }
   
+  const { id, dimension } = getEmbeddingProvider();
+  const mismatched = items.find(item => item.embedding.length !== dimension);
+  if (mismatched) {
+    throw new Error(`Refusing to save cache: ${mismatched.id} has ${mismatched.embedding.length} dims, ${id} produces ${dimension}`);
+  }
+
   knowledgeStore = items;
-  fs.writeFileSync(KNOWLEDGE_CACHE_PATH, JSON.stringify(items, null, 2));
+  fs.writeFileSync(
+    KNOWLEDGE_CACHE_PATH,
+    JSON.stringify({ version: KNOWLEDGE_CACHE_VERSION, provider: { id, dimension }, items }, null, 2)
+  );
   console.log(`✅ Saved ${items.length} items to cache and loaded into memory`);
 }
 
+function matchesFilters(item: KnowledgeItem, filters?: KnowledgeFilters): boolean {
+  if (!filters) return true;
+
+  if (filters.category) {
+    const categories = (Array.isArray(filters.category) ? filters.category : [filters.category])
+      .map(c => c.toLowerCase());
+    if (!categories.includes(item.metadata.category.toLowerCase())) return false;
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    const wanted = filters.tags.map(t => t.toLowerCase());
+    if (!item.metadata.tags.some(t => wanted.includes(t.toLowerCase()))) return false;
+  }
+
+  return true;
+}
+
 export async function searchKnowledge(
   query: string,
-  limit: number = 3
-): Promise<Array<{ content: string; metadata: any; score: number }>> {
+  limit: number = 3,
+  filters?: KnowledgeFilters
+): Promise<KnowledgeResult[]> {
   if (knowledgeStore.length === 0) {
     console.warn('⚠️ Knowledge store empty, returning empty results');
     return [];
   }
 
+  return rankItems(query, knowledgeStore.filter(item => matchesFilters(item, filters)), limit);
+}
+
+async function rankItems(query: string, candidates: KnowledgeItem[], limit: number): Promise<KnowledgeResult[]> {
+  if (candidates.length === 0) {
+    return [];
+  }
+
   try {
-    const queryEmbedding = await generateEmbedding(query);
+    const queryEmbedding = await embedQuery(query);
 
-    const scoredResults = knowledgeStore.map(item => ({
+    const scoredResults = candidates.map(item => ({
       content: item.content,
       metadata: item.metadata,
       score: cosineSimilarity(queryEmbedding, item.embedding),
@@ -105,7 +227,66 @@ export async function searchKnowledge(
   }
 }
 
+// What the coach needs from the knowledge base at each point of a set
+const EVENT_FOCUS: Partial<Record<TimelineEventType, string>> = {
+  EV_AWAIT_READY: 'setup and starting position',
+  EV_WORK_PREVIEW: 'setup and starting position',
+  EV_WORK_START: 'form cues and technique',
+  EV_TECH_HINT: 'form cues and technique',
+  EV_HALFWAY: 'common mistakes when fatigued',
+  EV_LAST_10S: 'common mistakes when fatigued',
+  EV_WORK_END: 'common mistakes when fatigued',
+  EV_REST_START: 'rest and recovery between sets',
+  EV_ROUND_REST_START: 'rest and recovery between sets',
+  EV_WORKOUT_END: 'recovery after training',
+};
+
+export interface CoachingRetrievalKey {
+  exerciseName?: string;
+  eventType?: string;    // Timeline event (legacy names accepted)
+  muscleGroup?: string;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Guidance for the exercise and event in focus. Exercise guides tagged with (or
+ * titled after) the exercise are searched first; general knowledge is the fallback.
+ */
+export async function searchKnowledgeForContext(
+  key: CoachingRetrievalKey,
+  limit: number = 3
+): Promise<KnowledgeResult[]> {
+  const eventType = key.eventType ? normalizeEventType(key.eventType) : null;
+  const focus = (eventType && EVENT_FOCUS[eventType]) || 'form cues and technique';
+
+  if (!key.exerciseName) {
+    return searchKnowledge(`${key.muscleGroup ?? 'strength training'} ${focus}`, limit);
+  }
+
+  const query = `${key.exerciseName} ${focus}`;
+  const exerciseSlug = slugify(key.exerciseName);
+  const guides = knowledgeStore.filter(item =>
+    item.metadata.tags.some(tag => slugify(tag) === exerciseSlug) ||
+    slugify(item.metadata.title).includes(exerciseSlug)
+  );
+
+  if (guides.length > 0) {
+    return rankItems(query, guides, limit);
+  }
+
+  const muscleTags = key.muscleGroup ? [key.muscleGroup, slugify(key.muscleGroup)] : undefined;
+  const byMuscle = muscleTags ? await searchKnowledge(query, limit, { tags: muscleTags }) : [];
+  return byMuscle.length > 0 ? byMuscle : searchKnowledge(query, limit);
+}
+
 function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding dimension mismatch (${a.length} vs ${b.length})`);
+  }
+
   let dotProduct = 0;
   let normA = 0;
   let normB = 0;
@@ -116,16 +297,29 @@ function cosineSimilarity(a: number[], b: number[]): number {
     normB += b[i] * b[i];
   }
 
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator > 0 ? dotProduct / denominator : 0;
 }
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text,
-  });
+// Coaching queries repeat every set; embed each distinct query once per process
+const QUERY_CACHE_LIMIT = 200;
+const queryEmbeddings = new Map<string, number[]>();
+
+async function embedQuery(query: string): Promise<number[]> {
+  const key = `${getEmbeddingProvider().id}\u0000${query}`;
+  const cached = queryEmbeddings.get(key);
+  if (cached) return cached;
 
-  return response.data[0].embedding;
+  const embedding = await generateEmbedding(query);
+  if (queryEmbeddings.size >= QUERY_CACHE_LIMIT) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+  }
+  queryEmbeddings.set(key, embedding);
+  return embedding;
+}
+
+async function generateEmbedding(text: string): Promise<number[]> {
+  return getEmbeddingProvider().embed(text);
 }
 
 export async function clearKnowledge() {
@@ -140,6 +334,9 @@ export function getKnowledgeStats() {
   return {
     initialized: knowledgeStore.length > 0,
     count: knowledgeStore.length,
+    documents: new Set(knowledgeStore.map(item => item.metadata.source)).size,
+    categories: Array.from(new Set(knowledgeStore.map(item => item.metadata.category))),
     cacheExists: fs.existsSync(KNOWLEDGE_CACHE_PATH),
+    embeddingProvider: getEmbeddingProvider().id,
   };
 }
@@ -6,12 +6,16 @@
  * - Mode-aware filtering (reps, time)
  * - Chatter-level filtering (silent, minimal, high)
  * - Cooldown tracking
- * - A2 eligibility (downstream tech cues after work_start)
+ * - A2 eligibility (downstream tech cues after EV_WORK_START)
+ *
+ * Event types follow the canonical vocabulary in @shared/events; legacy
+ * names are normalized before matching.
  */
 
 import { db } from "./db";
 import { coachResponses } from "@shared/schema";
-import { eq, and, or, lt } from "drizzle-orm";
+import { eq, and, or, lt, inArray } from "drizzle-orm";
+import { normalizeEventType, eventTypeAliases } from "@shared/events";
 
 export interface CoachPromptOptions {
   eventType: string;
@@ -26,7 +30,7 @@ export interface CoachPromptOptions {
   tempoCue?: string;
   
   // A2 eligibility: Can we inject downstream tech cues?
-  isA2Eligible?: boolean; // True if this is work_start event in rep-round workout
+  isA2Eligible?: boolean; // True if this is EV_WORK_START event in rep-round workout
   chatterAware?: boolean; // True if we've already spoken recently
 }
 
@@ -51,6 +55,9 @@ export async function selectCoachResponse(
     chatterAware = false,
   } = options;
 
+  const canonical = normalizeEventType(eventType);
+  const eventTypes = canonical ? eventTypeAliases(canonical) : [eventType];
+
   try {
     // Query database for matching responses
     const candidates = await db
@@ -59,7 +66,7 @@ export async function selectCoachResponse(
       .where(
         and(
           eq(coachResponses.active, true),
-          eq(coachResponses.eventType, eventType),
+          inArray(coachResponses.eventType, eventTypes),
           eq(coachResponses.locale, locale),
           or(
             eq(coachResponses.pattern, pattern),
@@ -153,7 +160,7 @@ function formatTemplate(template: string, options: CoachPromptOptions): string {
  * A2 Eligibility Check - Can we inject downstream tech cues?
  * 
  * Rules:
- * - Must be work_start event
+ * - Must be EV_WORK_START event (or a legacy alias)
  * - Must be rep-round workout (mode: reps)
  * - Must not have spoken recently (chatter-aware)
  */
@@ -162,5 +169,5 @@ export function isA2Eligible(
   mode: string | undefined,
   chatterAware: boolean
 ): boolean {
-  return eventType === "work_start" && mode === "reps" && !chatterAware;
+  return normalizeEventType(eventType) === "EV_WORK_START" && mode === "reps" && !chatterAware;
 }
@@ -0,0 +1,392 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { db } from "./db";
+import { contributions, datasetExportJobs, type Contribution, type DatasetExportJob } from "@shared/schema";
+import { AI_TRAINING_EQUIPMENT } from "@shared/ai-equipment-catalog";
+import { eq, desc } from "drizzle-orm";
+
+/**
+ * Object-detection dataset export
+ *
+ * Builds a zip of approved, annotated contributions in one of three layouts:
+ * - coco: images/<split>/<id>.<ext> + annotations/instances_<split>.json
+ * - yolo: images/<split>/<id>.<ext> + labels/<split>/<id>.txt + data.yaml
+ * - voc:  JPEGImages/<id>.<ext> + Annotations/<id>.xml + ImageSets/Main/<split>.txt
+ *
+ * Class IDs follow the order of AI_TRAINING_EQUIPMENT, so every export of the
+ * same catalog maps labels identically. Bounding boxes are pixel coordinates
+ * in the decoded image; boxes are never invented for unannotated images.
+ */
+
+export type DatasetFormat = "coco" | "yolo" | "voc";
+export type DatasetSplit = "train" | "validation" | "test";
+
+type SkipCounts = NonNullable<DatasetExportJob["skipped"]>;
+
+const EXPORT_DIR = path.join(process.cwd(), "exports");
+
+// Conventional split names in each format's tooling
+const YOLO_SPLIT_KEYS: Record<DatasetSplit, string> = { train: "train", validation: "val", test: "test" };
+const VOC_SPLIT_FILES: Record<DatasetSplit, string> = { train: "train", validation: "val", test: "test" };
+
+interface DecodedImage {
+  data: Buffer;
+  ext: "jpg" | "png" | "webp";
+  width: number;
+  height: number;
+}
+
+interface ExportBox {
+  classId: number;   // index into AI_TRAINING_EQUIPMENT
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ExportImage {
+  contributionId: string;
+  split: DatasetSplit;
+  fileName: string;
+  width: number;
+  height: number;
+  boxes: ExportBox[];
+}
+
+// Width/height from the image header, without a full decode
+function readImageSize(data: Buffer, ext: DecodedImage["ext"]): { width: number; height: number } | null {
+  if (ext === "png" && data.length >= 24) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (ext === "jpg") {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  if (ext === "webp" && data.length >= 30) {
+    const chunk = data.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === "VP8L") {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return null;
+}
+
+// imageData is a data URL or bare base64; the format is sniffed from the bytes
+function decodeImage(imageData: string): DecodedImage | null {
+  const base64 = imageData.startsWith("data:") ? imageData.slice(imageData.indexOf(",") + 1) : imageData;
+  const data = Buffer.from(base64, "base64");
+
+  let ext: DecodedImage["ext"] | null = null;
+  if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8) ext = "jpg";
+  else if (data.length > 8 && data.toString("ascii", 1, 4) === "PNG") ext = "png";
+  else if (data.length > 12 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") ext = "webp";
+  if (!ext) return null;
+
+  const size = readImageSize(data, ext);
+  if (!size || size.width <= 0 || size.height <= 0) return null;
+  return { data, ext, ...size };
+}
+
+// Clamp boxes to the image and map labels to catalog classes; the rest are dropped
+function toExportBoxes(contribution: Contribution, width: number, height: number): { boxes: ExportBox[]; dropped: number } {
+  const boxes: ExportBox[] = [];
+  let dropped = 0;
+
+  for (const box of contribution.boundingBoxes ?? []) {
+    const classId = AI_TRAINING_EQUIPMENT.indexOf(box.label || contribution.equipment);
+    const x = Math.max(0, Math.min(box.x, width));
+    const y = Math.max(0, Math.min(box.y, height));
+    const right = Math.max(0, Math.min(box.x + box.width, width));
+    const bottom = Math.max(0, Math.min(box.y + box.height, height));
+
+    if (classId === -1 || right - x < 1 || bottom - y < 1) {
+      dropped++;
+      continue;
+    }
+    boxes.push({ classId, x, y, width: right - x, height: bottom - y });
+  }
+
+  return { boxes, dropped };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function imagePath(format: DatasetFormat, image: ExportImage): string {
+  return format === "voc" ? `JPEGImages/${image.fileName}` : `images/${image.split}/${image.fileName}`;
+}
+
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+function addCocoAnnotations(zip: JSZip, images: ExportImage[], splits: DatasetSplit[]) {
+  const categories = AI_TRAINING_EQUIPMENT.map((name, index) => ({ id: index + 1, name, supercategory: "equipment" }));
+
+  for (const split of splits) {
+    const splitImages = images.filter(image => image.split === split);
+    const annotations: any[] = [];
+
+    const cocoImages = splitImages.map((image, index) => {
+      const imageId = index + 1;
+      for (const box of image.boxes) {
+        annotations.push({
+          id: annotations.length + 1,
+          image_id: imageId,
+          category_id: box.classId + 1,
+          bbox: [round(box.x), round(box.y), round(box.width), round(box.height)],
+          area: round(box.width * box.height),
+          iscrowd: 0,
+        });
+      }
+      return { id: imageId, file_name: image.fileName, width: image.width, height: image.height, contribution_id: image.contributionId };
+    });
+
+    zip.file(`annotations/instances_${split}.json`, JSON.stringify({
+      info: { description: "SuprSet gym equipment", date_created: new Date().toISOString() },
+      licenses: [],
+      images: cocoImages,
+      annotations,
+      categories,
+    }, null, 2));
+  }
+}
+
+function addYoloAnnotations(zip: JSZip, images: ExportImage[], splits: DatasetSplit[]) {
+  for (const image of images) {
+    const lines = image.boxes.map(box => [
+      box.classId,
+      ((box.x + box.width / 2) / image.width).toFixed(6),
+      ((box.y + box.height / 2) / image.height).toFixed(6),
+      (box.width / image.width).toFixed(6),
+      (box.height / image.height).toFixed(6),
+    ].join(" "));
+    zip.file(`labels/${image.split}/${baseName(image.fileName)}.txt`, lines.join("\n") + "\n");
+  }
+
+  const yaml = [
+    "path: .",
+    ...splits.map(split => `${YOLO_SPLIT_KEYS[split]}: images/${split}`),
+    `nc: ${AI_TRAINING_EQUIPMENT.length}`,
+    "names:",
+    ...AI_TRAINING_EQUIPMENT.map((name, index) => `  ${index}: ${JSON.stringify(name)}`),
+  ];
+  zip.file("data.yaml", yaml.join("\n") + "\n");
+  zip.file("classes.txt", AI_TRAINING_EQUIPMENT.join("\n") + "\n");
+}
+
+function addVocAnnotations(zip: JSZip, images: ExportImage[], splits: DatasetSplit[]) {
+  for (const image of images) {
+    // VOC coordinates are 1-based and inclusive
+    const objects = image.boxes.map(box => `  <object>
+    <name>${escapeXml(AI_TRAINING_EQUIPMENT[box.classId])}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${Math.floor(box.x) + 1}</xmin>
+      <ymin>${Math.floor(box.y) + 1}</ymin>
+      <xmax>${Math.min(image.width, Math.ceil(box.x + box.width))}</xmax>
+      <ymax>${Math.min(image.height, Math.ceil(box.y + box.height))}</ymax>
+    </bndbox>
+  </object>`).join("\n");
+
+    zip.file(`Annotations/${baseName(image.fileName)}.xml`, `<annotation>
+  <folder>JPEGImages</folder>
+  <filename>${escapeXml(image.fileName)}</filename>
+  <source><database>SuprSet</database></source>
+  <size>
+    <width>${image.width}</width>
+    <height>${image.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects}
+</annotation>
+`);
+  }
+
+  for (const split of splits) {
+    const ids = images.filter(image => image.split === split).map(image => baseName(image.fileName));
+    zip.file(`ImageSets/Main/${VOC_SPLIT_FILES[split]}.txt`, ids.join("\n") + (ids.length ? "\n" : ""));
+  }
+  zip.file("labels.txt", AI_TRAINING_EQUIPMENT.join("\n") + "\n");
+}
+
+async function buildExport(job: DatasetExportJob): Promise<{ filePath: string; imageCount: number; annotationCount: number; skipped: SkipCounts }> {
+  const format = job.format as DatasetFormat;
+  const splits = job.splits as DatasetSplit[];
+  const skipped: SkipCounts = { unapproved: 0, unassigned: 0, unannotated: 0, undecodable: 0, droppedBoxes: 0 };
+
+  // Metadata first; image data is loaded one contribution at a time
+  const candidates = await db.select({
+    id: contributions.id,
+    moderationStatus: contributions.moderationStatus,
+    trainingSet: contributions.trainingSet,
+    boundingBoxes: contributions.boundingBoxes,
+  }).from(contributions);
+
+  const zip = new JSZip();
+  const images: ExportImage[] = [];
+
+  for (const candidate of candidates) {
+    if (candidate.moderationStatus !== "approved") {
+      skipped.unapproved++;
+      continue;
+    }
+    if (!candidate.trainingSet || !splits.includes(candidate.trainingSet)) {
+      skipped.unassigned++;
+      continue;
+    }
+    if (!candidate.boundingBoxes || candidate.boundingBoxes.length === 0) {
+      skipped.unannotated++;
+      continue;
+    }
+
+    const [contribution] = await db.select().from(contributions).where(eq(contributions.id, candidate.id));
+    if (!contribution) continue;
+
+    const decoded = decodeImage(contribution.imageData);
+    if (!decoded) {
+      skipped.undecodable++;
+      continue;
+    }
+
+    const { boxes, dropped } = toExportBoxes(contribution, decoded.width, decoded.height);
+    skipped.droppedBoxes += dropped;
+    if (boxes.length === 0) {
+      skipped.unannotated++;
+      continue;
+    }
+
+    const image: ExportImage = {
+      contributionId: contribution.id,
+      split: candidate.trainingSet,
+      fileName: `${contribution.id}.${decoded.ext}`,
+      width: decoded.width,
+      height: decoded.height,
+      boxes,
+    };
+    images.push(image);
+    // Images are already compressed
+    zip.file(imagePath(format, image), decoded.data, { compression: "STORE" });
+  }
+
+  if (format === "coco") addCocoAnnotations(zip, images, splits);
+  else if (format === "yolo") addYoloAnnotations(zip, images, splits);
+  else addVocAnnotations(zip, images, splits);
+
+  fs.mkdirSync(EXPORT_DIR, { recursive: true });
+  const filePath = path.join(EXPORT_DIR, `dataset-${job.id}-${format}.zip`);
+  await new Promise<void>((resolve, reject) => {
+    const file = fs.createWriteStream(filePath)
+      .on("finish", () => resolve())
+      .on("error", reject);
+    // pipe() doesn't forward source errors; a failed zip must fail the job too
+    zip.generateNodeStream({ type: "nodebuffer", streamFiles: true, compression: "DEFLATE" })
+      .on("error", (error) => {
+        file.destroy();
+        reject(error);
+      })
+      .pipe(file);
+  });
+
+  return {
+    filePath,
+    imageCount: images.length,
+    annotationCount: images.reduce((sum, image) => sum + image.boxes.length, 0),
+    skipped,
+  };
+}
+
+async function runExport(job: DatasetExportJob): Promise<DatasetExportJob> {
+  try {
+    const result = await buildExport(job);
+    const [finished] = await db.update(datasetExportJobs)
+      .set({ status: "success", finishedAt: new Date(), ...result })
+      .where(eq(datasetExportJobs.id, job.id))
+      .returning();
+
+    console.log(`✅ Dataset export ${job.id} (${job.format}): ${result.imageCount} images, ${result.annotationCount} boxes`, result.skipped);
+    return finished;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const [failed] = await db.update(datasetExportJobs)
+      .set({ status: "failed", finishedAt: new Date(), error: message })
+      .where(eq(datasetExportJobs.id, job.id))
+      .returning();
+
+    console.error(`❌ Dataset export ${job.id} failed:`, message);
+    return failed;
+  }
+}
+
+/**
+ * Queue an export and return the running job immediately. The zip is built in
+ * the background; poll the job until it reports success, then download it.
+ * Failures are recorded on the job and never thrown.
+ */
+export async function startDatasetExport(options: {
+  format: DatasetFormat;
+  splits: DatasetSplit[];
+  requestedBy?: string;
+}): Promise<DatasetExportJob> {
+  const [job] = await db.insert(datasetExportJobs).values({
+    format: options.format,
+    splits: options.splits,
+    requestedBy: options.requestedBy,
+  }).returning();
+
+  // runExport records its own failures; this catches the case where that write fails too
+  runExport(job).catch(async (error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Dataset export ${job.id} failed:`, message);
+    await db.update(datasetExportJobs)
+      .set({ status: "failed", finishedAt: new Date(), error: message })
+      .where(eq(datasetExportJobs.id, job.id))
+      .catch(err => console.error(`Failed to record dataset export ${job.id} failure:`, err));
+  });
+  return job;
+}
+
+export async function getDatasetExportJobs(limit = 20): Promise<DatasetExportJob[]> {
+  return db.select().from(datasetExportJobs)
+    .orderBy(desc(datasetExportJobs.startedAt))
+    .limit(limit);
+}
+
+export async function getDatasetExportJob(id: number): Promise<DatasetExportJob | undefined> {
+  const [job] = await db.select().from(datasetExportJobs).where(eq(datasetExportJobs.id, id));
+  return job;
+}
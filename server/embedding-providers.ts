@@ -0,0 +1,127 @@
+/**
+ * Embedding Providers
+ *
+ * Knowledge ingestion and search embed text through an EmbeddingProvider:
+ * - openai: text-embedding-3-small (1536 dims), needs OPENAI_API_KEY and network
+ * - local: deterministic hashed bag-of-words (unigrams + bigrams), no network
+ *
+ * Vectors from different providers are not comparable, so the knowledge cache
+ * records the provider ID and dimension that produced it.
+ *
+ * Selection: EMBEDDING_PROVIDER=openai|local; defaults to openai when an API
+ * key is configured and local otherwise.
+ */
+
+import { OpenAI } from 'openai';
+
+export interface EmbeddingProvider {
+  id: string;          // Stable ID stored in the cache, e.g. "openai:text-embedding-3-small"
+  dimension: number;
+  embed(text: string): Promise<number[]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_EMBEDDING_DIMENSION = 1536;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `openai:${OPENAI_EMBEDDING_MODEL}`;
+  readonly dimension = OPENAI_EMBEDDING_DIMENSION;
+  private client: OpenAI | null = null;
+
+  async embed(text: string): Promise<number[]> {
+    // Created on first use so offline environments can load this module
+    this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+    const response = await this.client.embeddings.create({
+      model: OPENAI_EMBEDDING_MODEL,
+      input: text,
+    });
+
+    return response.data[0].embedding;
+  }
+}
+
+const LOCAL_EMBEDDING_DIMENSION = 512;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'this',
+  'to', 'was', 'we', 'were', 'will', 'with', 'you', 'your',
+]);
+
+// FNV-1a; stable across runs and platforms
+function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Light plural/suffix folding so "squats"/"squatting" land near "squat"
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Hashed bag-of-words: unigrams and bigrams are hashed into a fixed number of
+ * signed buckets, weighted by log term frequency and L2-normalized. Deterministic
+ * and offline; good enough for keyword-heavy coaching queries.
+ */
+export class HashedBagOfWordsProvider implements EmbeddingProvider {
+  readonly id = 'local:hashed-bow-v1';
+
+  constructor(readonly dimension: number = LOCAL_EMBEDDING_DIMENSION) {}
+
+  async embed(text: string): Promise<number[]> {
+    const tokens = tokenize(text);
+    const features = new Map<string, number>();
+    const add = (feature: string) => features.set(feature, (features.get(feature) ?? 0) + 1);
+
+    tokens.forEach((token, i) => {
+      add(token);
+      if (i > 0) add(`${tokens[i - 1]} ${token}`);
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of Array.from(features.entries())) {
+      const bucket = fnv1a(feature) % this.dimension;
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+}
+
+export function createEmbeddingProvider(name: EmbeddingProviderName): EmbeddingProvider {
+  return name === 'openai' ? new OpenAIEmbeddingProvider() : new HashedBagOfWordsProvider();
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+    if (configured && configured !== 'openai' && configured !== 'local') {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${configured}" (expected "openai" or "local")`);
+    }
+    const name: EmbeddingProviderName = (configured as EmbeddingProviderName | undefined)
+      ?? (process.env.OPENAI_API_KEY ? 'openai' : 'local');
+    activeProvider = createEmbeddingProvider(name);
+  }
+  return activeProvider;
+}
@@ -0,0 +1,157 @@
+/**
+ * Exercise Substitution
+ *
+ * Mid-workout swaps for when the planned equipment is busy or missing.
+ * Replacements come from the same EXERCISE_FAMILIES family, or share the
+ * movement pattern and primary muscle group. The swap rewrites the session's
+ * timeline snapshot in place: only the exercise on each step changes, never
+ * its timing, so a running player keeps its clock.
+ */
+
+import type { BlockSessionSubstitution, Exercise } from "@shared/schema";
+import type { ExecutionTimeline, ExerciseMeta, TimelineStep } from "@shared/timeline";
+import { getExerciseFamily } from "@shared/exercise-families";
+import { mapToMovementPattern } from "@shared/pairing-engine";
+import { normalizeEquipmentName, requiredEquipment } from "@shared/gym-equipment";
+import { extractExerciseMeta } from "./timeline-compiler";
+
+export type SubstitutionReason = "busy" | "missing" | "preference";
+
+export interface SubstituteCandidate {
+  exercise: Exercise;
+  score: number;
+  match: "family" | "pattern";
+  reasons: string[];
+}
+
+export interface SubstituteOptions {
+  isAvailable?: (exercise: Exercise) => boolean; // The user's gym inventory
+  avoidEquipment?: string[];                     // e.g. the cable tower someone else is on
+  excludeIds?: number[];                         // Exercises already in the block
+  limit?: number;
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Ranked replacements for an exercise. Candidates must share its family, or
+ * its movement pattern and primary muscle group; equipment the user doesn't
+ * have, or wants to avoid, rules a candidate out.
+ */
+export function rankSubstitutes(original: Exercise, catalog: Exercise[], options: SubstituteOptions = {}): SubstituteCandidate[] {
+  const family = getExerciseFamily(original.name);
+  const pattern = mapToMovementPattern(original);
+  const avoid = new Set((options.avoidEquipment ?? []).map(normalizeEquipmentName));
+  const excluded = new Set([original.id, ...(options.excludeIds ?? [])]);
+  const originalSecondary = new Set(original.secondaryMuscleGroup.map(m => m.toLowerCase()));
+
+  const candidates: SubstituteCandidate[] = [];
+  for (const exercise of catalog) {
+    if (excluded.has(exercise.id)) continue;
+    if (options.isAvailable && !options.isAvailable(exercise)) continue;
+    if (requiredEquipment(exercise).some(name => avoid.has(normalizeEquipmentName(name)))) continue;
+
+    const sameFamily = !!family && getExerciseFamily(exercise.name) === family;
+    const samePattern = pattern !== "general" && mapToMovementPattern(exercise) === pattern;
+    const sameMuscle = sameText(exercise.primaryMuscleGroup, original.primaryMuscleGroup);
+    if (!sameFamily && !(samePattern && sameMuscle)) continue;
+
+    const reasons: string[] = [];
+    let score = 0;
+    if (sameFamily) {
+      score += 50;
+      reasons.push(`Same ${family!.replace(/_/g, " ")} family`);
+    }
+    if (samePattern) {
+      score += 20;
+      reasons.push(`Same ${pattern.replace(/_/g, " ")} pattern`);
+    }
+    if (sameMuscle) {
+      score += 15;
+      reasons.push(`Targets ${exercise.primaryMuscleGroup}`);
+    }
+    const sharedSecondary = exercise.secondaryMuscleGroup.filter(m => originalSecondary.has(m.toLowerCase())).length;
+    score += Math.min(sharedSecondary * 5, 10);
+    if (sameText(exercise.difficultyLevel, original.difficultyLevel)) {
+      score += 5;
+      reasons.push("Same difficulty");
+    }
+
+    candidates.push({ exercise, score: Math.min(score, 100), match: sameFamily ? "family" : "pattern", reasons });
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .slice(0, options.limit ?? 5);
+}
+
+// Coach metadata for the substitute; keeps the step's rep target
+function substituteMeta(substitute: Exercise, previous: ExerciseMeta): ExerciseMeta {
+  return extractExerciseMeta({
+    exerciseId: substitute.id,
+    exerciseName: substitute.name,
+    coachingBulletPoints: substitute.coachingBulletPoints,
+    equipmentPrimary: substitute.equipmentPrimary || substitute.equipment,
+    equipmentSecondary: substitute.equipmentSecondary,
+    primaryMuscleGroup: substitute.primaryMuscleGroup,
+    videoUrl: substitute.videoUrl,
+    imageUrl: substitute.imageUrl,
+  }, previous.targetReps);
+}
+
+/**
+ * Swap an exercise on every step from `fromStep` on (optionally only within
+ * one block). atMs/endMs/durationSec are left untouched, and step text naming
+ * the old exercise is updated so the coach reads the new name.
+ */
+export function substituteInTimeline(
+  timeline: ExecutionTimeline,
+  originalExerciseId: number,
+  substitute: Exercise,
+  options: { fromStep: number; blockId?: string | null }
+): { timeline: ExecutionTimeline; stepsAffected: number } {
+  let stepsAffected = 0;
+
+  const executionTimeline = timeline.executionTimeline.map((step, index): TimelineStep => {
+    if (index < options.fromStep) return step;
+    if (options.blockId && step.blockId !== options.blockId) return step;
+
+    const originalName = step.exercise?.id === originalExerciseId
+      ? step.exercise.name
+      : step.exercises?.find(ex => ex.id === originalExerciseId)?.name;
+    if (!originalName) return step;
+
+    stepsAffected++;
+    const rename = (text?: string) => text?.split(originalName).join(substitute.name);
+    return {
+      ...step,
+      exercise: step.exercise?.id === originalExerciseId ? substituteMeta(substitute, step.exercise) : step.exercise,
+      exercises: step.exercises?.map(ex => ex.id === originalExerciseId ? substituteMeta(substitute, ex) : ex),
+      text: rename(step.text),
+      label: rename(step.label),
+      coachPrompt: rename(step.coachPrompt),
+    };
+  });
+
+  return { timeline: { ...timeline, executionTimeline }, stepsAffected };
+}
+
+/**
+ * Planned exercise for sets logged against a substitute. Sets keep the
+ * exercise the member actually did; this records what it replaced, following
+ * chains of swaps back to the original plan.
+ */
+export function createSetAttribution(substitutions: BlockSessionSubstitution[]) {
+  const planned = new Map<number, number>(); // substitute → planned exercise
+
+  const ordered = [...substitutions].sort((a, b) => a.id - b.id);
+  for (const swap of ordered) {
+    const origin = planned.get(swap.originalExerciseId) ?? swap.originalExerciseId;
+    // Swapping back to the planned exercise is no longer a substitution
+    if (origin === swap.substituteExerciseId) planned.delete(swap.substituteExerciseId);
+    else planned.set(swap.substituteExerciseId, origin);
+  }
+
+  return (exerciseId: number): number | null => planned.get(exerciseId) ?? null;
+}
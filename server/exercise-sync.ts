@@ -0,0 +1,163 @@
+import { db } from "./db";
+import { airtableService } from "./airtable";
+import { exercises, exerciseSyncRuns, type Exercise, type ExerciseSyncRun } from "@shared/schema";
+import { eq, desc, isNull, inArray } from "drizzle-orm";
+
+const SYNC_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+
+// Bookkeeping columns never count as a change
+const IGNORED_FIELDS = new Set<keyof Exercise>(["id", "syncedAt", "removedAt"]);
+
+type SyncTrigger = "startup" | "scheduled" | "manual";
+
+let inFlight: Promise<ExerciseSyncRun> | null = null;
+let scheduleHandle: ReturnType<typeof setInterval> | null = null;
+
+function changedFields(stored: Exercise, incoming: Exercise): string[] {
+  return (Object.keys(incoming) as Array<keyof Exercise>)
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .filter(key => JSON.stringify(stored[key] ?? null) !== JSON.stringify(incoming[key] ?? null));
+}
+
+async function runSync(trigger: SyncTrigger): Promise<ExerciseSyncRun> {
+  const [run] = await db.insert(exerciseSyncRuns).values({ trigger }).returning();
+
+  try {
+    const { exercises: incoming, failedIds } = await airtableService.getAllExercisesWithFailures();
+    // Records that failed to parse are still in Airtable; keep their last good row
+    const presentIds = new Set([...incoming.map(e => e.id), ...failedIds]);
+    const now = new Date();
+
+    const diff: NonNullable<ExerciseSyncRun["diff"]> = { added: [], changed: [], removed: [] };
+
+    // All or nothing: a failure part-way leaves the previous mirror intact
+    await db.transaction(async (tx) => {
+      const stored = await tx.select().from(exercises);
+      const storedById = new Map(stored.map(e => [e.id, e]));
+      const unchangedIds: number[] = [];
+
+      for (const exercise of incoming) {
+        const existing = storedById.get(exercise.id);
+        const row = { ...exercise, syncedAt: now, removedAt: null };
+
+        if (!existing) {
+          await tx.insert(exercises).values(row);
+          diff.added.push({ id: exercise.id, name: exercise.name });
+          continue;
+        }
+
+        const fields = changedFields(existing, exercise);
+        if (existing.removedAt) {
+          // Record came back after being removed from Airtable
+          diff.added.push({ id: exercise.id, name: exercise.name });
+        } else if (fields.length > 0) {
+          diff.changed.push({ id: exercise.id, name: exercise.name, fields });
+        }
+
+        if (existing.removedAt || fields.length > 0) {
+          const { id, ...updates } = row;
+          await tx.update(exercises).set(updates).where(eq(exercises.id, id));
+        } else {
+          unchangedIds.push(exercise.id);
+        }
+      }
+
+      if (unchangedIds.length > 0) {
+        await tx.update(exercises).set({ syncedAt: now }).where(inArray(exercises.id, unchangedIds));
+      }
+
+      // Soft-remove rows that vanished from Airtable so foreign keys stay valid
+      const removed = stored.filter(existing => !existing.removedAt && !presentIds.has(existing.id));
+      if (removed.length > 0) {
+        await tx.update(exercises).set({ removedAt: now }).where(inArray(exercises.id, removed.map(e => e.id)));
+        removed.forEach(existing => diff.removed.push({ id: existing.id, name: existing.name }));
+      }
+    });
+
+    if (failedIds.length > 0) {
+      console.warn(`⚠️ Exercise sync (${trigger}): ${failedIds.length} Airtable records could not be parsed; their rows were left as-is`);
+    }
+
+    const [finished] = await db.update(exerciseSyncRuns)
+      .set({
+        status: "success",
+        finishedAt: new Date(),
+        addedCount: diff.added.length,
+        changedCount: diff.changed.length,
+        removedCount: diff.removed.length,
+        diff,
+      })
+      .where(eq(exerciseSyncRuns.id, run.id))
+      .returning();
+
+    console.log(`✅ Exercise sync (${trigger}): +${diff.added.length} ~${diff.changed.length} -${diff.removed.length}`);
+    return finished;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const [failed] = await db.update(exerciseSyncRuns)
+      .set({ status: "failed", finishedAt: new Date(), error: message })
+      .where(eq(exerciseSyncRuns.id, run.id))
+      .returning();
+
+    console.error(`❌ Exercise sync (${trigger}) failed:`, message);
+    return failed;
+  }
+}
+
+/**
+ * Mirror the Airtable exercise catalog into the exercises table.
+ * Concurrent callers share the sync that is already running.
+ * Failures are recorded on the run and never thrown, so a flaky Airtable
+ * leaves the last good mirror in place. Only a failure to record the run
+ * itself (database unavailable) rejects.
+ */
+export function syncExerciseCatalog(trigger: SyncTrigger = "manual"): Promise<ExerciseSyncRun> {
+  if (!inFlight) {
+    inFlight = runSync(trigger).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+export async function getExerciseSyncRuns(limit = 20): Promise<ExerciseSyncRun[]> {
+  return db.select().from(exerciseSyncRuns)
+    .orderBy(desc(exerciseSyncRuns.startedAt))
+    .limit(limit);
+}
+
+export async function getExerciseSyncRun(id: number): Promise<ExerciseSyncRun | undefined> {
+  const [run] = await db.select().from(exerciseSyncRuns).where(eq(exerciseSyncRuns.id, id));
+  return run;
+}
+
+export async function hasMirroredExercises(): Promise<boolean> {
+  const [row] = await db.select({ id: exercises.id }).from(exercises)
+    .where(isNull(exercises.removedAt))
+    .limit(1);
+  return !!row;
+}
+
+// Sync once at startup, then on an interval. onSynced lets the caller drop its read cache.
+export function startExerciseSyncSchedule(onSynced: () => void, intervalMs = SYNC_INTERVAL_MS) {
+  if (scheduleHandle) return;
+
+  // runSync records sync failures itself; this catches the run row insert failing
+  // (database down, tables not migrated) so a bad boot doesn't crash the server
+  const run = (trigger: SyncTrigger) =>
+    syncExerciseCatalog(trigger)
+      .then(result => {
+        if (result.status === "success") onSynced();
+      })
+      .catch(error => console.error(`Exercise sync (${trigger}) could not run:`, error));
+
+  run("startup");
+  scheduleHandle = setInterval(() => run("scheduled"), intervalMs);
+}
+
+export function stopExerciseSyncSchedule() {
+  if (scheduleHandle) {
+    clearInterval(scheduleHandle);
+    scheduleHandle = null;
+  }
+}
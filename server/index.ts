@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeKnowledgeStore } from "./chroma-service";
+import { startExerciseSyncSchedule } from "./exercise-sync";
+import { storage } from "./storage";
 
 const app = express();
 // Increase payload limits for image uploads (50MB for AI training images)
@@ -43,6 +45,9 @@ app.use((req, res, next) => {
 
   await initializeKnowledgeStore();
 
+  // Keep the Postgres exercise mirror in step with Airtable
+  startExerciseSyncSchedule(() => storage.invalidateExerciseCache());
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
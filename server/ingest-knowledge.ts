@@ -1,33 +1,46 @@
 import fs from 'fs';
 import path from 'path';
-import { addKnowledge, saveKnowledgeCache, clearKnowledge } from './chroma-service';
+import {
+  addKnowledge,
+  saveKnowledgeCache,
+  clearKnowledge,
+  loadKnowledgeCache,
+  assertCacheMatchesProvider,
+  hashContent,
+  type KnowledgeItem,
+} from './chroma-service';
+import { getEmbeddingProvider } from './embedding-providers';
+
+// Sections are embedded on their own so retrieval returns the relevant part of a guide
+const MAX_CHUNK_CHARS = 1500;
+const MIN_CHUNK_CHARS = 200;
 
 interface KnowledgeDocument {
   id: string;
-  content: string;
+  body: string;
   metadata: {
     title: string;
     category: string;
-    tags?: string[];
+    tags: string[];
     source: string;
   };
 }
 
-interface KnowledgeItem {
+interface KnowledgeChunk {
   id: string;
   content: string;
-  embedding: number[];
-  metadata: {
-    title: string;
-    category: string;
-    tags: string;
-    source: string;
-  };
+  heading: string;
+  chunkIndex: number;
+}
+
+interface MarkdownSection {
+  path: string[];
+  lines: string[];
 }
 
 async function processMarkdownFiles(directory: string, category: string): Promise<KnowledgeDocument[]> {
   const documents: KnowledgeDocument[] = [];
-  
+
   if (!fs.existsSync(directory)) {
     console.log(`⚠️ Directory not found: ${directory}`);
     return documents;
@@ -39,7 +52,7 @@ async function processMarkdownFiles(directory: string, category: string): Promis
     try {
       const filePath = path.join(directory, file);
       const content = fs.readFileSync(filePath, 'utf-8');
-      
+
       if (!content || content.trim().length === 0) {
         console.warn(`⚠️ Skipping empty file: ${file}`);
         continue;
@@ -52,7 +65,7 @@ async function processMarkdownFiles(directory: string, category: string): Promis
 
       documents.push({
         id,
-        content,
+        body: stripFrontmatter(content),
         metadata: {
           title,
           category,
@@ -80,8 +93,101 @@ function extractTags(content: string): string[] {
   return [];
 }
 
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+}
+
+// Split on headings (ignoring fenced code), keeping the heading path of each section
+function splitSections(body: string, title: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [{ path: [title], lines: [] }];
+  const headingStack: string[] = [];
+  let inFence = false;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = !inFence ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+    if (heading) {
+      const level = heading[1].length;
+      headingStack.length = level - 1;
+      headingStack[level - 1] = heading[2];
+      sections.push({ path: headingStack.filter(Boolean), lines: [] });
+      continue;
+    }
+
+    sections[sections.length - 1].lines.push(line);
+  }
+
+  return sections
+    .map(section => ({ ...section, lines: trimBlankLines(section.lines) }))
+    .filter(section => section.lines.length > 0);
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+// Oversized sections are split on paragraph boundaries
+function splitLongText(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Heading-aware chunks for one document. Each chunk starts with its heading
+ * path so the embedding knows which guide and section it came from; short
+ * sections are merged into the previous chunk under the same top-level heading.
+ */
+function chunkDocument(doc: KnowledgeDocument): KnowledgeChunk[] {
+  const merged: Array<{ path: string[]; text: string }> = [];
+
+  for (const section of splitSections(doc.body, doc.metadata.title)) {
+    const text = section.lines.join('\n');
+    const previous = merged[merged.length - 1];
+    const sameParent = previous && previous.path[0] === section.path[0];
+    if (previous && sameParent && text.length < MIN_CHUNK_CHARS && previous.text.length + text.length < MAX_CHUNK_CHARS) {
+      previous.text += `\n\n${section.path[section.path.length - 1]}:\n${text}`;
+      continue;
+    }
+    merged.push({ path: section.path, text });
+  }
+
+  const chunks: KnowledgeChunk[] = [];
+  for (const section of merged) {
+    const heading = section.path.join(' > ');
+    for (const part of splitLongText(section.text)) {
+      chunks.push({
+        id: `${doc.id}#${chunks.length}`,
+        content: `${heading}\n\n${part}`,
+        heading,
+        chunkIndex: chunks.length,
+      });
+    }
+  }
+
+  return chunks;
+}
+
 async function ingestAllKnowledge() {
-  console.log('🚀 Starting knowledge base ingestion...');
+  const provider = getEmbeddingProvider();
+  console.log(`🚀 Starting knowledge base ingestion with ${provider.id} (${provider.dimension} dims)...`);
 
   const knowledgeBaseDir = path.join(process.cwd(), 'knowledge-base');
   const categories = [
@@ -90,22 +196,49 @@ async function ingestAllKnowledge() {
     { dir: 'training-principles', name: 'Training Principle' },
   ];
 
+  // Vectors from another provider can't be reused or mixed in; switching needs `reingest`
+  const previousCache = loadKnowledgeCache();
+  assertCacheMatchesProvider(previousCache);
+
+  // Unchanged chunks (same content hash) keep their embedding, even if they moved
+  const previousByHash = new Map<string, KnowledgeItem>();
+  for (const item of previousCache.items) {
+    if (item.contentHash) previousByHash.set(item.contentHash, item);
+  }
+
   const allItems: KnowledgeItem[] = [];
+  let embedded = 0;
+  let reused = 0;
 
   for (const category of categories) {
     const categoryPath = path.join(knowledgeBaseDir, category.dir);
     const documents = await processMarkdownFiles(categoryPath, category.name);
+    let chunkCount = 0;
 
     for (const doc of documents) {
-      const item = await addKnowledge(doc.id, doc.content, doc.metadata);
-      allItems.push(item);
+      for (const chunk of chunkDocument(doc)) {
+        const metadata = { ...doc.metadata, heading: chunk.heading, chunkIndex: chunk.chunkIndex };
+        const previous = previousByHash.get(hashContent(chunk.content));
+
+        if (previous) {
+          allItems.push({ ...previous, id: chunk.id, metadata });
+          reused++;
+        } else {
+          allItems.push(await addKnowledge(chunk.id, chunk.content, metadata));
+          embedded++;
+        }
+        chunkCount++;
+      }
     }
 
-    console.log(`✅ Processed ${documents.length} documents from ${category.name}`);
+    console.log(`✅ Processed ${documents.length} documents (${chunkCount} chunks) from ${category.name}`);
   }
 
+  const kept = new Set(allItems.map(item => item.contentHash));
+  const removed = Array.from(previousByHash.keys()).filter(hash => !kept.has(hash)).length;
+
   saveKnowledgeCache(allItems);
-  console.log(`\n🎉 Ingestion complete! Generated embeddings for ${allItems.length} documents`);
+  console.log(`\n🎉 Ingestion complete! ${allItems.length} chunks: ${embedded} embedded, ${reused} unchanged, ${removed} removed`);
 }
 
 async function reingestKnowledge() {
@@ -0,0 +1,463 @@
+/**
+ * Legacy Workout Conversion
+ *
+ * Translates the two older workout models into block workouts so they run
+ * through compileWorkoutTimeline and the coached player:
+ * - superSets / workouts / workoutSuperSets (user-saved)
+ * - workout template seeds (server/workout-seeds.ts)
+ *
+ * Anything the block model can't express is reported rather than guessed at.
+ */
+
+import { db } from "./db";
+import { storage } from "./storage";
+import { workoutSeeds } from "./workout-seeds";
+import { superSets, workoutSuperSets, type SuperSet, type Workout } from "@shared/schema";
+import { WorkoutDTO, type BlockDTOType, type ExerciseRefType, type WorkoutDTOType } from "@shared/dto";
+import { WorkoutSection } from "@shared/timeline";
+import { eq, asc } from "drizzle-orm";
+
+// Legacy supersets/strength sections are rep-based with no work window; the block model needs one
+const REP_SET_WORK_SEC = 45;
+
+type SeedWorkout = typeof workoutSeeds[number];
+type SeedSection = SeedWorkout["sections"][number];
+type SeedExercise = SeedSection["exercises"][number];
+
+export type ConversionSource = "superset" | "workout" | "template";
+
+export interface ConversionIssue {
+  source: ConversionSource;
+  sourceName: string;
+  severity: "warning" | "skipped";
+  message: string;
+}
+
+export interface ConversionResult {
+  source: ConversionSource;
+  sourceId: number | string;
+  sourceName: string;
+  status: "converted" | "planned" | "skipped" | "failed";
+  blockWorkoutId?: number;
+  workout?: WorkoutDTOType;
+  error?: string;
+}
+
+export interface ConversionReport {
+  dryRun: boolean;
+  results: ConversionResult[];
+  issues: ConversionIssue[];
+}
+
+export interface ConversionOptions {
+  userId?: string;           // Convert this user's saved supersets and workouts
+  includeTemplates?: boolean; // Convert every seeded workout template
+  dryRun?: boolean;          // Build and validate, but don't create anything
+  actorId: string;           // Owner when the legacy user has no account row
+}
+
+// Collects issues against the item currently being converted
+class IssueLog {
+  readonly issues: ConversionIssue[] = [];
+
+  constructor(private source: ConversionSource, private sourceName: string) {}
+
+  warn(message: string) {
+    this.issues.push({ source: this.source, sourceName: this.sourceName, severity: "warning", message });
+  }
+
+  skip(message: string) {
+    this.issues.push({ source: this.source, sourceName: this.sourceName, severity: "skipped", message });
+  }
+}
+
+async function missingExerciseIds(ids: number[]): Promise<number[]> {
+  const missing: number[] = [];
+  for (const id of Array.from(new Set(ids))) {
+    if (!(await storage.getExercise(id))) missing.push(id);
+  }
+  return missing;
+}
+
+// ---------------------------------------------------------------------------
+// Supersets and workouts
+// ---------------------------------------------------------------------------
+
+function superSetToBlock(superSet: SuperSet, sets?: number | null, restSec?: number | null): BlockDTOType {
+  const rest = restSec ?? superSet.defaultRestTime;
+  return {
+    name: superSet.name,
+    type: "custom_sequence",
+    params: {
+      type: "custom_sequence",
+      pattern: "superset",
+      mode: "reps",
+      setsPerExercise: sets ?? superSet.defaultSets,
+      workSec: REP_SET_WORK_SEC,
+      restSec: rest,
+      roundRestSec: rest, // Legacy rest ran after each A+B round
+      transitionSec: 0,
+      awaitReadyBeforeStart: false,
+    },
+    exercises: [{ exerciseId: superSet.exerciseAId }, { exerciseId: superSet.exerciseBId }],
+  };
+}
+
+function superSetToWorkout(superSet: SuperSet, log: IssueLog): WorkoutDTOType {
+  log.warn(`No work window in legacy supersets; rounds use ${REP_SET_WORK_SEC}s`);
+  return {
+    name: superSet.name,
+    description: superSet.description ?? undefined,
+    blocks: [superSetToBlock(superSet)],
+  };
+}
+
+async function workoutToBlockWorkout(workout: Workout, log: IssueLog): Promise<WorkoutDTOType | null> {
+  const joins = await db.select({ join: workoutSuperSets, superSet: superSets })
+    .from(workoutSuperSets)
+    .leftJoin(superSets, eq(workoutSuperSets.superSetId, superSets.id))
+    .where(eq(workoutSuperSets.workoutId, workout.id))
+    .orderBy(asc(workoutSuperSets.orderIndex));
+
+  const blocks: BlockDTOType[] = [];
+  for (const { join, superSet } of joins) {
+    if (!superSet) {
+      log.warn(`Superset ${join.superSetId} no longer exists; dropped from the workout`);
+      continue;
+    }
+    blocks.push(superSetToBlock(superSet, join.customSets, join.customRestTime));
+  }
+
+  if (blocks.length === 0) {
+    log.skip("Workout has no supersets to convert");
+    return null;
+  }
+  log.warn(`No work window in legacy supersets; rounds use ${REP_SET_WORK_SEC}s`);
+
+  return {
+    name: workout.name,
+    description: workout.description ?? undefined,
+    blocks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Template seeds
+// ---------------------------------------------------------------------------
+
+function seedExerciseRef(exercise: SeedExercise, log: IssueLog): ExerciseRefType {
+  if (exercise.weight) {
+    log.warn(`Load prescription "${exercise.weight}" for exercise ${exercise.exerciseId} has no block equivalent`);
+  }
+  if (exercise.modification) {
+    log.warn(`Modification for exercise ${exercise.exerciseId} is not carried over`);
+  }
+
+  const overrides: NonNullable<ExerciseRefType["overrides"]> = {};
+  if (exercise.workSeconds) overrides.workSec = exercise.workSeconds;
+  const restSec = exercise.restAfterExercise ?? exercise.restSeconds;
+  if (restSec !== undefined) overrides.restSec = restSec;
+  const reps = exercise.reps ?? (exercise.targetReps !== undefined ? String(exercise.targetReps) : undefined);
+  if (reps) overrides.targetReps = reps;
+  if (exercise.notes) overrides.notes = exercise.notes;
+
+  return Object.keys(overrides).length > 0
+    ? { exerciseId: exercise.exerciseId, overrides }
+    : { exerciseId: exercise.exerciseId };
+}
+
+// Timed exercises run once for their duration; rep exercises are grouped by set count
+function exerciseShape(exercise: SeedExercise): string {
+  if (exercise.workSeconds && !exercise.sets) return "time";
+  return `reps:${exercise.sets ?? 1}`;
+}
+
+/**
+ * Straight-set sections can mix timed pieces with different set counts, but
+ * setsPerExercise is block-wide. Consecutive exercises with the same shape
+ * share a block; a change of shape starts a new one.
+ */
+function traditionalSectionToBlocks(section: SeedSection, log: IssueLog): BlockDTOType[] {
+  const groups: SeedExercise[][] = [];
+  const ordered = [...section.exercises].sort((a, b) => a.orderIndex - b.orderIndex);
+  for (const exercise of ordered) {
+    const current = groups[groups.length - 1];
+    if (current && exerciseShape(current[0]) === exerciseShape(exercise)) current.push(exercise);
+    else groups.push([exercise]);
+  }
+
+  if (groups.length > 1) {
+    log.warn(`Section "${section.name}" mixes set counts or timed work; split into ${groups.length} blocks`);
+  }
+
+  return groups.map((group, i) => {
+    const timed = exerciseShape(group[0]) === "time";
+    return {
+      name: groups.length > 1 ? `${section.name} (${i + 1})` : section.name,
+      type: "custom_sequence",
+      params: {
+        type: "custom_sequence",
+        pattern: "straight_sets",
+        mode: timed ? "time" : "reps",
+        setsPerExercise: timed ? 1 : group[0].sets ?? 1,
+        workSec: timed ? group[0].workSeconds! : REP_SET_WORK_SEC,
+        restSec: group[0].restSeconds ?? 0,
+        roundRestSec: 0,
+        transitionSec: 0,
+        awaitReadyBeforeStart: false,
+      },
+      exercises: group.map(exercise => seedExerciseRef(exercise, log)),
+    };
+  });
+}
+
+function circuitSectionToBlock(seed: SeedWorkout, section: SeedSection, log: IssueLog): BlockDTOType {
+  const { template } = seed;
+  const workSec = template.workDuration ?? section.exercises[0]?.workSeconds;
+  if (!workSec) {
+    log.warn(`Circuit "${section.name}" has no work duration; using ${REP_SET_WORK_SEC}s`);
+  }
+
+  return {
+    name: section.name,
+    type: "custom_sequence",
+    params: {
+      type: "custom_sequence",
+      pattern: "circuit",
+      mode: "time",
+      setsPerExercise: section.rounds ?? template.totalRounds ?? 1,
+      workSec: workSec ?? REP_SET_WORK_SEC,
+      restSec: template.restDuration ?? 0,
+      roundRestSec: section.restBetweenRounds ?? 0,
+      transitionSec: 0,
+      awaitReadyBeforeStart: false,
+    },
+    exercises: section.exercises
+      .slice()
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map(exercise => seedExerciseRef(exercise, log)),
+  };
+}
+
+// Seed sectionType → block section, so warm-ups and cool-downs aren't compiled as main work
+function seedSection(section: SeedSection, log: IssueLog): BlockDTOType["section"] {
+  const parsed = WorkoutSection.safeParse(section.sectionType);
+  if (!parsed.success) {
+    log.warn(`Section type "${section.sectionType}" is unknown; "${section.name}" treated as main work`);
+    return "main";
+  }
+  return parsed.data;
+}
+
+function sectionToBlocks(seed: SeedWorkout, section: SeedSection, log: IssueLog): BlockDTOType[] {
+  const blocks = timingSectionToBlocks(seed, section, log);
+  const blockSection = seedSection(section, log);
+  return blocks.map(block => ({ ...block, section: blockSection }));
+}
+
+function timingSectionToBlocks(seed: SeedWorkout, section: SeedSection, log: IssueLog): BlockDTOType[] {
+  if (section.exercises.length === 0) {
+    log.skip(`Section "${section.name}" has no exercises`);
+    return [];
+  }
+
+  const exerciseRefs = () => section.exercises
+    .slice()
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .map(exercise => seedExerciseRef(exercise, log));
+  const minutes = section.duration ?? seed.template.estimatedDuration;
+
+  switch (seed.template.timingStructure) {
+    case "traditional":
+      return traditionalSectionToBlocks(section, log);
+    case "circuit":
+      return [circuitSectionToBlock(seed, section, log)];
+    case "amrap":
+      return [{
+        name: section.name,
+        type: "amrap_loop",
+        params: { type: "amrap_loop", maxDuration: minutes * 60 },
+        exercises: exerciseRefs(),
+      }];
+    case "emom":
+      return [{
+        name: section.name,
+        type: "emom_window",
+        params: { type: "emom_window", minuteMarks: Array.from({ length: minutes }, (_, i) => i) },
+        exercises: exerciseRefs(),
+      }];
+    default:
+      log.skip(`Timing structure "${seed.template.timingStructure}" has no block equivalent; section "${section.name}" dropped`);
+      return [];
+  }
+}
+
+function seedToWorkout(seed: SeedWorkout, log: IssueLog): WorkoutDTOType | null {
+  const blocks = seed.sections
+    .slice()
+    .sort((a, b) => a.orderIndex - b.orderIndex)
+    .flatMap(section => sectionToBlocks(seed, section, log));
+
+  if (blocks.length === 0) {
+    log.skip("No sections could be converted");
+    return null;
+  }
+
+  return { name: seed.template.name, description: seed.template.description, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+interface PlannedConversion {
+  source: ConversionSource;
+  sourceId: number | string;
+  sourceName: string;
+  build: (log: IssueLog) => Promise<WorkoutDTOType | null> | WorkoutDTOType | null;
+  ownerId: string;
+  memberId?: string; // Set when the result becomes a member-owned (private) block workout
+  publish: boolean;
+}
+
+/**
+ * Convert legacy programs into block workouts and report what didn't map.
+ * Items whose name already exists as a block workout for the same owner are
+ * skipped, so the conversion can be re-run safely.
+ */
+export async function convertLegacyWorkouts(options: ConversionOptions): Promise<ConversionReport> {
+  const { userId, includeTemplates = true, dryRun = false, actorId } = options;
+  const report: ConversionReport = { dryRun, results: [], issues: [] };
+  const planned: PlannedConversion[] = [];
+
+  if (userId) {
+    // Block workouts reference users, so unknown legacy owners fall back to the admin
+    const owner = (await storage.getUser(userId)) ? userId : actorId;
+    if (owner !== userId) {
+      report.issues.push({
+        source: "workout",
+        sourceName: userId,
+        severity: "warning",
+        message: `User ${userId} has no account; converted workouts are owned by ${actorId}`,
+      });
+    }
+
+    for (const superSet of await storage.getUserSuperSets(userId)) {
+      planned.push({
+        source: "superset",
+        sourceId: superSet.id,
+        sourceName: superSet.name,
+        build: log => superSetToWorkout(superSet, log),
+        ownerId: owner,
+        memberId: owner === userId ? userId : undefined,
+        publish: false, // Personal programs are not listed publicly
+      });
+    }
+    for (const workout of await storage.getUserWorkouts(userId)) {
+      planned.push({
+        source: "workout",
+        sourceId: workout.id,
+        sourceName: workout.name,
+        build: log => workoutToBlockWorkout(workout, log),
+        ownerId: owner,
+        memberId: owner === userId ? userId : undefined,
+        publish: false,
+      });
+    }
+  }
+
+  if (includeTemplates) {
+    for (const seed of workoutSeeds) {
+      planned.push({
+        source: "template",
+        sourceId: seed.template.name,
+        sourceName: seed.template.name,
+        build: log => seedToWorkout(seed, log),
+        ownerId: actorId,
+        publish: seed.template.isPublic,
+      });
+    }
+  }
+
+  // Updated as items are created (or planned in a dry run) so same-named seeds in one run aren't all converted
+  const existing: Array<{ id?: number; name: string; createdBy: string | null }> = await storage.getAllBlockWorkouts();
+
+  for (const item of planned) {
+    const log = new IssueLog(item.source, item.sourceName);
+    const result: ConversionResult = {
+      source: item.source,
+      sourceId: item.sourceId,
+      sourceName: item.sourceName,
+      status: "skipped",
+    };
+
+    try {
+      const built = await item.build(log);
+      if (!built) {
+        report.results.push(result);
+        continue;
+      }
+
+      const parsed = WorkoutDTO.safeParse(built);
+      if (!parsed.success) {
+        result.status = "failed";
+        result.error = parsed.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ");
+        report.results.push(result);
+        continue;
+      }
+      result.workout = parsed.data;
+
+      const missing = await missingExerciseIds(
+        parsed.data.blocks.flatMap(block => (block.exercises ?? []).map(ex => ex.exerciseId))
+      );
+      if (missing.length > 0) {
+        log.skip(`Exercises not in the catalog: ${missing.join(", ")}`);
+        report.results.push(result);
+        continue;
+      }
+
+      const duplicate = existing.find(w => w.name === parsed.data.name && w.createdBy === item.ownerId);
+      if (duplicate) {
+        log.skip(duplicate.id !== undefined
+          ? `Already converted as block workout ${duplicate.id}`
+          : `Another item in this run is already named "${duplicate.name}"`);
+        result.blockWorkoutId = duplicate.id;
+        report.results.push(result);
+        continue;
+      }
+
+      if (dryRun) {
+        existing.push({ name: parsed.data.name, createdBy: item.ownerId });
+        result.status = "planned";
+        report.results.push(result);
+        continue;
+      }
+
+      const created = await storage.createBlockWorkout({
+        name: parsed.data.name,
+        description: parsed.data.description,
+        blocks: parsed.data.blocks,
+        createdBy: item.ownerId,
+        ownerId: item.memberId,
+        isPublic: item.memberId ? false : undefined,
+      });
+      // createBlockWorkout publishes version 1; staff-owned personal conversions stay unlisted
+      if (!item.memberId && !item.publish) {
+        await storage.togglePublishBlockWorkout(created.id);
+      }
+
+      existing.push(created);
+      result.status = "converted";
+      result.blockWorkoutId = created.id;
+      report.results.push(result);
+    } catch (error) {
+      result.status = "failed";
+      result.error = error instanceof Error ? error.message : String(error);
+      report.results.push(result);
+    } finally {
+      report.issues.push(...log.issues);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,367 @@
+/**
+ * Pairing Weight Learning
+ *
+ * Fits the pairing engine's rule weights to what trainers and members actually
+ * pick. Labelled pairs come from:
+ * - exercise_pairings.trainer_approved = true   → positive
+ * - exercise_pairings.trainer_approved = false  → negative
+ * - super_sets the members saved                → positive
+ * - random other partners for each anchor        → sampled negatives
+ *
+ * Features are the engine's rule strengths (pairingFeatures), the model is a
+ * logistic regression, and the fitted coefficients are rescaled into engine
+ * points. Anchors (exercise A) are split into train and held-out groups so
+ * precision@k measures ranking for exercises the model never saw.
+ *
+ * Each run publishes a new, inactive version; activating one makes it the
+ * default for /api/exercises/:id/recommendations.
+ */
+
+import { db } from "./db";
+import { exercises, exercisePairings, superSets, pairingWeightSets, type Exercise, type PairingWeightSet } from "@shared/schema";
+import { eq, desc, isNull } from "drizzle-orm";
+import {
+  DEFAULT_PAIRING_WEIGHTS,
+  DEFAULT_WEIGHTS_VERSION,
+  isPairingExcluded,
+  MAX_PAIRING_SCORE,
+  pairingFeatures,
+  rankPairings,
+  type PairingWeights,
+} from "@shared/pairing-engine";
+
+export const PRECISION_KS = [1, 3, 5, 10];
+
+const HELD_OUT_BUCKETS = 5;             // 1 in 5 anchors is held out
+const SAMPLED_NEGATIVES_PER_POSITIVE = 4;
+const MIN_POSITIVES = 10;
+
+// Trainer decisions are deliberate; a saved superset or a random non-pick is weaker evidence
+const SOURCE_WEIGHT = {
+  trainer_approved: 2,
+  saved_superset: 1,
+  trainer_rejected: 2,
+  sampled: 1,
+} as const;
+
+type LabelSource = keyof typeof SOURCE_WEIGHT;
+
+export interface LabelledPair {
+  a: Exercise;
+  b: Exercise;
+  label: 0 | 1;
+  source: LabelSource;
+}
+
+export interface TrainOptions {
+  seed?: number;
+  iterations?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+export interface TrainingReport {
+  weights: PairingWeights;
+  metrics: NonNullable<PairingWeightSet["metrics"]>;
+  trainingSummary: NonNullable<PairingWeightSet["trainingSummary"]>;
+}
+
+// Deterministic PRNG (mulberry32) so a training run can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isHeldOut(anchorId: number, seed: number): boolean {
+  return (Math.imul(anchorId ^ seed, 2654435761) >>> 0) % HELD_OUT_BUCKETS === 0;
+}
+
+const pairKey = (aId: number, bId: number) => `${aId}:${bId}`;
+
+/**
+ * Labelled pairs from trainer decisions and saved supersets. A pair with any
+ * positive signal is positive. Every anchor with a positive also gets sampled
+ * negatives from partners nobody picked that the engine would still rank.
+ */
+export function buildLabelledPairs(
+  catalog: Exercise[],
+  signals: {
+    trainerPairs: Array<{ exerciseAId: number; exerciseBId: number; trainerApproved: boolean }>;
+    savedSupersets: Array<{ exerciseAId: number; exerciseBId: number }>;
+  },
+  seed = 1
+): LabelledPair[] {
+  const byId = new Map(catalog.map(exercise => [exercise.id, exercise]));
+  const labelled = new Map<string, LabelledPair>();
+
+  const add = (aId: number, bId: number, label: 0 | 1, source: LabelSource) => {
+    const a = byId.get(aId);
+    const b = byId.get(bId);
+    if (!a || !b || aId === bId) return;
+    const key = pairKey(aId, bId);
+    const existing = labelled.get(key);
+    if (existing && (existing.label === 1 || label === 0)) return;
+    labelled.set(key, { a, b, label, source });
+  };
+
+  for (const pair of signals.trainerPairs) {
+    if (pair.trainerApproved) add(pair.exerciseAId, pair.exerciseBId, 1, "trainer_approved");
+  }
+  for (const superset of signals.savedSupersets) {
+    add(superset.exerciseAId, superset.exerciseBId, 1, "saved_superset");
+  }
+  for (const pair of signals.trainerPairs) {
+    if (!pair.trainerApproved) add(pair.exerciseAId, pair.exerciseBId, 0, "trainer_rejected");
+  }
+
+  const random = createRandom(seed);
+  const positives = Array.from(labelled.values()).filter(pair => pair.label === 1);
+  for (const positive of positives) {
+    for (let attempt = 0, added = 0; added < SAMPLED_NEGATIVES_PER_POSITIVE && attempt < SAMPLED_NEGATIVES_PER_POSITIVE * 5; attempt++) {
+      const candidate = catalog[Math.floor(random() * catalog.length)];
+      if (candidate.id === positive.a.id || labelled.has(pairKey(positive.a.id, candidate.id))) continue;
+      // Excluded pairs never reach a ranking, so they teach the weights nothing
+      if (isPairingExcluded(positive.a, candidate)) continue;
+      add(positive.a.id, candidate.id, 0, "sampled");
+      added++;
+    }
+  }
+
+  return Array.from(labelled.values());
+}
+
+/**
+ * L2-regularised logistic regression by batch gradient descent. Returns one
+ * coefficient per feature plus the bias; the bias is not regularised.
+ */
+export function fitLogisticRegression(
+  rows: Array<{ x: number[]; y: 0 | 1; weight: number }>,
+  options: { iterations?: number; learningRate?: number; l2?: number } = {}
+): { coefficients: number[]; bias: number } {
+  const iterations = options.iterations ?? 2000;
+  const learningRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 0.01;
+  const featureCount = rows[0]?.x.length ?? 0;
+  const totalWeight = rows.reduce((sum, row) => sum + row.weight, 0) || 1;
+
+  const coefficients = new Array<number>(featureCount).fill(0);
+  let bias = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const gradient = new Array<number>(featureCount).fill(0);
+    let biasGradient = 0;
+
+    for (const row of rows) {
+      let z = bias;
+      for (let j = 0; j < featureCount; j++) z += coefficients[j] * row.x[j];
+      const error = (1 / (1 + Math.exp(-z)) - row.y) * row.weight;
+      for (let j = 0; j < featureCount; j++) gradient[j] += error * row.x[j];
+      biasGradient += error;
+    }
+
+    for (let j = 0; j < featureCount; j++) {
+      coefficients[j] -= learningRate * (gradient[j] / totalWeight + l2 * coefficients[j]);
+    }
+    bias -= learningRate * (biasGradient / totalWeight);
+  }
+
+  return { coefficients, bias };
+}
+
+/**
+ * Rescale coefficients into engine points. The engine adds points and caps
+ * at 100, so the positive coefficients are scaled to sum to 100: the ranking
+ * matches the model's and no pair hits the cap.
+ */
+export function coefficientsToWeights(ruleIds: string[], coefficients: number[]): PairingWeights {
+  const positiveSum = coefficients.reduce((sum, c) => sum + Math.max(0, c), 0);
+  const scale = positiveSum > 0 ? MAX_PAIRING_SCORE / positiveSum : 0;
+  const weights: PairingWeights = {};
+  ruleIds.forEach((id, j) => {
+    weights[id] = Math.round(coefficients[j] * scale * 100) / 100;
+  });
+  return weights;
+}
+
+/**
+ * Mean precision@k over anchors: of the top k partners the engine ranks for
+ * an anchor, the fraction that were actually picked.
+ */
+export function precisionAtK(
+  catalog: Exercise[],
+  positivesByAnchor: Map<number, Set<number>>,
+  weights: PairingWeights,
+  ks: number[] = PRECISION_KS
+): Record<number, number> {
+  const byId = new Map(catalog.map(exercise => [exercise.id, exercise]));
+  const totals: Record<number, number> = Object.fromEntries(ks.map(k => [k, 0]));
+  let anchors = 0;
+
+  for (const [anchorId, positives] of Array.from(positivesByAnchor.entries())) {
+    const anchor = byId.get(anchorId);
+    if (!anchor || positives.size === 0) continue;
+    anchors++;
+
+    const ranked = rankPairings(anchor, catalog.filter(exercise => exercise.id !== anchorId), { weights });
+    for (const k of ks) {
+      const hits = ranked.slice(0, k).filter(rec => positives.has(rec.exercise.id)).length;
+      totals[k] += hits / k;
+    }
+  }
+
+  for (const k of ks) {
+    totals[k] = anchors > 0 ? Math.round((totals[k] / anchors) * 1000) / 1000 : 0;
+  }
+  return totals;
+}
+
+/**
+ * Fit weights on the training anchors and evaluate both the built-in and the
+ * learned weights on the held-out anchors. Pure: no database access.
+ */
+export function trainFromPairs(catalog: Exercise[], pairs: LabelledPair[], options: TrainOptions = {}): TrainingReport {
+  const seed = options.seed ?? 1;
+  const ruleIds = Object.keys(DEFAULT_PAIRING_WEIGHTS);
+
+  const train = pairs.filter(pair => !isHeldOut(pair.a.id, seed));
+  const heldOut = pairs.filter(pair => isHeldOut(pair.a.id, seed));
+
+  const trainPositives = train.filter(pair => pair.label === 1).length;
+  if (trainPositives < MIN_POSITIVES) {
+    throw new Error(`Not enough labelled pairs to train: ${trainPositives} positives in the training split (need ${MIN_POSITIVES})`);
+  }
+
+  const rows = train.map(pair => {
+    const features = pairingFeatures(pair.a, pair.b);
+    return { x: ruleIds.map(id => features[id] ?? 0), y: pair.label, weight: SOURCE_WEIGHT[pair.source] };
+  });
+  const { coefficients } = fitLogisticRegression(rows, options);
+  const weights = coefficientsToWeights(ruleIds, coefficients);
+
+  const heldOutPositives = new Map<number, Set<number>>();
+  for (const pair of heldOut) {
+    if (pair.label !== 1) continue;
+    if (!heldOutPositives.has(pair.a.id)) heldOutPositives.set(pair.a.id, new Set());
+    heldOutPositives.get(pair.a.id)!.add(pair.b.id);
+  }
+
+  const baseline = precisionAtK(catalog, heldOutPositives, DEFAULT_PAIRING_WEIGHTS);
+  const learned = precisionAtK(catalog, heldOutPositives, weights);
+
+  const bySource: Record<string, number> = {};
+  for (const pair of train) {
+    bySource[pair.source] = (bySource[pair.source] ?? 0) + 1;
+  }
+
+  return {
+    weights,
+    metrics: {
+      heldOutAnchors: heldOutPositives.size,
+      precisionAtK: PRECISION_KS.map(k => ({ k, baseline: baseline[k], learned: learned[k] })),
+    },
+    trainingSummary: {
+      positives: trainPositives,
+      negatives: train.length - trainPositives,
+      trainAnchors: new Set(train.map(pair => pair.a.id)).size,
+      bySource,
+    },
+  };
+}
+
+async function nextVersion(): Promise<string> {
+  const [latest] = await db.select({ id: pairingWeightSets.id }).from(pairingWeightSets)
+    .orderBy(desc(pairingWeightSets.id))
+    .limit(1);
+  return `lr-v${(latest?.id ?? 0) + 1}`;
+}
+
+/**
+ * Train on everything currently in the database and publish the result as a
+ * new inactive version. Throws when there isn't enough labelled data.
+ */
+export async function trainPairingWeights(createdBy: string | null = null, options: TrainOptions = {}): Promise<PairingWeightSet> {
+  const catalog = await db.select().from(exercises).where(isNull(exercises.removedAt));
+  const trainerPairs = await db.select({
+    exerciseAId: exercisePairings.exerciseAId,
+    exerciseBId: exercisePairings.exerciseBId,
+    trainerApproved: exercisePairings.trainerApproved,
+  }).from(exercisePairings);
+  const savedSupersets = await db.select({
+    exerciseAId: superSets.exerciseAId,
+    exerciseBId: superSets.exerciseBId,
+  }).from(superSets);
+
+  const pairs = buildLabelledPairs(catalog, { trainerPairs, savedSupersets }, options.seed ?? 1);
+  const report = trainFromPairs(catalog, pairs, options);
+
+  const [published] = await db.insert(pairingWeightSets).values({
+    version: await nextVersion(),
+    weights: report.weights,
+    metrics: report.metrics,
+    trainingSummary: report.trainingSummary,
+    createdBy,
+  }).returning();
+
+  console.log(`✅ Trained pairing weights ${published.version} on ${report.trainingSummary.positives} positives`);
+  return published;
+}
+
+export async function getPairingWeightSets(limit = 20): Promise<PairingWeightSet[]> {
+  return db.select().from(pairingWeightSets)
+    .orderBy(desc(pairingWeightSets.createdAt))
+    .limit(limit);
+}
+
+export async function getPairingWeightSet(version: string): Promise<PairingWeightSet | undefined> {
+  const [set] = await db.select().from(pairingWeightSets).where(eq(pairingWeightSets.version, version));
+  return set;
+}
+
+let activeCache: { version: string; weights: PairingWeights } | null = null;
+
+/**
+ * Make a version the default for recommendations. "default" deactivates every
+ * learned set and falls back to the built-in weights.
+ */
+export async function activatePairingWeightSet(version: string): Promise<{ version: string; weights: PairingWeights } | undefined> {
+  if (version !== DEFAULT_WEIGHTS_VERSION && !(await getPairingWeightSet(version))) {
+    return undefined;
+  }
+
+  await db.update(pairingWeightSets).set({ isActive: false }).where(eq(pairingWeightSets.isActive, true));
+  if (version !== DEFAULT_WEIGHTS_VERSION) {
+    await db.update(pairingWeightSets)
+      .set({ isActive: true, activatedAt: new Date() })
+      .where(eq(pairingWeightSets.version, version));
+  }
+
+  activeCache = null;
+  return getActivePairingWeights();
+}
+
+export async function getActivePairingWeights(): Promise<{ version: string; weights: PairingWeights }> {
+  if (!activeCache) {
+    const [active] = await db.select().from(pairingWeightSets).where(eq(pairingWeightSets.isActive, true)).limit(1);
+    activeCache = active
+      ? { version: active.version, weights: active.weights }
+      : { version: DEFAULT_WEIGHTS_VERSION, weights: DEFAULT_PAIRING_WEIGHTS };
+  }
+  return activeCache;
+}
+
+/**
+ * Weights for a request: an explicit version (including "default") or the
+ * active set. Undefined when the requested version doesn't exist.
+ */
+export async function resolvePairingWeights(version?: string): Promise<{ version: string; weights: PairingWeights } | undefined> {
+  if (!version) return getActivePairingWeights();
+  if (version === DEFAULT_WEIGHTS_VERSION) return { version, weights: DEFAULT_PAIRING_WEIGHTS };
+  const set = await getPairingWeightSet(version);
+  return set ? { version: set.version, weights: set.weights } : undefined;
+}
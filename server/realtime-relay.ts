@@ -1,159 +1,300 @@
 import WebSocket from 'ws';
 import { IncomingMessage } from 'http';
-import { searchKnowledge } from './chroma-service';
+import { searchKnowledge, searchKnowledgeForContext, type CoachingRetrievalKey, type KnowledgeResult } from './chroma-service';
+import { storage } from './storage';
+import { getUpgradeUserId } from './replitAuth';
 import type { Exercise, CoachingSession } from '@shared/schema';
+import { normalizeEventType, type TimelineEventType } from '@shared/events';
+import {
+  createVoiceBackend,
+  resolveVoiceBackendName,
+  type VoiceBackend,
+  type VoiceTool,
+  type VoiceToolCall,
+} from './voice-backends';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const REALTIME_API_URL = 'wss://api.openai.com/v1/realtime?model=gpt-4o-realtime-preview-2024-10-01';
+export type RealtimeSessionKind = 'block' | 'workout';
 
 interface RealtimeSession {
-  clientWs: WebSocket;
-  openaiWs: WebSocket | null;
+  key: string;                    // `${kind}:${sessionId}`
+  kind: RealtimeSessionKind;      // block workout session or template workout session
+  userId: string;                 // Owner, verified at the upgrade handshake
+  clientWs: WebSocket | null;     // null while the client is reconnecting
+  backend: VoiceBackend;
   sessionId: number;
   coachingContext?: any; // Dynamic context from client (workout state, template, exercises, etc.)
+  guidanceKey?: string;  // Exercise/set phase the current form guidance was retrieved for
+  guidance?: KnowledgeResult[];
+  graceTimer?: NodeJS.Timeout;
 }
 
+// Dropped sockets (gym Wi-Fi, phone locks) can reconnect within this window and
+// pick up the same coaching context instead of starting over
+const RESUME_GRACE_MS = 60_000;
+
 const activeSessions = new Map<string, RealtimeSession>();
 
+interface RealtimeHandshake {
+  kind: RealtimeSessionKind;
+  sessionId: number;
+  userId: string;
+}
+
+const handshakes = new WeakMap<IncomingMessage, RealtimeHandshake>();
+
+function parseRealtimeUrl(req: IncomingMessage): { kind: RealtimeSessionKind; sessionId: number } | null {
+  const params = new URL(req.url || '', 'http://localhost').searchParams;
+  const sessionId = parseInt(params.get('sessionId') || '');
+  const kind = params.get('kind') || 'block';
+  if (!Number.isInteger(sessionId) || sessionId <= 0 || (kind !== 'block' && kind !== 'workout')) {
+    return null;
+  }
+  return { kind, sessionId };
+}
+
+async function getSessionOwner(kind: RealtimeSessionKind, sessionId: number): Promise<string | undefined> {
+  const session = kind === 'block'
+    ? await storage.getBlockWorkoutSession(sessionId)
+    : await storage.getWorkoutSession(sessionId);
+  return session?.userId;
+}
+
+/**
+ * verifyClient hook for the /realtime WebSocket server: the upgrade is refused
+ * unless the request carries a signed-in session whose user owns the workout session.
+ */
+export function verifyRealtimeClient(
+  info: { req: IncomingMessage },
+  done: (result: boolean, code?: number, message?: string) => void
+) {
+  (async () => {
+    const target = parseRealtimeUrl(info.req);
+    if (!target) return done(false, 400, 'sessionId and kind (block|workout) required');
+
+    const userId = await getUpgradeUserId(info.req);
+    if (!userId) return done(false, 401, 'Unauthorized');
+
+    const ownerId = await getSessionOwner(target.kind, target.sessionId);
+    if (ownerId !== userId) {
+      console.warn(`⚠️ Realtime upgrade refused: ${userId} does not own ${target.kind} session ${target.sessionId}`);
+      return done(false, 403, 'Forbidden');
+    }
+
+    handshakes.set(info.req, { ...target, userId });
+    done(true);
+  })().catch((error) => {
+    console.error('❌ Realtime handshake failed:', error);
+    done(false, 500, 'Handshake failed');
+  });
+}
+
 export function setupRealtimeRelay(wss: WebSocket.Server) {
   wss.on('connection', async (clientWs: WebSocket, req: IncomingMessage) => {
-    console.log('🎙️ Realtime client connected');
-
-    const sessionId = req.url?.split('sessionId=')[1]?.split('&')[0];
-    if (!sessionId) {
-      console.error('❌ No session ID provided');
-      clientWs.close(1008, 'Session ID required');
+    const handshake = handshakes.get(req);
+    if (!handshake) {
+      clientWs.close(1008, 'Unauthorized');
       return;
     }
 
-    const session: RealtimeSession = {
-      clientWs,
-      openaiWs: null,
-      sessionId: parseInt(sessionId),
-    };
+    const key = `${handshake.kind}:${handshake.sessionId}`;
+    const existing = activeSessions.get(key);
 
-    activeSessions.set(sessionId, session);
+    if (existing && existing.userId === handshake.userId) {
+      resumeSession(existing, clientWs);
+      return;
+    }
+
+    console.log('🎙️ Realtime client connected:', key);
 
     try {
-      session.openaiWs = new WebSocket(REALTIME_API_URL, {
-        headers: {
-          'Authorization': `Bearer ${OPENAI_API_KEY}`,
-          'OpenAI-Beta': 'realtime=v1',
-        },
-      });
+      const session: RealtimeSession = {
+        key,
+        kind: handshake.kind,
+        userId: handshake.userId,
+        clientWs,
+        backend: createVoiceBackend(resolveVoiceBackendName()),
+        sessionId: handshake.sessionId,
+      };
 
-      setupOpenAIConnection(session);
-      setupClientConnection(session);
+      activeSessions.set(key, session);
+
+      setupClientConnection(session, clientWs);
+      connectBackend(session);
 
     } catch (error) {
-      console.error('❌ Failed to connect to OpenAI Realtime API:', error);
+      console.error('❌ Failed to connect to voice backend:', error);
       clientWs.send(JSON.stringify({
         type: 'error',
         error: 'Failed to establish realtime connection'
       }));
       clientWs.close();
+      activeSessions.delete(key);
     }
   });
 }
 
-function setupOpenAIConnection(session: RealtimeSession) {
-  const { openaiWs, clientWs } = session;
-  if (!openaiWs) return;
-
-  openaiWs.on('open', async () => {
-    console.log('✅ Connected to OpenAI Realtime API');
-
-    // Build instructions - will include timeline if already loaded
-    const instructions = await buildSessionInstructions(session);
-
-    const sessionConfig = {
-      type: 'session.update',
-      session: {
-        modalities: ['audio', 'text'],
-        instructions,
-        voice: 'alloy',
-        input_audio_format: 'pcm16',
-        output_audio_format: 'pcm16',
-        input_audio_transcription: {
-          model: 'whisper-1'
-        },
-        turn_detection: null, // Disabled - we use event-driven model, HOST controls timing
-        tools: getWorkoutTools(),
-        tool_choice: 'auto',
-        temperature: 0.7,
-      },
-    };
+/**
+ * Attach a reconnecting client to its existing session. The coaching context
+ * and step index are kept server-side; the voice backend is reconnected if it
+ * dropped in the meantime.
+ */
+function resumeSession(session: RealtimeSession, clientWs: WebSocket) {
+  console.log('🔁 Realtime client resumed:', session.key);
+
+  if (session.graceTimer) {
+    clearTimeout(session.graceTimer);
+    session.graceTimer = undefined;
+  }
 
-    openaiWs.send(JSON.stringify(sessionConfig));
-    
-    if (session.coachingContext?.executionTimeline) {
-      console.log('✅ Sent initial session config with workout timeline included:', session.sessionId);
-    } else {
-      console.log('📝 Sent initial session config (no timeline yet):', session.sessionId);
-    }
+  // A second tab or a half-open socket: the newest connection wins
+  const previous = session.clientWs;
+  session.clientWs = clientWs;
+  if (previous && previous.readyState === WebSocket.OPEN) {
+    previous.close(4000, 'Replaced by a newer connection');
+  }
+
+  setupClientConnection(session, clientWs);
 
-    clientWs.send(JSON.stringify({
-      type: 'session.ready',
-      message: 'AI Coach connected'
-    }));
+  if (session.backend.isOpen()) {
+    sendSessionReady(session, true);
+  } else {
+    session.backend = createVoiceBackend(resolveVoiceBackendName());
+    connectBackend(session, true);
+  }
+}
+
+function sendSessionReady(session: RealtimeSession, resumed: boolean) {
+  sendToClient(session, {
+    type: 'session.ready',
+    message: resumed ? 'AI Coach reconnected' : 'AI Coach connected',
+    backend: session.backend.id,
+    resumed,
+    resumeWindowSec: RESUME_GRACE_MS / 1000,
+    restored: resumed ? {
+      currentStepIndex: session.coachingContext?.currentStepIndex ?? null,
+      workoutPhase: session.coachingContext?.workoutPhase ?? null,
+      hasTimeline: !!session.coachingContext?.executionTimeline,
+    } : undefined,
   });
+}
 
-  openaiWs.on('message', (data: WebSocket.Data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      
-      // Debug: log response creation and audio deltas
+function sendToClient(session: RealtimeSession, message: any) {
+  if (session.clientWs && session.clientWs.readyState === WebSocket.OPEN) {
+    session.clientWs.send(JSON.stringify(message));
+  }
+}
+
+// Keep the session (context, step index, backend) for the grace window, then tear it down
+function detachClient(session: RealtimeSession) {
+  session.clientWs = null;
+  if (session.graceTimer) clearTimeout(session.graceTimer);
+
+  session.graceTimer = setTimeout(() => {
+    if (session.clientWs) return;
+    console.log('⌛ Realtime resume window expired:', session.key);
+    endSession(session);
+  }, RESUME_GRACE_MS);
+}
+
+function endSession(session: RealtimeSession) {
+  if (session.graceTimer) clearTimeout(session.graceTimer);
+  if (activeSessions.get(session.key) === session) {
+    activeSessions.delete(session.key);
+  }
+  session.backend.close();
+  session.clientWs?.close();
+}
+
+function connectBackend(session: RealtimeSession, resumed = false) {
+  const { backend } = session;
+
+  backend.connect({
+    onOpen: async () => {
+      console.log(`✅ Connected to voice backend ${backend.id}`);
+
+      // Build instructions - will include timeline if already loaded
+      await refreshGuidance(session);
+      const instructions = await buildSessionInstructions(session);
+      backend.configureSession({ instructions, tools: getWorkoutTools() });
+
+      if (session.coachingContext?.executionTimeline) {
+        console.log('✅ Sent initial session config with workout timeline included:', session.key);
+      } else {
+        console.log('📝 Sent initial session config (no timeline yet):', session.key);
+      }
+
+      sendSessionReady(session, resumed);
+    },
+
+    onEvent: (message) => {
+      // Debug: log response creation and completion
       if (message.type === 'response.created') {
-        console.log('🎯 OpenAI response.created:', {
+        console.log('🎯 Voice response.created:', {
           response_id: message.response?.id,
           modalities: message.response?.modalities,
           output: message.response?.output
         });
       }
-      if (message.type === 'response.audio.delta') {
-        console.log('🔊 Audio delta received (length:', message.delta?.length || 0, ')');
-      }
       if (message.type === 'response.done') {
-        console.log('✅ OpenAI response.done:', {
+        console.log('✅ Voice response.done:', {
           response_id: message.response?.id,
           status: message.response?.status,
           output_count: message.response?.output?.length || 0
         });
       }
-      
-      if (message.type === 'response.function_call_arguments.done') {
-        handleFunctionCall(session, message);
-      }
 
-      if (clientWs.readyState === WebSocket.OPEN) {
-        clientWs.send(data.toString());
-      }
-    } catch (error) {
-      console.error('Error processing OpenAI message:', error);
-    }
-  });
+      sendToClient(session, message);
+    },
 
-  openaiWs.on('error', (error) => {
-    console.error('OpenAI WebSocket error:', error);
-    clientWs.send(JSON.stringify({
-      type: 'error',
-      error: 'Connection error with AI Coach'
-    }));
-  });
+    onToolCall: (call) => {
+      handleFunctionCall(session, call);
+    },
 
-  openaiWs.on('close', () => {
-    console.log('🔌 OpenAI connection closed');
-    if (clientWs.readyState === WebSocket.OPEN) {
-      clientWs.close();
-    }
-    activeSessions.delete(session.sessionId.toString());
+    onError: (error) => {
+      sendToClient(session, { type: 'error', error });
+    },
+
+    onClose: () => {
+      // A replaced backend closing late must not disturb the current one
+      if (session.backend !== backend) return;
+      console.log('🔌 Voice backend connection closed');
+
+      // The client reconnects and gets a fresh backend with the same context
+      const clientWs = session.clientWs;
+      if (clientWs && clientWs.readyState === WebSocket.OPEN) {
+        clientWs.close(1011, 'Voice backend disconnected');
+      }
+    },
   });
 }
 
-function setupClientConnection(session: RealtimeSession) {
-  const { clientWs, openaiWs } = session;
+// Client messages use the Realtime protocol; translate the ones the coach uses
+function forwardClientMessage(backend: VoiceBackend, message: any) {
+  switch (message.type) {
+    case 'input_audio_buffer.append':
+      backend.appendAudio(message.audio);
+      break;
+    case 'input_audio_buffer.commit':
+      backend.commitAudio();
+      break;
+    case 'conversation.item.create': {
+      const text = message.item?.content?.find((part: any) => part.type === 'input_text')?.text;
+      if (message.item?.type === 'message' && typeof text === 'string') {
+        backend.sendText(text);
+      }
+      break;
+    }
+    case 'response.create':
+      backend.createResponse();
+      break;
+    default:
+      console.warn('⚠️ Ignoring unsupported realtime client message:', message.type);
+  }
+}
 
+function setupClientConnection(session: RealtimeSession, clientWs: WebSocket) {
   clientWs.on('message', (data: WebSocket.Data) => {
+    if (session.clientWs !== clientWs) return;
     try {
       const message = JSON.parse(data.toString());
 
@@ -162,20 +303,26 @@ function setupClientConnection(session: RealtimeSession) {
         return;
       }
 
-      if (openaiWs && openaiWs.readyState === WebSocket.OPEN) {
-        openaiWs.send(data.toString());
+      if (session.backend.isOpen()) {
+        forwardClientMessage(session.backend, message);
       }
     } catch (error) {
       console.error('Error processing client message:', error);
     }
   });
 
-  clientWs.on('close', () => {
-    console.log('👋 Client disconnected');
-    if (openaiWs && openaiWs.readyState === WebSocket.OPEN) {
-      openaiWs.close();
+  clientWs.on('close', (code: number) => {
+    if (session.clientWs !== clientWs) return;
+
+    // 1000 is the client's own graceful shutdown (workout finished or left the page)
+    if (code === 1000) {
+      console.log('👋 Client disconnected:', session.key);
+      endSession(session);
+      return;
     }
-    activeSessions.delete(session.sessionId.toString());
+
+    console.log(`📴 Client dropped (code ${code}), holding session for resume:`, session.key);
+    detachClient(session);
   });
 
   clientWs.on('error', (error) => {
@@ -183,13 +330,84 @@ function setupClientConnection(session: RealtimeSession) {
   });
 }
 
+// Timeline step types map onto the event the coach is reacting to
+const STEP_EVENTS: Record<string, string> = {
+  await_ready: 'EV_AWAIT_READY',
+  work: 'EV_WORK_START',
+  rest: 'EV_REST_START',
+  round_rest: 'EV_ROUND_REST_START',
+};
+
+// Guidance is retrieved per phase of a set rather than per event, so halfway/last-10s
+// cues and countdowns inside one work step don't trigger retrieval or a session.update
+type GuidanceBucket = 'work' | 'set_complete' | 'rest';
+
+const BUCKET_EVENTS: Record<GuidanceBucket, TimelineEventType> = {
+  work: 'EV_WORK_START',
+  set_complete: 'EV_WORK_END',
+  rest: 'EV_REST_START',
+};
+
+function guidanceBucketOf(eventType: TimelineEventType | null): GuidanceBucket {
+  switch (eventType) {
+    case 'EV_WORK_END':
+    case 'EV_ROUND_COMPLETE':
+    case 'EV_BLOCK_END':
+    case 'EV_WORKOUT_END':
+      return 'set_complete';
+    case 'EV_REST_START':
+    case 'EV_REST_END':
+    case 'EV_ROUND_REST_START':
+    case 'EV_ROUND_REST_END':
+      return 'rest';
+    default:
+      return 'work';
+  }
+}
+
+function retrievalKeyOf(context: any): CoachingRetrievalKey {
+  const step = context?.currentStep;
+  const rawEvent = context?.eventType || context?.event?.type || (step?.type ? STEP_EVENTS[step.type] : undefined);
+  return {
+    exerciseName: step?.exercise?.name || context?.exercise?.name || context?.currentExercise || undefined,
+    eventType: BUCKET_EVENTS[guidanceBucketOf(rawEvent ? normalizeEventType(rawEvent) : null)],
+    muscleGroup: step?.exercise?.muscleGroup || context?.exercise?.primaryMuscleGroup || undefined,
+  };
+}
+
+/**
+ * Re-retrieve form guidance when the exercise or set phase in focus changes.
+ * Returns true when different chunks came back, so instructions need rebuilding.
+ */
+async function refreshGuidance(session: RealtimeSession): Promise<boolean> {
+  const key = retrievalKeyOf(session.coachingContext);
+  const keyString = JSON.stringify(key);
+  if (keyString === session.guidanceKey) return false;
+  session.guidanceKey = keyString;
+
+  const guidance = key.exerciseName ? await searchKnowledgeForContext(key, 3) : [];
+  const signature = (results: KnowledgeResult[]) =>
+    results.map(r => `${r.metadata.source}#${r.metadata.chunkIndex ?? 0}`).join('|');
+  const changed = signature(guidance) !== signature(session.guidance ?? []);
+  session.guidance = guidance;
+  return changed;
+}
+
 async function buildSessionInstructions(session: RealtimeSession): Promise<string> {
-  const knowledgeContext = await searchKnowledge('coaching philosophy strength training', 3);
+  const knowledgeContext = await searchKnowledge('coaching philosophy strength training', 2, {
+    category: ['Philosophy', 'Training Principle'],
+  });
   
   const knowledgeBase = knowledgeContext.length > 0
     ? `\n\nCOACHING KNOWLEDGE BASE:\n${knowledgeContext.map(k => k.content).join('\n\n')}`
     : '';
 
+  const guidance = (session.guidance ?? []).filter(g => !knowledgeContext.some(k => k.content === g.content));
+  const focusExercise = retrievalKeyOf(session.coachingContext).exerciseName;
+  const guidanceContext = guidance.length > 0
+    ? `\n\nFORM GUIDANCE (${focusExercise}):\n${guidance.map(g => g.content).join('\n\n')}`
+    : '';
+
   // Block workout with executionTimeline
   const executionTimeline = session.coachingContext?.executionTimeline;
   const timelineContext = executionTimeline
@@ -258,7 +476,7 @@ Event Awareness:
 - block_transition: Moving between blocks → announce next block
 - workout_complete: Session ends → SPEAK brief congratulations ("Great work!" or "Nice job today!")
 
-${knowledgeBase}${timelineContext}${workoutTemplateContext}${currentState}${currentStepContext}${exerciseContext}
+${knowledgeBase}${guidanceContext}${timelineContext}${workoutTemplateContext}${currentState}${currentStepContext}${exerciseContext}
 
 Behavior Rules:
 - NEVER control workout flow - the host manages all timers
@@ -274,7 +492,7 @@ Communication Tone:
 - Be encouraging without being cheesy
 
 Tools you can use:
-- get_user_profile({ user_id }) - fetch user data for personalization
+- get_user_profile({ user_id }) - fetch goals, preferred units and estimated 1RMs; base load suggestions on these
 - record_set({ exercise_id, set_index, weight, reps, rpe? }) - log performance after each set
 Use tools only when needed to personalize coaching or record data.
 
@@ -307,28 +525,23 @@ async function updateSessionContext(session: RealtimeSession, context: any) {
   
   // Only send session.update for MAJOR changes:
   // 1. Workout timeline is loaded for the first time (workout start)
-  // 2. NOT for step transitions (isAwaitingReady, currentStepIndex changes)
-  if (isMajorUpdate && session.openaiWs && session.openaiWs.readyState === WebSocket.OPEN) {
+  // 2. Form guidance retrieved for a new exercise/set phase differs from what the coach has
+  // 3. NOT for other step transitions (isAwaitingReady, currentStepIndex changes)
+  const guidanceChanged = await refreshGuidance(session);
+  if ((isMajorUpdate || guidanceChanged) && session.backend.isOpen()) {
     const updatedInstructions = await buildSessionInstructions(session);
-    
-    session.openaiWs.send(JSON.stringify({
-      type: 'session.update',
-      session: {
-        instructions: updatedInstructions,
-      },
-    }));
-    console.log('✅ Updated AI instructions with workout timeline:', session.sessionId);
+    session.backend.updateInstructions(updatedInstructions);
+    console.log(`✅ Updated AI instructions with ${isMajorUpdate ? 'workout timeline' : 'new form guidance'}:`, session.sessionId);
   } else {
     console.log('📝 Updated session context (no instruction rebuild):', session.sessionId);
   }
 }
 
-function getWorkoutTools() {
+function getWorkoutTools(): VoiceTool[] {
   // AI is an observer/responder only - no workflow control functions
   // Host controls all timing and flow
   return [
     {
-      type: 'function',
       name: 'record_set',
       description: 'Record performance data for a completed set (weight, reps, RPE)',
       parameters: {
@@ -336,7 +549,7 @@ function getWorkoutTools() {
         properties: {
           exercise_id: {
             type: 'string',
-            description: 'Exercise identifier',
+            description: 'Exercise ID from the workout timeline (exercise name is accepted as a fallback)',
           },
           set_index: {
             type: 'number',
@@ -344,7 +557,7 @@ function getWorkoutTools() {
           },
           weight: {
             type: 'number',
-            description: 'Weight used in pounds or kg',
+            description: "Weight used, in the user's preferred units (see get_user_profile)",
           },
           reps: {
             type: 'number',
@@ -359,7 +572,6 @@ function getWorkoutTools() {
       },
     },
     {
-      type: 'function',
       name: 'get_user_profile',
       description: 'Get user profile data including goals, training history, and estimated 1RMs',
       parameters: {
@@ -376,73 +588,137 @@ function getWorkoutTools() {
   ];
 }
 
-async function handleFunctionCall(session: RealtimeSession, message: any) {
-  const { name, call_id, arguments: argsStr } = message;
-  const args = argsStr ? JSON.parse(argsStr) : {};
-  console.log(`🔧 Function called: ${name}`, args);
-
+async function handleFunctionCall(session: RealtimeSession, call: VoiceToolCall) {
+  const { name, callId } = call;
+  let args: any = {};
   let result: any = { success: false, error: 'Unknown function' };
 
   try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+    console.log(`🔧 Function called: ${name}`, args);
+
     if (name === 'record_set') {
-      // Store set performance data
-      // TODO: Save to database - for now just log and acknowledge
       console.log('📊 Recording set:', args);
-      
+      const saved = await recordSet(session, args);
+
       // Forward to client for potential local storage/UI update
-      if (session.clientWs.readyState === WebSocket.OPEN) {
-        session.clientWs.send(JSON.stringify({
-          type: 'set_recorded',
-          data: args,
-        }));
-      }
+      sendToClient(session, {
+        type: 'set_recorded',
+        data: saved ? { ...args, exercise_id: saved.exerciseId, logId: saved.id } : args,
+      });
       
       result = { 
         success: true, 
-        message: `Logged ${args.weight} lbs × ${args.reps} reps` 
+        message: `Logged ${args.weight} ${saved?.loadUnit ?? 'lbs'} × ${args.reps} reps` 
       };
     }
     
     else if (name === 'get_user_profile') {
-      // Fetch user profile data
-      // TODO: Get from database - for now return mock data
-      result = {
-        user_id: args.user_id || 'guest',
-        goals: ['strength', 'hypertrophy'],
-        training_history: {
-          bench_1RM_est: 225,
-          squat_1RM_est: 315,
-          deadlift_1RM_est: 405,
-        },
-        preferences: {
-          coaching_style: 'minimal',
-          voice_enabled: true,
-        },
-      };
+      result = await getUserProfile(session);
     }
   } catch (error) {
     console.error('Function call error:', error);
     result = { success: false, error: String(error) };
   }
 
-  // Return result to OpenAI
-  if (session.openaiWs && session.openaiWs.readyState === WebSocket.OPEN) {
-    session.openaiWs.send(JSON.stringify({
-      type: 'conversation.item.create',
-      item: {
-        type: 'function_call_output',
-        call_id,
-        output: JSON.stringify(result),
-      },
-    }));
+  // Return result to the voice backend
+  if (session.backend.isOpen()) {
+    session.backend.sendToolResult(callId, result);
+  }
+}
+
+/**
+ * Training profile for the user who owns this session. The user_id argument from
+ * the model is ignored - the session owner is the only profile the coach may read.
+ */
+async function getUserProfile(session: RealtimeSession) {
+  const profile = await storage.getTrainingProfile(session.userId);
+  return {
+    user_id: profile.userId,
+    goals: profile.goals,
+    training_history: {
+      formula: profile.oneRepMaxFormula,
+      estimated_1rms: Object.entries(profile.estimatedOneRepMaxes).map(([exerciseId, e]) => ({
+        exercise_id: exerciseId,
+        exercise: e.exerciseName,
+        one_rep_max: e.oneRepMax,
+        from_set: `${e.weight} × ${e.reps}`,
+      })),
+    },
+    preferences: {
+      coaching_style: profile.coachingStyle,
+      units: profile.preferredUnits,
+    },
+  };
+}
+
+/**
+ * Persist a record_set call against the block workout session.
+ * Legacy template sessions (no execution timeline) are acknowledged but not stored,
+ * since their session IDs live in a different table.
+ */
+async function recordSet(session: RealtimeSession, args: any) {
+  const timeline = session.coachingContext?.executionTimeline;
+  if (session.kind !== 'block' || !timeline) return null;
+
+  const blockSession = await storage.getBlockWorkoutSession(session.sessionId);
+  if (!blockSession || !['active', 'paused'].includes(blockSession.status)) {
+    throw new Error('No active block workout session to record against');
+  }
+
+  const steps = blockSession.executionTimelineSnapshot?.executionTimeline || timeline.executionTimeline || [];
+  const exerciseId = resolveExerciseId(steps, args.exercise_id, session.coachingContext?.currentStep);
+  if (exerciseId === null) {
+    throw new Error(`Unknown exercise "${args.exercise_id}" for this workout`);
   }
+
+  const setIndex = Math.round(Number(args.set_index));
+  const reps = Math.round(Number(args.reps));
+  const weight = Number(args.weight);
+  if (!Number.isFinite(setIndex) || setIndex < 1) throw new Error('set_index must be 1 or greater');
+  if (!Number.isFinite(reps) || reps < 0) throw new Error('reps must be a non-negative number');
+  if (!Number.isFinite(weight) || weight < 0) throw new Error('weight must be a non-negative number');
+  const rpe = args.rpe === undefined || args.rpe === null ? null : Number(args.rpe);
+
+  const profile = await storage.getTrainingProfile(blockSession.userId);
+
+  return storage.recordBlockSet({
+    blockWorkoutSessionId: blockSession.id,
+    exerciseId,
+    setIndex,
+    reps,
+    weight,
+    loadUnit: profile.preferredUnits === 'kg' ? 'kg' : 'lbs',
+    rpe: rpe !== null && Number.isFinite(rpe) ? Math.min(10, Math.max(1, rpe)) : null,
+    source: 'voice',
+  });
+}
+
+// The model may pass the numeric ID or the exercise name; fall back to the current step's exercise
+function resolveExerciseId(steps: any[], raw: unknown, currentStep?: any): number | null {
+  const known = new Map<number, string>();
+  steps.forEach((step) => {
+    if (step.exercise?.id !== undefined) known.set(Number(step.exercise.id), step.exercise.name || '');
+    step.exercises?.forEach((ex: any) => known.set(Number(ex.id), ex.name || ''));
+  });
+
+  const asNumber = Number(raw);
+  if (raw !== undefined && raw !== '' && known.has(asNumber)) return asNumber;
+
+  const name = String(raw ?? '').trim().toLowerCase();
+  if (name) {
+    for (const [id, exName] of Array.from(known.entries())) {
+      if (exName.toLowerCase() === name) return id;
+    }
+  }
+
+  const currentId = Number(currentStep?.exercise?.id);
+  return known.has(currentId) ? currentId : null;
 }
 
-export function closeSession(sessionId: string) {
-  const session = activeSessions.get(sessionId);
+export function closeSession(kind: RealtimeSessionKind, sessionId: number) {
+  const session = activeSessions.get(`${kind}:${sessionId}`);
   if (session) {
-    session.openaiWs?.close();
-    session.clientWs?.close();
-    activeSessions.delete(sessionId);
+    endSession(session);
   }
 }
@@ -4,6 +4,7 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import MemoryStore from "memorystore";
@@ -23,6 +24,9 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+// Shared with the realtime WebSocket handshake, which has no Express pipeline
+let sessionMiddleware: RequestHandler | null = null;
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   
@@ -72,7 +76,7 @@ async function upsertUser(
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", true); // Trust all proxies for Replit
-  const sessionMiddleware = getSession();
+  sessionMiddleware = getSession();
   app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
@@ -232,7 +236,51 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
   }
 };
 
-export const isAdmin: RequestHandler = async (req, res, next) => {
+/**
+ * User ID behind a WebSocket upgrade request, read from the same Express
+ * session as HTTP requests. Same rules as isAuthenticated, including
+ * development guests and token refresh; null when not signed in.
+ */
+export async function getUpgradeUserId(req: IncomingMessage): Promise<string | null> {
+  if (!sessionMiddleware) return null;
+
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware!(req as any, {} as any, (err?: any) => (err ? reject(err) : resolve()));
+  });
+
+  const sessionData = (req as any).session;
+  if (process.env.NODE_ENV === 'development' && sessionData?.userId?.startsWith('guest-user-')) {
+    return sessionData.userId;
+  }
+
+  const user = sessionData?.passport?.user;
+  if (!user?.expires_at) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now > user.expires_at) {
+    if (!user.refresh_token) return null;
+    try {
+      const config = await getOidcConfig();
+      const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+      updateUserSession(user, tokenResponse);
+      sessionData.save?.();
+    } catch (error) {
+      return null;
+    }
+  }
+
+  return user.claims?.sub ?? null;
+}
+
+type Role = 'admin' | 'moderator';
+
+// Admins can do everything moderators can
+function hasRole(user: { isAdmin: boolean; isModerator: boolean } | undefined, role: Role): boolean {
+  if (!user) return false;
+  return role === 'admin' ? user.isAdmin : user.isAdmin || user.isModerator;
+}
+
+const requireRole = (role: Role): RequestHandler => async (req, res, next) => {
   // TEMPORARY: Bypass auth in development for testing
   if (process.env.NODE_ENV === 'development') {
     const devUserId = 'dev-admin-user';
@@ -286,18 +334,22 @@ export const isAdmin: RequestHandler = async (req, res, next) => {
     }
   }
 
-  // Check admin status from database
+  // Check role from database
   try {
     const userId = user.claims.sub;
     const dbUser = await storage.getUser(userId);
     
-    if (!dbUser?.isAdmin) {
-      return res.status(403).json({ message: "Forbidden - Admin access required" });
+    if (!hasRole(dbUser, role)) {
+      const roleName = role === 'admin' ? 'Admin' : 'Moderator';
+      return res.status(403).json({ message: `Forbidden - ${roleName} access required` });
     }
     
     return next();
   } catch (error) {
-    console.error("Admin check error:", error);
+    console.error(`${role} check error:`, error);
     return res.status(500).json({ message: "Internal server error" });
   }
-};
\ No newline at end of file
+};
+
+export const isAdmin = requireRole('admin');
+export const isModerator = requireRole('moderator');
\ No newline at end of file
@@ -2,7 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import { setupAuth, isAuthenticated, isAdmin, isModerator } from "./replitAuth";
 import { 
   insertContributionSchema, 
   insertSuperSetSchema, 
@@ -13,9 +13,24 @@ import {
   type CoachingSession
 } from "@shared/schema";
 import { z } from "zod";
-import { isTrainerApprovedPair } from "./trainer-pairs";
+import { rankPairings, rankGroupings } from "@shared/pairing-engine";
 import { langchainCoach } from "./langchain-coach";
-import { setupRealtimeRelay } from "./realtime-relay";
+import { setupRealtimeRelay, verifyRealtimeClient } from "./realtime-relay";
+import { syncExerciseCatalog, getExerciseSyncRuns, getExerciseSyncRun } from "./exercise-sync";
+import {
+  trainPairingWeights,
+  getPairingWeightSets,
+  activatePairingWeightSet,
+  getActivePairingWeights,
+  resolvePairingWeights,
+} from "./pairing-weights";
+import { startDatasetExport, getDatasetExportJobs, getDatasetExportJob } from "./dataset-export";
+import { EVENT_SCHEMA_VERSION, normalizeEventType } from "@shared/events";
+import { isValidAITrainingEquipment } from "@shared/ai-equipment-catalog";
+import { createEquipmentFilter, missingEquipment, equipmentFromDetections } from "@shared/gym-equipment";
+import { rankSubstitutes } from "./exercise-substitution";
+import type { WorkoutDTOType } from "@shared/dto";
+import type { ExecutionTimeline } from "@shared/timeline";
 
 // LangChain LLM Coaching Integration
 async function generateCoachingResponse(
@@ -114,6 +129,109 @@ function generateRuleBasedCoachingResponse(
   return encouragingResponses[Math.floor(Math.random() * encouragingResponses.length)];
 }
 
+// Resolve a block workout session owned by the caller (authenticated or guest).
+// Sends the error response and returns null when missing or not owned.
+async function getOwnedBlockSession(req: any, res: any) {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: "Invalid session ID" });
+    return null;
+  }
+
+  const session = await storage.getBlockWorkoutSession(id);
+  const ownerId = req.user?.claims?.sub || req.session?.userId;
+  if (!session || session.userId !== ownerId) {
+    res.status(404).json({ message: "Session not found" });
+    return null;
+  }
+
+  return session;
+}
+
+// Member-built block workouts marked private are only visible to their owner.
+function canViewBlockWorkout(workout: { ownerId: string | null; isPublic: boolean }, userId?: string): boolean {
+  return !workout.ownerId || workout.isPublic || workout.ownerId === userId;
+}
+
+// Resolve a member-built block workout owned by the caller.
+// Sends the error response and returns null when missing or not owned.
+async function getOwnedBlockWorkout(req: any, res: any) {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: "Invalid workout ID" });
+    return null;
+  }
+
+  const workout = await storage.getBlockWorkout(id);
+  if (!workout || workout.ownerId !== req.user.claims.sub) {
+    res.status(404).json({ message: "Workout not found" });
+    return null;
+  }
+
+  return workout;
+}
+
+// Resolve a gym profile owned by the caller.
+// Sends the error response and returns null when missing or not owned.
+async function getOwnedGymProfile(req: any, res: any) {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: "Invalid gym profile ID" });
+    return null;
+  }
+
+  const gym = await storage.getGymProfile(id);
+  if (!gym || gym.userId !== req.user.claims.sub) {
+    res.status(404).json({ message: "Gym profile not found" });
+    return null;
+  }
+
+  return gym;
+}
+
+// Equipment filter for a request: the given gym (which must be the caller's) or
+// the caller's selected gym. Sends 404 and returns null for a gym they don't
+// own; returns undefined when no gym applies.
+async function resolveGymFilter(req: any, res: any, gymId?: unknown) {
+  const userId = req.user?.claims?.sub || req.session?.userId;
+
+  if (gymId !== undefined && gymId !== null && gymId !== "") {
+    const id = Number(gymId);
+    const gym = Number.isInteger(id) ? await storage.getGymProfile(id) : undefined;
+    if (!gym || gym.userId !== userId) {
+      res.status(404).json({ message: "Gym profile not found" });
+      return null;
+    }
+    return { gym, isAvailable: createEquipmentFilter(gym.equipment) };
+  }
+
+  if (!userId) return undefined;
+  const gym = await storage.getSelectedGymProfile(userId);
+  return gym ? { gym, isAvailable: createEquipmentFilter(gym.equipment) } : undefined;
+}
+
+// Create a member workout through the same path as staff workouts (compiled and
+// published as version 1), then drop it again if the compiled timeline is invalid.
+async function createMemberBlockWorkout(userId: string, data: WorkoutDTOType, visibility: "private" | "public") {
+  const workout = await storage.createBlockWorkout({
+    name: data.name,
+    description: data.description,
+    blocks: data.blocks,
+    createdBy: userId,
+    ownerId: userId,
+    isPublic: visibility === "public",
+  });
+
+  const { validateTimeline } = await import("./timeline-compiler");
+  const validation = validateTimeline(workout.executionTimeline as ExecutionTimeline);
+  if (!validation.valid) {
+    await storage.deleteBlockWorkout(workout.id);
+    return { errors: validation.errors };
+  }
+
+  return { workout };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Replit Auth
   await setupAuth(app);
@@ -130,6 +248,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Training profile (goals, coaching style, units, estimated 1RMs)
+  app.get('/api/profile/training', isAuthenticated, async (req: any, res) => {
+    try {
+      const profile = await storage.getTrainingProfile(req.user.claims.sub);
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching training profile:", error);
+      res.status(500).json({ message: "Failed to fetch training profile" });
+    }
+  });
+
+  app.put('/api/profile/training', isAuthenticated, async (req: any, res) => {
+    try {
+      const { TrainingProfileDTO } = await import("@shared/dto");
+      const result = TrainingProfileDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid training profile",
+          errors: result.error.errors
+        });
+      }
+
+      const profile = await storage.updateTrainingProfile(req.user.claims.sub, result.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Error updating training profile:", error);
+      res.status(500).json({ message: "Failed to update training profile" });
+    }
+  });
+
+  // Gym profiles: equipment inventories that narrow recommendations
+  app.get('/api/gym-profiles', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const [gyms, profile] = await Promise.all([
+        storage.getGymProfiles(userId),
+        storage.getTrainingProfile(userId),
+      ]);
+      res.json({ gyms, selectedGymProfileId: profile.selectedGymProfileId });
+    } catch (error) {
+      console.error("Error fetching gym profiles:", error);
+      res.status(500).json({ message: "Failed to fetch gym profiles" });
+    }
+  });
+
+  app.post('/api/gym-profiles', isAuthenticated, async (req: any, res) => {
+    try {
+      const { GymProfileDTO } = await import("@shared/dto");
+      const result = GymProfileDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid gym profile",
+          errors: result.error.errors
+        });
+      }
+
+      const gym = await storage.createGymProfile({
+        ...result.data,
+        userId: req.user.claims.sub,
+        source: "manual",
+      });
+      res.status(201).json(gym);
+    } catch (error) {
+      console.error("Error creating gym profile:", error);
+      res.status(500).json({ message: "Failed to create gym profile" });
+    }
+  });
+
+  // Seed a gym profile from a gym-mapping scan; unmatched labels are kept for manual editing
+  app.post('/api/gym-profiles/from-mapping', isAuthenticated, async (req: any, res) => {
+    try {
+      const { GymMappingSeedDTO } = await import("@shared/dto");
+      const result = GymMappingSeedDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid gym mapping",
+          errors: result.error.errors
+        });
+      }
+
+      const { getActiveEquipmentNames } = await import("../shared/equipment-catalog");
+      const catalogNames = getActiveEquipmentNames();
+      const { name, address, location, detections, zones, minConfidence } = result.data;
+      const labels = detections
+        .filter(detection => (detection.confidence ?? 1) >= minConfidence)
+        .map(detection => detection.name);
+      const { equipment, unmatched } = equipmentFromDetections(labels, catalogNames);
+
+      const gym = await storage.createGymProfile({
+        userId: req.user.claims.sub,
+        name,
+        address,
+        location,
+        equipment,
+        zones: zones.map(zone => ({
+          ...zone,
+          equipment: equipmentFromDetections(zone.equipment, catalogNames).equipment,
+        })),
+        source: "gym_mapping",
+        unmatchedDetections: unmatched,
+      });
+      res.status(201).json(gym);
+    } catch (error) {
+      console.error("Error seeding gym profile from mapping:", error);
+      res.status(500).json({ message: "Failed to create gym profile" });
+    }
+  });
+
+  // Stop filtering by gym (before :id routes)
+  app.delete('/api/gym-profiles/selection', isAuthenticated, async (req: any, res) => {
+    try {
+      const profile = await storage.updateTrainingProfile(req.user.claims.sub, { selectedGymProfileId: null });
+      res.json({ selectedGymProfileId: profile.selectedGymProfileId });
+    } catch (error) {
+      console.error("Error clearing gym selection:", error);
+      res.status(500).json({ message: "Failed to clear gym selection" });
+    }
+  });
+
+  app.put('/api/gym-profiles/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const gym = await getOwnedGymProfile(req, res);
+      if (!gym) return;
+
+      const { GymProfileDTO } = await import("@shared/dto");
+      const result = GymProfileDTO.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid gym profile",
+          errors: result.error.errors
+        });
+      }
+
+      // Editing the inventory by hand settles any detections that didn't match the catalog
+      const updates = result.data.equipment ? { ...result.data, unmatchedDetections: [] } : result.data;
+      res.json(await storage.updateGymProfile(gym.id, updates));
+    } catch (error) {
+      console.error("Error updating gym profile:", error);
+      res.status(500).json({ message: "Failed to update gym profile" });
+    }
+  });
+
+  app.delete('/api/gym-profiles/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const gym = await getOwnedGymProfile(req, res);
+      if (!gym) return;
+
+      await storage.deleteGymProfile(gym.id);
+      res.json({ message: "Gym profile deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting gym profile:", error);
+      res.status(500).json({ message: "Failed to delete gym profile" });
+    }
+  });
+
+  // Select the gym recommendations, previews and generated sections are filtered by
+  app.put('/api/gym-profiles/:id/select', isAuthenticated, async (req: any, res) => {
+    try {
+      const gym = await getOwnedGymProfile(req, res);
+      if (!gym) return;
+
+      const profile = await storage.updateTrainingProfile(req.user.claims.sub, { selectedGymProfileId: gym.id });
+      res.json({ selectedGymProfileId: profile.selectedGymProfileId });
+    } catch (error) {
+      console.error("Error selecting gym profile:", error);
+      res.status(500).json({ message: "Failed to select gym profile" });
+    }
+  });
+
   // Admin check endpoint
   // TEMPORARY: Bypass auth for development testing
   app.get('/api/auth/is-admin', async (req: any, res) => {
@@ -153,6 +441,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Moderator check endpoint; admins are moderators too
+  app.get('/api/auth/is-moderator', async (req: any, res) => {
+    if (process.env.NODE_ENV === 'development') {
+      return res.json({ isModerator: true });
+    }
+
+    if (!req.isAuthenticated || !req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      res.json({ isModerator: !!(user?.isAdmin || user?.isModerator) });
+    } catch (error) {
+      console.error("Error checking moderator status:", error);
+      res.status(500).json({ message: "Failed to check moderator status" });
+    }
+  });
+
+  // Admin: Grant or revoke the moderator role (PROTECTED)
+  app.put('/api/admin/users/:id/moderator', isAdmin, async (req, res) => {
+    try {
+      const { isModerator: grant } = req.body;
+      if (typeof grant !== 'boolean') {
+        return res.status(400).json({ message: "isModerator must be a boolean" });
+      }
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.setUserModeratorStatus(user.id, grant);
+      res.json({ id: user.id, isModerator: grant });
+    } catch (error) {
+      console.error("Error updating moderator status:", error);
+      res.status(500).json({ message: "Failed to update moderator status" });
+    }
+  });
+
   // Test admin endpoint (protected by isAdmin middleware)
   app.get('/api/admin/test', isAdmin, async (req: any, res) => {
     res.json({ 
@@ -197,9 +525,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         createdBy: userId
       });
 
-      // Audit logging
-      const { logAdminAction } = await import("./admin-audit");
-      await logAdminAction(userId, "create", "workout", workout.id, null, { name, description });
+      // Audit logging (full snapshot so the workout can be restored later)
+      const { logAdminAction, snapshotBlockWorkout } = await import("./admin-audit");
+      await logAdminAction(userId, "create", "workout", workout.id, null, await snapshotBlockWorkout(workout.id));
 
       res.status(201).json({
         id: workout.id,
@@ -228,15 +556,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Public: Get specific block workout with timeline
-  app.get('/api/block-workouts/:id', async (req, res) => {
+  app.get('/api/block-workouts/:id', async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid workout ID" });
       }
       
-      const workout = await storage.getBlockWorkout(id);
-      if (!workout) {
+      const workout = await storage.getPublishedBlockWorkout(id);
+      if (!workout || !canViewBlockWorkout(workout, req.user?.claims?.sub || req.session?.userId)) {
         return res.status(404).json({ message: "Workout not found" });
       }
       
@@ -247,6 +575,202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Member: List my block workouts (private and public)
+  app.get('/api/user-block-workouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const workouts = await storage.getUserBlockWorkouts(req.user.claims.sub);
+      res.json(workouts);
+    } catch (error) {
+      console.error("Error fetching user block workouts:", error);
+      res.status(500).json({ message: "Failed to fetch workouts" });
+    }
+  });
+
+  // Member: Build a block workout from scratch
+  app.post('/api/user-block-workouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { UserBlockWorkoutDTO } = await import("@shared/dto");
+      const result = UserBlockWorkoutDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid workout data",
+          errors: result.error.errors
+        });
+      }
+
+      const { visibility, ...data } = result.data;
+      const created = await createMemberBlockWorkout(userId, data, visibility);
+      if (!created.workout) {
+        return res.status(400).json({
+          message: "Compiled timeline validation failed",
+          errors: created.errors
+        });
+      }
+
+      res.status(201).json(created.workout);
+    } catch (error) {
+      console.error("Error creating user block workout:", error);
+      res.status(500).json({ 
+        message: "Failed to create workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Member: Save a /api/recommendations/preview-block pairing as a block workout
+  app.post('/api/user-block-workouts/from-preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const { PreviewBlockWorkoutDTO, WorkoutDTO } = await import("@shared/dto");
+      const result = PreviewBlockWorkoutDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid preview data",
+          errors: result.error.errors
+        });
+      }
+
+      const { exerciseAId, exerciseBId, params, visibility } = result.data;
+      const [exerciseA, exerciseB] = await Promise.all([
+        storage.getExercise(exerciseAId),
+        storage.getExercise(exerciseBId)
+      ]);
+      if (!exerciseA || !exerciseB) {
+        return res.status(404).json({ message: "One or both exercises not found" });
+      }
+
+      const blockName = `${exerciseA.name} + ${exerciseB.name} Superset`;
+      const workout = WorkoutDTO.parse({
+        name: result.data.name ?? blockName,
+        description: `Superset pairing: ${exerciseA.name} with ${exerciseB.name}`,
+        blocks: [{
+          name: blockName,
+          type: "custom_sequence",
+          params: {
+            type: "custom_sequence",
+            pattern: "superset",
+            mode: "time",
+            ...params,
+          },
+          exercises: [{ exerciseId: exerciseA.id }, { exerciseId: exerciseB.id }],
+        }],
+      });
+
+      const created = await createMemberBlockWorkout(userId, workout, visibility);
+      if (!created.workout) {
+        return res.status(400).json({
+          message: "Compiled timeline validation failed",
+          errors: created.errors
+        });
+      }
+
+      res.status(201).json(created.workout);
+    } catch (error) {
+      console.error("Error saving preview block workout:", error);
+      res.status(500).json({ 
+        message: "Failed to save workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Member: Get my workout with blocks for editing
+  app.get('/api/user-block-workouts/:id/edit', isAuthenticated, async (req: any, res) => {
+    try {
+      const owned = await getOwnedBlockWorkout(req, res);
+      if (!owned) return;
+
+      res.json(await storage.getBlockWorkoutWithBlocks(owned.id));
+    } catch (error) {
+      console.error("Error fetching user block workout for editing:", error);
+      res.status(500).json({ message: "Failed to fetch workout" });
+    }
+  });
+
+  // Member: Update my workout. Members have no staff publish step, so a valid
+  // edit is compiled and published as the next version straight away.
+  app.patch('/api/user-block-workouts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const owned = await getOwnedBlockWorkout(req, res);
+      if (!owned) return;
+      const userId = req.user.claims.sub;
+
+      const { UserBlockWorkoutDTO } = await import("@shared/dto");
+      const result = UserBlockWorkoutDTO.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid workout data",
+          errors: result.error.errors
+        });
+      }
+
+      const { visibility, name, description, blocks } = result.data;
+      if (visibility) {
+        await storage.setBlockWorkoutVisibility(owned.id, visibility === "public");
+      }
+
+      if (name !== undefined || description !== undefined || blocks !== undefined) {
+        await storage.updateBlockWorkout(owned.id, {
+          name,
+          description,
+          blocks
+        });
+
+        const workoutData = await storage.getBlockWorkoutWithBlocks(owned.id);
+        const { compileWorkoutTimeline, validateTimeline } = await import("./timeline-compiler");
+        const compiledTimeline = await compileWorkoutTimeline(workoutData.blocks, workoutData.name);
+        const validation = validateTimeline(compiledTimeline);
+        if (!validation.valid) {
+          return res.status(400).json({
+            message: "Compiled timeline validation failed; the previous version stays live",
+            errors: validation.errors
+          });
+        }
+        await storage.publishBlockWorkout(owned.id, userId, compiledTimeline);
+      }
+
+      res.json(await storage.getPublishedBlockWorkout(owned.id));
+    } catch (error) {
+      console.error("Error updating user block workout:", error);
+      res.status(500).json({ 
+        message: "Failed to update workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Member: Delete my workout
+  app.delete('/api/user-block-workouts/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const owned = await getOwnedBlockWorkout(req, res);
+      if (!owned) return;
+
+      // Other members have trained with it: their sessions and set logs must
+      // survive, so take it out of the public list instead of deleting it
+      if (await storage.hasOtherUsersBlockSessions(owned.id, owned.ownerId!)) {
+        const workout = owned.isPublic ? await storage.setBlockWorkoutVisibility(owned.id, false) : owned;
+        return res.json({
+          deleted: false,
+          madePrivate: true,
+          message: "Other members have trained with this workout, so it was made private instead of deleted",
+          workout
+        });
+      }
+
+      await storage.deleteBlockWorkout(owned.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting user block workout:", error);
+      res.status(500).json({ 
+        message: "Failed to delete workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Admin: Get all block workouts including unpublished (PROTECTED)
   app.get('/api/admin/block-workouts', isAdmin, async (req, res) => {
     try {
@@ -289,7 +813,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
 
       // Fetch current state (for audit before)
-      const before = await storage.getBlockWorkout(id);
+      const { logAdminAction, snapshotBlockWorkout } = await import("./admin-audit");
+      const before = await snapshotBlockWorkout(id);
       if (!before) {
         return res.status(404).json({ message: "Workout not found" });
       }
@@ -314,15 +839,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Audit logging
-      const { logAdminAction } = await import("./admin-audit");
-      await logAdminAction(
-        userId,
-        "update",
-        "workout",
-        id,
-        { name: before.name, description: before.description },
-        { name: workout.name, description: workout.description }
-      );
+      await logAdminAction(userId, "update", "workout", id, before, await snapshotBlockWorkout(id));
       
       res.json(workout);
     } catch (error) {
@@ -334,15 +851,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin: Regenerate warm-up/cool-down (and optionally finisher) blocks on the draft (PROTECTED)
+  app.post('/api/admin/block-workouts/:id/sections', isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid workout ID" });
+      }
+
+      const { logAdminAction, snapshotBlockWorkout } = await import("./admin-audit");
+      const before = await snapshotBlockWorkout(id);
+      if (!before) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      const options = z.object({
+        warmup: z.boolean().default(true),
+        cooldown: z.boolean().default(true),
+        finisher: z.boolean().default(false),
+      }).safeParse(req.body ?? {});
+      if (!options.success) {
+        return res.status(400).json({ message: "Invalid options", errors: options.error.errors });
+      }
+
+      // The audit snapshot is already in WorkoutDTO shape
+      const { generateSectionBlocks } = await import("./section-generator");
+      const generated = await generateSectionBlocks(before.blocks, options.data);
+
+      const userId = req.user.claims.sub;
+      const workout = await storage.updateBlockWorkout(id, { blocks: generated.blocks });
+      await logAdminAction(userId, "update", "workout", id, before, await snapshotBlockWorkout(id));
+
+      res.json({ ...workout, targets: generated.targets });
+    } catch (error) {
+      console.error("Error generating workout sections:", error);
+      res.status(500).json({ 
+        message: "Failed to generate sections",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   // Admin: Delete block workout (PROTECTED)
-  app.delete('/api/admin/block-workouts/:id', isAdmin, async (req, res) => {
+  app.delete('/api/admin/block-workouts/:id', isAdmin, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid workout ID" });
       }
       
+      const { logAdminAction, snapshotBlockWorkout } = await import("./admin-audit");
+      const before = await snapshotBlockWorkout(id);
+
       await storage.deleteBlockWorkout(id);
+
+      if (before) {
+        await logAdminAction(req.user.claims.sub, "delete", "workout", id, before, null);
+      }
       res.json({ message: "Workout deleted successfully" });
     } catch (error) {
       console.error("Error deleting block workout:", error);
@@ -404,48 +969,411 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Save compiled timeline and publish
-      const workout = await storage.togglePublishBlockWorkout(id);
+      // Save compiled timeline as a new immutable version and publish it
+      const version = await storage.publishBlockWorkout(id, userId, compiledTimeline);
+      const workout = await storage.getBlockWorkout(id);
       
       // Audit logging
       const { logAdminAction } = await import("./admin-audit");
       await logAdminAction(userId, "publish", "workout", id, 
-        { isPublished: false }, { isPublished: true, timelineSteps: compiledTimeline.executionTimeline.length });
+        { isPublished: false }, { isPublished: true, version: version.version, timelineSteps: compiledTimeline.executionTimeline.length });
+
+      res.json({
+        ...workout,
+        timeline: {
+          totalDurationSec: compiledTimeline.workoutHeader.totalDurationSec,
+          steps: compiledTimeline.executionTimeline.length,
+          structure: compiledTimeline.workoutHeader.structure
+        }
+      });
+    } catch (error) {
+      console.error("Error publishing workout:", error);
+      res.status(500).json({ 
+        message: "Failed to publish workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Admin: List published versions, newest first (PROTECTED)
+  app.get('/api/admin/block-workouts/:id/versions', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid workout ID" });
+      }
+
+      const workout = await storage.getBlockWorkout(id);
+      if (!workout) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      const versions = await storage.getBlockWorkoutVersions(id);
+      res.json(versions.map(({ blocks, executionTimeline, ...version }) => ({
+        ...version,
+        isLive: version.id === workout.publishedVersionId,
+        blockCount: blocks.length,
+        totalDurationSec: executionTimeline.workoutHeader.totalDurationSec,
+      })));
+    } catch (error) {
+      console.error("Error fetching workout versions:", error);
+      res.status(500).json({ message: "Failed to fetch workout versions" });
+    }
+  });
+
+  // Admin: Structural diff between two published versions (PROTECTED)
+  app.get('/api/admin/block-workouts/:id/versions/compare', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      if (isNaN(id) || isNaN(from) || isNaN(to)) {
+        return res.status(400).json({ message: "Workout ID and from/to version numbers are required" });
+      }
+
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getBlockWorkoutVersion(id, from),
+        storage.getBlockWorkoutVersion(id, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      // Block/row IDs change on every draft save, so compare content only
+      const comparable = (version: typeof fromVersion) => ({
+        name: version.name,
+        description: version.description,
+        totalDurationSec: version.executionTimeline.workoutHeader.totalDurationSec,
+        blocks: version.blocks.map(block => ({
+          name: block.name,
+          type: block.type,
+          params: block.params,
+          exercises: block.exercises.map(ex => ({
+            exerciseId: ex.exerciseId,
+            exerciseName: ex.exerciseName,
+            overrides: ex.overrides,
+          })),
+        })),
+      });
+
+      const { diffSnapshots } = await import("@shared/audit-diff");
+      res.json({ from, to, diff: diffSnapshots(comparable(fromVersion), comparable(toVersion)) });
+    } catch (error) {
+      console.error("Error comparing workout versions:", error);
+      res.status(500).json({ message: "Failed to compare workout versions" });
+    }
+  });
+
+  // Admin: Get one published version with its blocks and timeline (PROTECTED)
+  app.get('/api/admin/block-workouts/:id/versions/:version', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      if (isNaN(id) || isNaN(versionNumber)) {
+        return res.status(400).json({ message: "Invalid workout ID or version" });
+      }
+
+      const version = await storage.getBlockWorkoutVersion(id, versionNumber);
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      res.json(version);
+    } catch (error) {
+      console.error("Error fetching workout version:", error);
+      res.status(500).json({ message: "Failed to fetch workout version" });
+    }
+  });
+
+  // Admin: Publish the current draft as a new version, even if already published (PROTECTED)
+  app.post('/api/admin/block-workouts/:id/versions', isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid workout ID" });
+      }
+
+      const workoutData = await storage.getBlockWorkoutWithBlocks(id);
+      if (!workoutData) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+
+      const { compileWorkoutTimeline, validateTimeline } = await import("./timeline-compiler");
+      let compiledTimeline;
+      try {
+        compiledTimeline = await compileWorkoutTimeline(workoutData.blocks, workoutData.name);
+      } catch (error) {
+        return res.status(400).json({
+          message: "Failed to compile workout timeline",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+
+      const validation = validateTimeline(compiledTimeline);
+      if (!validation.valid) {
+        return res.status(400).json({
+          message: "Compiled timeline validation failed",
+          errors: validation.errors
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const version = await storage.publishBlockWorkout(id, userId, compiledTimeline);
+
+      const { logAdminAction } = await import("./admin-audit");
+      await logAdminAction(userId, "publish", "workout", id,
+        { version: workoutData.isPublished ? workoutData.version : null }, { isPublished: true, version: version.version });
+
+      res.status(201).json(version);
+    } catch (error) {
+      console.error("Error publishing workout version:", error);
+      res.status(500).json({ 
+        message: "Failed to publish workout version",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Admin: Publish an earlier version again (copied forward as the newest version) (PROTECTED)
+  app.post('/api/admin/block-workouts/:id/versions/:version/republish', isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      if (isNaN(id) || isNaN(versionNumber)) {
+        return res.status(400).json({ message: "Invalid workout ID or version" });
+      }
+
+      const [workout, earlier] = await Promise.all([
+        storage.getBlockWorkout(id),
+        storage.getBlockWorkoutVersion(id, versionNumber),
+      ]);
+      if (!workout || !earlier) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const userId = req.user.claims.sub;
+      const version = await storage.republishBlockWorkoutVersion(id, versionNumber, userId);
+
+      const { logAdminAction } = await import("./admin-audit");
+      await logAdminAction(userId, "publish", "workout", id,
+        { version: workout.isPublished ? workout.version : null },
+        { isPublished: true, version: version.version, republishedFromVersion: versionNumber });
+
+      res.status(201).json(version);
+    } catch (error) {
+      console.error("Error republishing workout version:", error);
+      res.status(500).json({ 
+        message: "Failed to republish workout version",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Admin: Duplicate workout (PROTECTED)
+  app.post('/api/admin/block-workouts/:id/duplicate', isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid workout ID" });
+      }
+      
+      const userId = req.user.claims.sub;
+      const workout = await storage.duplicateBlockWorkout(id, userId);
+      res.status(201).json(workout);
+    } catch (error) {
+      console.error("Error duplicating block workout:", error);
+      res.status(500).json({ 
+        message: "Failed to duplicate workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Admin: Browse audit log, newest first (PROTECTED)
+  app.get('/api/admin/audit', isAdmin, async (req, res) => {
+    try {
+      const { getAdminAuditEntries } = await import("./admin-audit");
+      const entityId = req.query.entityId ? parseInt(req.query.entityId as string) : undefined;
+      const entries = await getAdminAuditEntries({
+        entity: (req.query.entity as string) || undefined,
+        entityId: entityId !== undefined && !isNaN(entityId) ? entityId : undefined,
+        actorId: (req.query.actorId as string) || undefined,
+        action: (req.query.action as string) || undefined,
+        limit: parseInt(req.query.limit as string) || 50,
+        offset: parseInt(req.query.offset as string) || 0,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Admin: Single audit entry with structural diff (PROTECTED)
+  app.get('/api/admin/audit/:id', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid audit entry ID" });
+      }
+
+      const { getAdminAuditEntry } = await import("./admin-audit");
+      const entry = await getAdminAuditEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Audit entry not found" });
+      }
+
+      const { diffSnapshots } = await import("@shared/audit-diff");
+      res.json({ ...entry, diff: diffSnapshots(entry.before, entry.after) });
+    } catch (error) {
+      console.error("Error fetching audit entry:", error);
+      res.status(500).json({ message: "Failed to fetch audit entry" });
+    }
+  });
+
+  // Admin: Restore a workout to an audit entry's before/after snapshot (PROTECTED)
+  app.post('/api/admin/audit/:id/restore', isAdmin, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid audit entry ID" });
+      }
+
+      const side = req.body?.side === "after" ? "after" : "before";
+      const { getAdminAuditEntry, restoreBlockWorkoutFromAudit } = await import("./admin-audit");
+      const entry = await getAdminAuditEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Audit entry not found" });
+      }
+      if (entry.entity !== "workout" || !(entry[side] as any)?.blocks) {
+        return res.status(400).json({ message: `Audit entry has no restorable ${side} snapshot` });
+      }
+
+      const workout = await restoreBlockWorkoutFromAudit(id, side, req.user.claims.sub);
+      res.json(workout);
+    } catch (error) {
+      console.error("Error restoring workout from audit:", error);
+      res.status(500).json({
+        message: "Failed to restore workout",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Admin: Convert legacy supersets/workouts/template seeds into block workouts (PROTECTED)
+  app.post('/api/admin/legacy-conversion', isAdmin, async (req: any, res) => {
+    try {
+      const body = z.object({
+        userId: z.string().min(1).optional(),
+        includeTemplates: z.boolean().default(true),
+        dryRun: z.boolean().default(false),
+      }).safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid conversion request", errors: body.error.errors });
+      }
+
+      const { convertLegacyWorkouts } = await import("./legacy-conversion");
+      const report = await convertLegacyWorkouts({ ...body.data, actorId: req.user.claims.sub });
+
+      if (!body.data.dryRun) {
+        const { logAdminAction, snapshotBlockWorkout } = await import("./admin-audit");
+        for (const result of report.results) {
+          if (result.status === "converted" && result.blockWorkoutId) {
+            await logAdminAction(req.user.claims.sub, "create", "workout", result.blockWorkoutId, null, {
+              convertedFrom: { source: result.source, id: result.sourceId },
+              ...(await snapshotBlockWorkout(result.blockWorkoutId)),
+            });
+          }
+        }
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error("Error converting legacy workouts:", error);
+      res.status(500).json({ message: "Failed to convert legacy workouts" });
+    }
+  });
+
+  // Admin: Published pairing weight sets with their held-out metrics (PROTECTED)
+  app.get('/api/admin/pairing-weights', isAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const sets = await getPairingWeightSets(limit);
+      res.json(sets);
+    } catch (error) {
+      console.error("Error fetching pairing weight sets:", error);
+      res.status(500).json({ message: "Failed to fetch pairing weight sets" });
+    }
+  });
+
+  // Admin: Fit pairing weights on current approvals and supersets; publishes an inactive version (PROTECTED)
+  app.post('/api/admin/pairing-weights/train', isAdmin, async (req: any, res) => {
+    try {
+      const published = await trainPairingWeights(req.user.claims.sub);
+      res.status(201).json(published);
+    } catch (error) {
+      console.error("Error training pairing weights:", error);
+      const message = error instanceof Error ? error.message : "Failed to train pairing weights";
+      res.status(message.startsWith("Not enough labelled pairs") ? 422 : 500).json({ message });
+    }
+  });
+
+  // Admin: Make a weight set (or "default") the one recommendations use (PROTECTED)
+  app.post('/api/admin/pairing-weights/:version/activate', isAdmin, async (req, res) => {
+    try {
+      const active = await activatePairingWeightSet(req.params.version);
+      if (!active) {
+        return res.status(404).json({ message: "Pairing weight set not found" });
+      }
+      res.json(active);
+    } catch (error) {
+      console.error("Error activating pairing weight set:", error);
+      res.status(500).json({ message: "Failed to activate pairing weight set" });
+    }
+  });
+
+  // Admin: Run Airtable → Postgres exercise sync now (PROTECTED)
+  app.post('/api/admin/exercise-sync', isAdmin, async (req, res) => {
+    try {
+      const run = await syncExerciseCatalog("manual");
+      if (run.status === "success") {
+        storage.invalidateExerciseCache();
+      }
+      res.status(run.status === "success" ? 200 : 502).json(run);
+    } catch (error) {
+      console.error("Error running exercise sync:", error);
+      res.status(500).json({ message: "Failed to run exercise sync" });
+    }
+  });
 
-      res.json({
-        ...workout,
-        timeline: {
-          totalDurationSec: compiledTimeline.workoutHeader.totalDurationSec,
-          steps: compiledTimeline.executionTimeline.length,
-          structure: compiledTimeline.workoutHeader.structure
-        }
-      });
+  // Admin: Recent exercise sync runs (PROTECTED)
+  app.get('/api/admin/exercise-sync/runs', isAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const runs = await getExerciseSyncRuns(limit);
+      res.json(runs);
     } catch (error) {
-      console.error("Error publishing workout:", error);
-      res.status(500).json({ 
-        message: "Failed to publish workout",
-        error: error instanceof Error ? error.message : "Unknown error"
-      });
+      console.error("Error fetching exercise sync runs:", error);
+      res.status(500).json({ message: "Failed to fetch exercise sync runs" });
     }
   });
 
-  // Admin: Duplicate workout (PROTECTED)
-  app.post('/api/admin/block-workouts/:id/duplicate', isAdmin, async (req: any, res) => {
+  // Admin: Single sync run with its diff (PROTECTED)
+  app.get('/api/admin/exercise-sync/runs/:id', isAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
-        return res.status(400).json({ message: "Invalid workout ID" });
+        return res.status(400).json({ message: "Invalid sync run ID" });
       }
-      
-      const userId = req.user.claims.sub;
-      const workout = await storage.duplicateBlockWorkout(id, userId);
-      res.status(201).json(workout);
+
+      const run = await getExerciseSyncRun(id);
+      if (!run) {
+        return res.status(404).json({ message: "Sync run not found" });
+      }
+      res.json(run);
     } catch (error) {
-      console.error("Error duplicating block workout:", error);
-      res.status(500).json({ 
-        message: "Failed to duplicate workout",
-        error: error instanceof Error ? error.message : "Unknown error"
-      });
+      console.error("Error fetching exercise sync run:", error);
+      res.status(500).json({ message: "Failed to fetch exercise sync run" });
     }
   });
 
@@ -474,6 +1402,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!workoutId) {
         return res.status(400).json({ message: "Workout ID required" });
       }
+
+      const workout = await storage.getBlockWorkout(workoutId);
+      if (workout && !canViewBlockWorkout(workout, userId)) {
+        return res.status(404).json({ message: "Workout not found" });
+      }
+      if (workout && !workout.isPublished) {
+        return res.status(409).json({ message: "Workout is not published" });
+      }
       
       const session = await storage.startBlockWorkoutSession(userId, workoutId);
       res.status(201).json(session);
@@ -506,6 +1442,310 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Checkpoint current step (sent periodically and on tab hide)
+  app.patch('/api/block-workout-sessions/:id/checkpoint', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+
+      const currentStep = Number(req.body?.currentStep);
+      if (!Number.isInteger(currentStep) || currentStep < 0) {
+        return res.status(400).json({ message: "currentStep must be a non-negative integer" });
+      }
+      if (session.status !== 'active' && session.status !== 'paused') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+
+      const updated = await storage.checkpointBlockWorkoutSession(session.id, currentStep);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error checkpointing block workout session:", error);
+      res.status(500).json({ message: "Failed to checkpoint session" });
+    }
+  });
+
+  // Pause session (records the start of a pause interval)
+  app.post('/api/block-workout-sessions/:id/pause', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status !== 'active' && session.status !== 'paused') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+
+      const atStep = req.body?.currentStep !== undefined ? Number(req.body.currentStep) : undefined;
+      const updated = await storage.pauseBlockWorkoutSession(session.id, Number.isInteger(atStep) ? atStep : undefined);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error pausing block workout session:", error);
+      res.status(500).json({ message: "Failed to pause session" });
+    }
+  });
+
+  // Resume session (closes the open pause interval)
+  app.post('/api/block-workout-sessions/:id/resume', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status !== 'active' && session.status !== 'paused') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+
+      const updated = await storage.resumeBlockWorkoutSession(session.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error resuming block workout session:", error);
+      res.status(500).json({ message: "Failed to resume session" });
+    }
+  });
+
+  // Abandon session (user quit before the end)
+  app.post('/api/block-workout-sessions/:id/abandon', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status === 'completed' || session.status === 'abandoned') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+
+      const updated = await storage.abandonBlockWorkoutSession(session.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error abandoning block workout session:", error);
+      res.status(500).json({ message: "Failed to abandon session" });
+    }
+  });
+
+  // Complete session
+  app.post('/api/block-workout-sessions/:id/complete', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status === 'completed' || session.status === 'abandoned') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+
+      const updated = await storage.completeBlockWorkoutSession(session.id);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error completing block workout session:", error);
+      res.status(500).json({ message: "Failed to complete session" });
+    }
+  });
+
+  // Log one or more sets for a block session (upserts per exercise + set index)
+  app.post('/api/block-workout-sessions/:id/sets', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status === 'abandoned') {
+        return res.status(409).json({ message: "Session is abandoned" });
+      }
+
+      const { BlockSetLogDTO } = await import("@shared/dto");
+      const { RPE_FOR_WORD } = await import("@shared/units");
+      const result = z.array(BlockSetLogDTO).min(1).safeParse(Array.isArray(req.body) ? req.body : [req.body]);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid set log",
+          errors: result.error.errors
+        });
+      }
+
+      const saved = [];
+      for (const set of result.data) {
+        saved.push(await storage.recordBlockSet({
+          blockWorkoutSessionId: session.id,
+          exerciseId: set.exerciseId,
+          setIndex: set.setIndex,
+          reps: set.reps ?? null,
+          weight: set.load ?? null,
+          loadUnit: set.unit,
+          rpe: typeof set.rpe === 'string' ? RPE_FOR_WORD[set.rpe] : set.rpe ?? null,
+          pain: set.pain,
+          source: 'manual',
+        }));
+      }
+
+      res.status(201).json(saved);
+    } catch (error) {
+      console.error("Error logging block sets:", error);
+      res.status(500).json({ message: "Failed to log sets" });
+    }
+  });
+
+  app.get('/api/block-workout-sessions/:id/sets', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+
+      const logs = await storage.getBlockSetLogs(session.id);
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching block set logs:", error);
+      res.status(500).json({ message: "Failed to fetch set logs" });
+    }
+  });
+
+  // Ranked replacements for an exercise in this session's timeline.
+  // ?reason=busy also rules out the exercise's own primary equipment.
+  app.get('/api/block-workout-sessions/:id/substitutes', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+
+      const exerciseId = parseInt(req.query.exerciseId as string);
+      if (isNaN(exerciseId)) {
+        return res.status(400).json({ message: "exerciseId is required" });
+      }
+      const reason = (req.query.reason as string) || "busy";
+      if (!["busy", "missing", "preference"].includes(reason)) {
+        return res.status(400).json({ message: "reason must be busy, missing or preference" });
+      }
+
+      const original = await storage.getExercise(exerciseId);
+      if (!original) {
+        return res.status(404).json({ message: "Exercise not found" });
+      }
+
+      const gymFilter = await resolveGymFilter(req, res, req.query.gymId);
+      if (gymFilter === null) return;
+
+      // Don't offer an exercise the member is already doing in the same block
+      const blockId = req.query.blockId as string | undefined;
+      const steps = (session.executionTimelineSnapshot as ExecutionTimeline | null)?.executionTimeline ?? [];
+      const excludeIds = steps
+        .filter(step => !blockId || step.blockId === blockId)
+        .flatMap(step => [step.exercise, ...(step.exercises ?? [])])
+        .map(ex => ex?.id)
+        .filter((id): id is number => typeof id === "number");
+
+      const primaryEquipment = original.equipmentPrimary || original.equipment;
+      const candidates = rankSubstitutes(original, await storage.getAllExercises(), {
+        isAvailable: gymFilter?.isAvailable,
+        avoidEquipment: reason === "busy" && primaryEquipment ? [primaryEquipment] : [],
+        excludeIds,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 5, 20) : 5,
+      });
+
+      res.json({
+        exerciseId,
+        reason,
+        gymProfileId: gymFilter?.gym.id ?? null,
+        candidates,
+      });
+    } catch (error) {
+      console.error("Error fetching exercise substitutes:", error);
+      res.status(500).json({ message: "Failed to fetch substitutes" });
+    }
+  });
+
+  // Swap an exercise from the current step on; the snapshot keeps its timing
+  app.post('/api/block-workout-sessions/:id/substitutions', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+      if (session.status !== 'active' && session.status !== 'paused') {
+        return res.status(409).json({ message: `Session is ${session.status}` });
+      }
+      if (!session.executionTimelineSnapshot) {
+        return res.status(409).json({ message: "Session has no timeline to update" });
+      }
+
+      const { SessionSubstitutionDTO } = await import("@shared/dto");
+      const result = SessionSubstitutionDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid substitution",
+          errors: result.error.errors
+        });
+      }
+
+      const { exerciseId, substituteExerciseId, blockId, reason } = result.data;
+      const substitute = await storage.getExercise(substituteExerciseId);
+      if (!substitute) {
+        return res.status(404).json({ message: "Substitute exercise not found" });
+      }
+
+      const gymFilter = await resolveGymFilter(req, res);
+      if (gymFilter === null) return;
+      if (gymFilter && !gymFilter.isAvailable(substitute)) {
+        return res.status(422).json({
+          message: `${substitute.name} needs equipment ${gymFilter.gym.name} doesn't have`,
+          missingEquipment: missingEquipment(substitute, gymFilter.gym.equipment),
+        });
+      }
+
+      const swapped = await storage.substituteBlockSessionExercise(session, {
+        originalExerciseId: exerciseId,
+        substitute,
+        blockId: blockId ?? null,
+        fromStep: result.data.fromStep,
+        reason,
+      });
+      if (!swapped) {
+        return res.status(422).json({ message: "Exercise isn't in the remaining timeline" });
+      }
+
+      res.status(201).json({
+        substitution: swapped.substitution,
+        executionTimeline: swapped.session.executionTimelineSnapshot,
+      });
+    } catch (error) {
+      console.error("Error substituting exercise:", error);
+      res.status(500).json({ message: "Failed to substitute exercise" });
+    }
+  });
+
+  app.get('/api/block-workout-sessions/:id/substitutions', async (req: any, res) => {
+    try {
+      const session = await getOwnedBlockSession(req, res);
+      if (!session) return;
+
+      const substitutions = await storage.getBlockSessionSubstitutions(session.id);
+      res.json(substitutions);
+    } catch (error) {
+      console.error("Error fetching exercise substitutions:", error);
+      res.status(500).json({ message: "Failed to fetch substitutions" });
+    }
+  });
+
+  // Last loaded set per exercise, converted to ?unit= (default lbs)
+  app.get('/api/block-set-logs/last-loads', async (req: any, res) => {
+    try {
+      const userId = req.user?.claims?.sub || req.session?.userId;
+      if (!userId) {
+        return res.json({});
+      }
+
+      const exerciseIds = typeof req.query.exerciseIds === 'string'
+        ? req.query.exerciseIds.split(',').map((id: string) => parseInt(id)).filter((id: number) => !isNaN(id))
+        : undefined;
+      const unit = req.query.unit === 'kg' ? 'kg' : 'lbs';
+
+      const { convertLoad, rpeToWord } = await import("@shared/units");
+      const logs = await storage.getLastLoads(userId, exerciseIds);
+      const lastLoads = Object.fromEntries(logs.map(log => [
+        log.exerciseId.toString(),
+        {
+          load: convertLoad(log.weight!, log.loadUnit === 'kg' ? 'kg' : 'lbs', unit),
+          unit,
+          reps: log.reps,
+          rpe: log.rpe !== null ? rpeToWord(log.rpe) : undefined,
+          pain: log.pain,
+          loggedAt: log.loggedAt,
+        }
+      ]));
+
+      res.json(lastLoads);
+    } catch (error) {
+      console.error("Error fetching last loads:", error);
+      res.status(500).json({ message: "Failed to fetch last loads" });
+    }
+  });
+
   // Coach Responses API
   app.get('/api/coach-responses', async (req, res) => {
     try {
@@ -514,9 +1754,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!event_type) {
         return res.status(400).json({ error: 'event_type required' });
       }
+
+      const eventType = normalizeEventType(event_type);
+      if (!eventType) {
+        return res.status(400).json({ error: `Unknown event_type: ${event_type}` });
+      }
       
       const responses = await storage.getCoachResponses({
-        eventType: event_type,
+        eventType,
         pattern,
         mode,
         chatterLevel: chatter_level,
@@ -637,6 +1882,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Community review: pending contributions from other members to vote on
+  app.get('/api/contributions/community-review', isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const pending = await storage.getCommunityReviewContributions(req.user.claims.sub, limit);
+
+      // Contributor identity and notes stay private
+      res.json(pending.map(c => ({
+        id: c.id,
+        imageData: c.imageData,
+        equipment: c.equipment,
+        boundingBoxes: c.boundingBoxes ?? [],
+        votes: c.votes,
+        createdAt: c.createdAt
+      })));
+    } catch (error) {
+      console.error("Error fetching community review contributions:", error);
+      res.status(500).json({ message: "Failed to fetch contributions to review" });
+    }
+  });
+
+  // Vote on whether a contribution's label is right; consensus auto-verifies it
+  app.post('/api/contributions/:id/vote', isAuthenticated, async (req: any, res) => {
+    try {
+      const { ContributionVoteDTO } = await import("@shared/dto");
+      const result = ContributionVoteDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid vote",
+          errors: result.error.errors
+        });
+      }
+
+      const userId = req.user.claims.sub;
+      const contribution = await storage.getContribution(req.params.id);
+      if (!contribution) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+      if (contribution.userId === userId) {
+        return res.status(403).json({ message: "You cannot vote on your own contribution" });
+      }
+      if ((contribution.moderationStatus ?? 'pending') !== 'pending') {
+        return res.status(409).json({ message: "Contribution has already been reviewed" });
+      }
+
+      const outcome = await storage.voteOnContribution(contribution.id, userId, result.data.value);
+      res.json({
+        id: outcome.contribution.id,
+        votes: outcome.contribution.votes,
+        upVotes: outcome.upVotes,
+        downVotes: outcome.downVotes,
+        moderationStatus: outcome.contribution.moderationStatus,
+        verified: outcome.contribution.verified
+      });
+    } catch (error) {
+      console.error("Error voting on contribution:", error);
+      res.status(500).json({ message: "Failed to record vote" });
+    }
+  });
+
+  // Moderator: Review queue, filtered by status and label (PROTECTED)
+  app.get('/api/moderation/queue', isModerator, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || 'pending';
+      if (!['pending', 'approved', 'rejected'].includes(status)) {
+        return res.status(400).json({ message: "status must be pending, approved or rejected" });
+      }
+
+      const [queue, counts] = await Promise.all([
+        storage.getModerationQueue({
+          status: status as 'pending' | 'approved' | 'rejected',
+          equipment: (req.query.equipment as string) || undefined,
+          limit: Math.min(parseInt(req.query.limit as string) || 20, 50),
+          offset: Math.max(parseInt(req.query.offset as string) || 0, 0),
+        }),
+        storage.getModerationCounts(),
+      ]);
+
+      res.json({ ...queue, counts });
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      res.status(500).json({ message: "Failed to fetch moderation queue" });
+    }
+  });
+
+  // Moderator: Approve, reject or relabel one contribution (PROTECTED)
+  app.post('/api/moderation/contributions/:id/review', isModerator, async (req: any, res) => {
+    try {
+      const { ModerationDecisionDTO } = await import("@shared/dto");
+      const result = ModerationDecisionDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid moderation decision",
+          errors: result.error.errors
+        });
+      }
+      if (result.data.equipment && !isValidAITrainingEquipment(result.data.equipment)) {
+        return res.status(400).json({ message: `Unknown equipment label "${result.data.equipment}"` });
+      }
+
+      const [updated] = await storage.moderateContributions([req.params.id], req.user.claims.sub, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+
+      console.log(`🛡️ ${req.user.claims.sub} ${result.data.action} contribution ${updated.id}`);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error moderating contribution:", error);
+      res.status(500).json({ message: "Failed to moderate contribution" });
+    }
+  });
+
+  // Moderator: Apply one decision to many contributions (PROTECTED)
+  app.post('/api/moderation/contributions/bulk', isModerator, async (req: any, res) => {
+    try {
+      const { BulkModerationDTO } = await import("@shared/dto");
+      const result = BulkModerationDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid bulk moderation request",
+          errors: result.error.errors
+        });
+      }
+      if (result.data.equipment && !isValidAITrainingEquipment(result.data.equipment)) {
+        return res.status(400).json({ message: `Unknown equipment label "${result.data.equipment}"` });
+      }
+
+      const { ids, ...decision } = result.data;
+      const bulkId = `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const updated = await storage.moderateContributions(ids, req.user.claims.sub, decision, bulkId);
+
+      const updatedIds = new Set(updated.map(c => c.id));
+      console.log(`🛡️ ${req.user.claims.sub} bulk ${decision.action} on ${updated.length} contributions (${bulkId})`);
+      res.json({
+        bulkId,
+        updated: updated.length,
+        missing: ids.filter(id => !updatedIds.has(id))
+      });
+    } catch (error) {
+      console.error("Error bulk moderating contributions:", error);
+      res.status(500).json({ message: "Failed to moderate contributions" });
+    }
+  });
+
+  // Moderator: Audit trail for one contribution (PROTECTED)
+  app.get('/api/moderation/contributions/:id/history', isModerator, async (req, res) => {
+    try {
+      res.json(await storage.getContributionModerationEvents({ contributionId: req.params.id }));
+    } catch (error) {
+      console.error("Error fetching moderation history:", error);
+      res.status(500).json({ message: "Failed to fetch moderation history" });
+    }
+  });
+
+  // Moderator: Recent moderation activity across all contributions (PROTECTED)
+  app.get('/api/moderation/log', isModerator, async (req, res) => {
+    try {
+      res.json(await storage.getContributionModerationEvents({
+        actorId: (req.query.actorId as string) || undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+      }));
+    } catch (error) {
+      console.error("Error fetching moderation log:", error);
+      res.status(500).json({ message: "Failed to fetch moderation log" });
+    }
+  });
+
   // Debug endpoint to view all contributions in memory (admin/development use)
   app.get('/api/debug/contributions', async (req, res) => {
     try {
@@ -1042,7 +2458,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/training/export', isAuthenticated, async (req: any, res) => {
     try {
       const { format = 'roboflow', dataset = 'all' } = req.query;
-      const trainingData = await storage.exportTrainingData(dataset as string);
+      // Only moderator-approved or community-verified images go into training data
+      const trainingData = await storage.exportTrainingData(dataset as string, { approvedOnly: true });
       
       if (format === 'roboflow') {
         // Format for Roboflow Phase 3 integration
@@ -1057,14 +2474,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             filename: `${contribution.id}.jpg`,
             width: contribution.imageWidth || 640,
             height: contribution.imageHeight || 480,
-            annotations: contribution.boundingBoxes || [{
-              x: 0,
-              y: 0,
-              width: contribution.imageWidth || 640,
-              height: contribution.imageHeight || 480,
-              label: contribution.equipment,
-              confidence: contribution.confidence
-            }]
+            // Unannotated images export with no boxes; use /api/admin/dataset-exports for training sets
+            annotations: contribution.boundingBoxes ?? []
           }))
         };
         
@@ -1074,18 +2485,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json(trainingData);
       }
     } catch (error) {
-      console.error("Error exporting training data:", error);
-      res.status(500).json({ message: "Failed to export training data" });
+      console.error("Error exporting training data:", error);
+      res.status(500).json({ message: "Failed to export training data" });
+    }
+  });
+
+  app.get('/api/training/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const stats = await storage.getTrainingDataStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching training stats:", error);
+      res.status(500).json({ message: "Failed to fetch training stats" });
+    }
+  });
+
+  // Admin: Start a COCO / YOLO / Pascal VOC dataset export job (PROTECTED)
+  app.post('/api/admin/dataset-exports', isAdmin, async (req: any, res) => {
+    try {
+      const { DatasetExportDTO } = await import("@shared/dto");
+      const result = DatasetExportDTO.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid export request",
+          errors: result.error.errors
+        });
+      }
+
+      const job = await startDatasetExport({ ...result.data, requestedBy: req.user.claims.sub });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting dataset export:", error);
+      res.status(500).json({ message: "Failed to start dataset export" });
     }
   });
 
-  app.get('/api/training/stats', isAuthenticated, async (req: any, res) => {
+  // Admin: Recent dataset export jobs (PROTECTED)
+  app.get('/api/admin/dataset-exports', isAdmin, async (req, res) => {
     try {
-      const stats = await storage.getTrainingDataStats();
-      res.json(stats);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await getDatasetExportJobs(limit));
     } catch (error) {
-      console.error("Error fetching training stats:", error);
-      res.status(500).json({ message: "Failed to fetch training stats" });
+      console.error("Error fetching dataset export jobs:", error);
+      res.status(500).json({ message: "Failed to fetch dataset export jobs" });
+    }
+  });
+
+  // Admin: Single dataset export job (PROTECTED)
+  app.get('/api/admin/dataset-exports/:id', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid export job ID" });
+      }
+
+      const job = await getDatasetExportJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Export job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching dataset export job:", error);
+      res.status(500).json({ message: "Failed to fetch dataset export job" });
+    }
+  });
+
+  // Admin: Download a finished dataset export zip (PROTECTED)
+  app.get('/api/admin/dataset-exports/:id/download', isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid export job ID" });
+      }
+
+      const job = await getDatasetExportJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Export job not found" });
+      }
+      if (job.status !== "success" || !job.filePath) {
+        return res.status(409).json({ message: `Export is ${job.status}`, job });
+      }
+
+      res.download(job.filePath, `suprset-equipment-${job.format}-${job.id}.zip`, (error) => {
+        if (error && !res.headersSent) {
+          res.status(410).json({ message: "Export file is no longer available" });
+        }
+      });
+    } catch (error) {
+      console.error("Error downloading dataset export:", error);
+      res.status(500).json({ message: "Failed to download dataset export" });
     }
   });
 
@@ -1255,6 +2744,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Weights the pairing engine currently ranks with, so client previews match the server
+  app.get("/api/pairing-weights/active", async (req, res) => {
+    try {
+      res.json(await getActivePairingWeights());
+    } catch (error) {
+      console.error("Error fetching active pairing weights:", error);
+      res.status(500).json({ message: "Failed to fetch active pairing weights" });
+    }
+  });
+
   // Get exercise recommendations for pairing
   app.get("/api/exercises/:id/recommendations", async (req, res) => {
     try {
@@ -1266,43 +2765,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Exercise not found" });
       }
 
-      // Get all exercises for pairing calculation
+      const gymFilter = await resolveGymFilter(req, res, req.query.gymId);
+      if (gymFilter === null) return;
+
+      // Get all exercises for pairing calculation, limited to what the gym has
       const allExercises = await storage.getAllExercises();
-      const candidateExercises = allExercises.filter(ex => ex.id !== exerciseAId);
-
-      let recommendations;
-
-      if (trainerMode) {
-        // Trainer Mode: Strict binary filtering
-        recommendations = candidateExercises
-          .map(exerciseB => {
-            const { isValid, score, reasoning } = calculateTrainerModeCompatibility(exerciseA, exerciseB);
-            return isValid ? {
-              exercise: exerciseB,
-              compatibilityScore: score,
-              reasoning
-            } : null;
-          })
-          .filter(rec => rec !== null);
-      } else {
-        // Standard Mode: Algorithmic scoring
-        recommendations = candidateExercises.map(exerciseB => {
-          const { score, reasoning } = calculateCompatibilityScoreWithReasoning(exerciseA, exerciseB);
-          
-          return {
-            exercise: exerciseB,
-            compatibilityScore: score,
-            reasoning
-          };
-        });
+      const candidateExercises = allExercises.filter(ex =>
+        ex.id !== exerciseAId && (!gymFilter || gymFilter.isAvailable(ex))
+      );
+
+      // ?weights=<version> compares a published weight set against the active one
+      const requestedWeights = typeof req.query.weights === 'string' ? req.query.weights : undefined;
+      const resolved = await resolvePairingWeights(requestedWeights);
+      if (!resolved) {
+        return res.status(404).json({ message: `Pairing weight set '${requestedWeights}' not found` });
       }
 
-      // Sort by compatibility score
-      recommendations.sort((a, b) => b.compatibilityScore - a.compatibilityScore);
+      // Trainer mode adds the strict trainer exclusion rules; both modes share scoring
+      const recommendations = rankPairings(exerciseA, candidateExercises, {
+        mode: trainerMode ? 'trainer' : 'standard',
+        weights: resolved.weights
+      });
       
       res.json({
         recommendations: trainerMode ? recommendations : recommendations.slice(0, 10),
-        mode: trainerMode ? 'trainer' : 'standard'
+        mode: trainerMode ? 'trainer' : 'standard',
+        weightsVersion: resolved.version,
+        gymProfileId: gymFilter?.gym.id ?? null
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to generate recommendations" });
@@ -1340,6 +2829,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "One or both exercises not found" });
       }
 
+      const gymFilter = await resolveGymFilter(req, res, req.body.gymId);
+      if (gymFilter === null) return;
+      if (gymFilter) {
+        const missing = [exerciseA, exerciseB]
+          .map(ex => ({ exerciseId: ex.id, exerciseName: ex.name, equipment: missingEquipment(ex, gymFilter.gym.equipment) }))
+          .filter(entry => entry.equipment.length > 0);
+        if (missing.length > 0) {
+          return res.status(422).json({ message: `Not available at ${gymFilter.gym.name}`, missing });
+        }
+      }
+
       // Calculate duration with guaranteed numeric types
       const estimatedDurationSec = (workSec * 2 + restSec + transitionSec) * setsPerExercise;
 
@@ -1403,6 +2903,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rank tri-set/giant-set circuits around an anchor exercise, each with a
+  // ready-to-compile circuit block (non-admin, read-only)
+  app.post("/api/recommendations/groupings", async (req, res) => {
+    try {
+      const { GroupingRecommendationDTO, BlockDTO } = await import("@shared/dto");
+      const result = GroupingRecommendationDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid grouping request",
+          errors: result.error.errors
+        });
+      }
+
+      const { anchorExerciseId, size, trainerMode, timeBudgetSec, limit, params } = result.data;
+      const anchor = await storage.getExercise(anchorExerciseId);
+      if (!anchor) {
+        return res.status(404).json({ message: "Exercise not found" });
+      }
+
+      const resolved = await resolvePairingWeights(result.data.weights);
+      if (!resolved) {
+        return res.status(404).json({ message: `Pairing weight set '${result.data.weights}' not found` });
+      }
+
+      // Cut rounds until the block fits the budget; every grouping of a size takes the same time
+      const { estimateRoundsDurationSec } = await import("./timeline-compiler");
+      const durationFor = (rounds: number) =>
+        estimateRoundsDurationSec(size, { setsPerExercise: rounds, workSec: params.workSec, restSec: params.restSec });
+      let rounds = params.rounds;
+      while (timeBudgetSec && rounds > 0 && durationFor(rounds) > timeBudgetSec) {
+        rounds--;
+      }
+      if (rounds === 0) {
+        return res.status(422).json({
+          message: `A single ${size}-exercise round takes ${durationFor(1)}s, over the ${timeBudgetSec}s budget`
+        });
+      }
+
+      const gymFilter = await resolveGymFilter(req, res, result.data.gymId);
+      if (gymFilter === null) return;
+      if (gymFilter && !gymFilter.isAvailable(anchor)) {
+        return res.status(422).json({
+          message: `${anchor.name} needs ${missingEquipment(anchor, gymFilter.gym.equipment).join(", ")}, not available at ${gymFilter.gym.name}`
+        });
+      }
+
+      const allExercises = await storage.getAllExercises();
+      const candidates = gymFilter ? allExercises.filter(gymFilter.isAvailable) : allExercises;
+      const mode = trainerMode ? 'trainer' : 'standard';
+      const groupings = rankGroupings(anchor, candidates, { size, limit, mode, weights: resolved.weights });
+
+      const label = size === 4 ? "Giant Set" : "Tri-Set";
+      res.json({
+        groupings: groupings.map(grouping => {
+          const members = grouping.exercises;
+          const block = BlockDTO.parse({
+            name: `${label}: ${members.map(ex => ex.name).join(" / ")}`,
+            type: "custom_sequence",
+            params: {
+              type: "custom_sequence",
+              pattern: "circuit",
+              mode: "time",
+              setsPerExercise: rounds,
+              workSec: params.workSec,
+              restSec: params.restSec,
+              roundRestSec: 0,
+              transitionSec: 0,
+              awaitReadyBeforeStart: params.awaitReadyBeforeStart,
+            },
+            exercises: members.map(ex => ({ exerciseId: ex.id })),
+          });
+
+          return {
+            score: grouping.score,
+            reasoning: grouping.reasoning,
+            patterns: grouping.patterns,
+            links: grouping.links,
+            exercises: members.map(ex => ({
+              id: ex.id,
+              name: ex.name,
+              primaryMuscleGroup: ex.primaryMuscleGroup,
+              equipmentPrimary: ex.equipmentPrimary || ex.equipment,
+              equipmentZone: ex.equipmentZone,
+            })),
+            block,
+            estimatedDurationSec: durationFor(rounds),
+            equipmentNeeded: Array.from(new Set(members.flatMap(ex => [
+              ex.equipmentPrimary || ex.equipment,
+              ...(ex.equipmentSecondary || [])
+            ]).filter(Boolean))),
+            muscleGroups: Array.from(new Set(members.map(ex => ex.primaryMuscleGroup).filter(Boolean))),
+          };
+        }),
+        size,
+        rounds,
+        roundsReduced: rounds < params.rounds,
+        mode,
+        weightsVersion: resolved.version,
+        gymProfileId: gymFilter?.gym.id ?? null
+      });
+    } catch (error) {
+      console.error("Failed to recommend groupings:", error);
+      res.status(500).json({ message: "Failed to recommend groupings" });
+    }
+  });
+
   // Convert superset pair to Block format (for admin panel)
   app.post("/api/recommendations/create-block", isAdmin, async (req, res) => {
     try {
@@ -1701,14 +3307,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Block compilation endpoint - preview timeline from blocks (supports single or multiple)
   app.post('/api/blocks/compile-preview', async (req: any, res) => {
     try {
-      const { blocks, workoutName } = req.body;
+      const { blocks, workoutName, strictEMOM } = req.body;
       
       if (!blocks || (Array.isArray(blocks) ? blocks.length === 0 : !blocks.exercises)) {
         return res.status(400).json({ message: "Must provide blocks with exercises" });
       }
 
       // Import the compiler
-      const { compileBlockToTimeline } = await import('./timeline-compiler');
+      const { compileBlockToTimeline, shiftStep } = await import('./timeline-compiler');
       
       // Handle both single block and array of blocks
       const blockArray = Array.isArray(blocks) ? blocks : [blocks];
@@ -1720,24 +3326,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       for (let i = 0; i < blockArray.length; i++) {
         const block = blockArray[i];
         
-        if (!block.exercises || block.exercises.length === 0) {
-          continue; // Skip empty blocks
+        if (block.type !== "transition" && (!block.exercises || block.exercises.length === 0)) {
+          continue; // Skip empty blocks (transitions have no exercises)
         }
         
         // Compile this block starting at 0
         const timeline = await compileBlockToTimeline(block, {
           workoutName: workoutName || block.name || `Block ${i + 1}`,
-          includeIntro: i === 0 // Only intro for first block
+          includeIntro: i === 0, // Only intro for first block
+          strictEMOM: strictEMOM !== false
         });
         
-        // Shift all timestamps by cumulative offset and add block metadata
-        const shiftedSteps = timeline.executionTimeline.map(step => ({
-          ...step,
-          atMs: step.atMs + cumulativeTimeMs,
-          endMs: step.endMs + cumulativeTimeMs,
-          blockId: block.id,
-          blockName: block.name
-        }));
+        // Shift all timestamps by cumulative offset (compiler already tags blockId/blockName)
+        const shiftedSteps = timeline.executionTimeline.map(step =>
+          shiftStep(step, cumulativeTimeMs, step.step)
+        );
         
         allSteps.push(...shiftedSteps);
         
@@ -1754,6 +3357,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Build final timeline
       const finalTimeline = {
+        eventSchemaVersion: EVENT_SCHEMA_VERSION,
         workoutHeader: {
           name: workoutName || "Multi-Block Workout",
           totalDurationSec: Math.floor(cumulativeTimeMs / 1000),
@@ -1775,6 +3379,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Generate warm-up/cool-down/finisher blocks around the given main blocks (preview only, nothing is saved)
+  app.post('/api/blocks/generate-sections', async (req, res) => {
+    try {
+      const { GenerateSectionsDTO } = await import("@shared/dto");
+      const result = GenerateSectionsDTO.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ 
+          message: "Invalid blocks",
+          errors: result.error.errors
+        });
+      }
+
+      const gymFilter = await resolveGymFilter(req, res, result.data.gymId);
+      if (gymFilter === null) return;
+
+      const { generateSectionBlocks } = await import("./section-generator");
+      const { blocks, warmup, cooldown, finisher } = result.data;
+      res.json(await generateSectionBlocks(blocks, { warmup, cooldown, finisher, isAvailable: gymFilter?.isAvailable }));
+    } catch (error: any) {
+      console.error("Error generating workout sections:", error);
+      res.status(500).json({ message: "Failed to generate sections", error: error.message });
+    }
+  });
+
   // Workouts API routes
   app.get('/api/workouts', isAuthenticated, async (req: any, res) => {
     try {
@@ -2250,516 +3878,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   const wss = new WebSocketServer({ 
     server: httpServer,
-    path: '/realtime'
+    path: '/realtime',
+    verifyClient: verifyRealtimeClient,
   });
   
   setupRealtimeRelay(wss);
-  console.log('🎙️ OpenAI Realtime API relay configured on /realtime');
+  console.log('🎙️ Realtime voice relay configured on /realtime');
   
   return httpServer;
 }
 
-// Trainer Mode: Strict binary filtering with mandatory rules
-function calculateTrainerModeCompatibility(exerciseA: Exercise, exerciseB: Exercise): { isValid: boolean; score: number; reasoning: string[] } {
-  const reasons: string[] = [];
-  
-  // Rule 1: No self-pairing
-  if (exerciseA.id === exerciseB.id) {
-    return { isValid: false, score: 0, reasoning: ["Cannot pair exercise with itself"] };
-  }
-  
-  // Rule 2: No deltoid-deltoid pairings
-  const isDeltoidA = exerciseA.primaryMuscleGroup?.toLowerCase().includes('deltoid') || 
-                    exerciseA.primaryMuscleGroup?.toLowerCase().includes('shoulder') ||
-                    exerciseA.name.toLowerCase().includes('shoulder') ||
-                    exerciseA.name.toLowerCase().includes('deltoid');
-  const isDeltoidB = exerciseB.primaryMuscleGroup?.toLowerCase().includes('deltoid') || 
-                    exerciseB.primaryMuscleGroup?.toLowerCase().includes('shoulder') ||
-                    exerciseB.name.toLowerCase().includes('shoulder') ||
-                    exerciseB.name.toLowerCase().includes('deltoid');
-  
-  if (isDeltoidA && isDeltoidB) {
-    return { isValid: false, score: 0, reasoning: ["Trainer rule: No deltoid-deltoid pairings due to fatigue conflicts"] };
-  }
-  
-  // Rule 3: Anchor flow preference (relaxed) - Anchored can pair with Mobile OR other Anchored
-  // Only restrict if both are Mobile (creates flow issues)
-  if (exerciseA.anchorType === "Mobile" && exerciseB.anchorType === "Mobile") {
-    // Allow Mobile-Mobile pairings as they're common in circuits
-  }
-  
-  // Rule 4: Setup time optimization - Prefer simpler setups for B, but allow flexibility
-  // Only reject if A is already High setup AND B is also High setup (double complexity)
-  if (exerciseA.setupTime === "High" && exerciseB.setupTime === "High") {
-    return { isValid: false, score: 0, reasoning: ["Trainer rule: Avoid pairing two high-setup exercises"] };
-  }
-  
-  // Rule 5: Equipment zone compatibility (Floor is universal)
-  const isFloorInvolved = exerciseA.equipmentZone?.toLowerCase() === "floor" || 
-                         exerciseB.equipmentZone?.toLowerCase() === "floor";
-  if (!isFloorInvolved && exerciseA.equipmentZone !== exerciseB.equipmentZone) {
-    return { isValid: false, score: 0, reasoning: ["Trainer rule: Different equipment zones (Floor exercises are exceptions)"] };
-  }
-  
-  // Rule 6: Trainer-approved pairing logic (simplified and reliable)
-  const isExactPair = isTrainerApprovedPair(exerciseA.name, exerciseB.name);
-  
-  // Core trainer principles: antagonist muscle pairing
-  const isAntagonstPair = (
-    (exerciseA.exerciseType === "Push" && exerciseB.exerciseType === "Pull") ||
-    (exerciseA.exerciseType === "Pull" && exerciseB.exerciseType === "Push") ||
-    (exerciseA.exerciseType === "Squat" && exerciseB.exerciseType === "Hinge") ||
-    (exerciseA.exerciseType === "Hinge" && exerciseB.exerciseType === "Squat") ||
-    (exerciseA.exerciseType === "Lunge" && exerciseB.exerciseType === "Hinge") ||
-    (exerciseA.exerciseType === "Hinge" && exerciseB.exerciseType === "Lunge")
-  );
-  
-  if (!isExactPair && !isAntagonstPair) {
-    return { isValid: false, score: 0, reasoning: ["Trainer rule: Must be exact approved pair or antagonist muscle pattern"] };
-  }
-  
-  // If all rules pass, assign score based on quality indicators
-  let score = 2; // Base perfect score
-  
-  // Quality bonuses for trainer-approved combinations
-  if (isExactPair) {
-    reasons.push("Curated trainer-approved pairing");
-  } else if (isAntagonstPair) {
-    reasons.push("Antagonist muscle pairing");
-  }
-  
-  if (exerciseA.exerciseType === "Push" && exerciseB.exerciseType === "Pull") {
-    reasons.push("Perfect push-pull antagonist pairing");
-  }
-  if (exerciseA.anchorType === "Anchored" && exerciseB.anchorType === "Mobile") {
-    reasons.push("Optimal anchored-to-mobile flow");
-  }
-  if (exerciseA.equipmentZone === exerciseB.equipmentZone) {
-    reasons.push("Same equipment zone for efficient transitions");
-  }
-  
-  return { isValid: true, score, reasoning: reasons };
-}
-
-// Enhanced trainer-inspired pairing logic using all 22 Airtable fields
-function calculateCompatibilityScoreWithReasoning(exerciseA: Exercise, exerciseB: Exercise): { score: number; reasoning: string[] } {
-  let score = 0;
-  const reasons: string[] = [];
-  
-  // Avoid pairing exercise with itself
-  if (exerciseA.id === exerciseB.id) {
-    return { score: 0, reasoning: [] };
-  }
-  
-  // Avoid pairing deltoid/shoulder exercises together (anterior and posterior deltoids create push/pull conflicts)
-  const isDeltoidExerciseA = exerciseA.primaryMuscleGroup?.toLowerCase().includes('deltoid') || 
-                            exerciseA.primaryMuscleGroup?.toLowerCase().includes('shoulder') ||
-                            exerciseA.name.toLowerCase().includes('shoulder') ||
-                            exerciseA.name.toLowerCase().includes('deltoid');
-  const isDeltoidExerciseB = exerciseB.primaryMuscleGroup?.toLowerCase().includes('deltoid') || 
-                            exerciseB.primaryMuscleGroup?.toLowerCase().includes('shoulder') ||
-                            exerciseB.name.toLowerCase().includes('shoulder') ||
-                            exerciseB.name.toLowerCase().includes('deltoid');
-  
-  if (isDeltoidExerciseA && isDeltoidExerciseB) {
-    return { score: 0, reasoning: ["Avoiding deltoid-deltoid pairing due to anterior/posterior fatigue conflicts"] };
-  }
-  
-  // 1. Pairing Compatibility Tags (highest priority - 40 points)
-  if (exerciseA.pairingCompatibility && exerciseB.exerciseType) {
-    if (exerciseA.pairingCompatibility.includes(exerciseB.exerciseType)) {
-      score += 40;
-      reasons.push(`${exerciseA.name} pairs well with ${exerciseB.exerciseType} exercises`);
-    }
-  }
-  
-  // 2. Anchor Type preference (35 points) - prefer Anchored → Mobile
-  if (exerciseA.anchorType === "Anchored" && exerciseB.anchorType === "Mobile") {
-    score += 35;
-    reasons.push("Optimal flow: anchored exercise to mobile exercise");
-  } else if (exerciseA.anchorType === "Mobile" && exerciseB.anchorType === "Anchored") {
-    score += 25;
-    reasons.push("Good flow: mobile to anchored transition");
-  }
-  
-  // 3. Enhanced Movement Pattern Opposition (30 points) - Using New System
-  const patternA = mapToMovementPatternServer(exerciseA.exerciseType || '', exerciseA.name, exerciseA.equipment);
-  const patternB = mapToMovementPatternServer(exerciseB.exerciseType || '', exerciseB.name, exerciseB.equipment);
-  
-  if (isOpposingMovementPattern(patternA, patternB)) {
-    score += 30;
-    // Provide specific movement pattern reasoning
-    if ((patternA === 'horizontal_push' && patternB === 'horizontal_pull') || (patternA === 'horizontal_pull' && patternB === 'horizontal_push')) {
-      reasons.push("Perfect push/pull balance (horizontal plane)");
-    } else if ((patternA === 'vertical_push' && patternB === 'vertical_pull') || (patternA === 'vertical_pull' && patternB === 'vertical_push')) {
-      reasons.push("Perfect push/pull balance (vertical plane)");
-    } else if ((patternA === 'squat' && patternB === 'hinge') || (patternA === 'hinge' && patternB === 'squat')) {
-      reasons.push("Perfect squat/hinge balance for complete lower body");
-    } else if (patternA.includes('core') || patternB.includes('core')) {
-      reasons.push("Upper body + core combination for active recovery");
-    } else {
-      reasons.push("Opposing movement patterns for balanced training");
-    }
-  }
-  
-  // 4. Enhanced Equipment Ecosystem Efficiency (up to 40 points with quality bonus)
-  const { equipmentScore, equipmentReason } = calculateEquipmentEcosystemEfficiencyServer(exerciseA, exerciseB);
-  score += equipmentScore;
-  if (equipmentReason) {
-    reasons.push(equipmentReason);
-  }
-  
-  // 5. Setup Time efficiency (20 points)
-  if (exerciseA.setupTime === "High" && (exerciseB.setupTime === "Low" || exerciseB.setupTime === "Medium")) {
-    score += 20;
-    reasons.push("Efficient transition from complex to simple setup");
-  } else if (exerciseA.setupTime === exerciseB.setupTime) {
-    score += 15;
-    reasons.push("Consistent setup complexity");
-  }
-  
-  // 6. Best Paired With tags (15 points)
-  if (exerciseA.bestPairedWith && exerciseB.tags) {
-    const hasMatchingTags = exerciseA.bestPairedWith.some(tag => 
-      exerciseB.tags?.includes(tag)
-    );
-    if (hasMatchingTags) {
-      score += 15;
-      reasons.push("Trainer-recommended pairing tags match");
-    }
-  }
-  
-  // 7. Primary Muscle Group differentiation (10 points)
-  if (exerciseA.primaryMuscleGroup && exerciseB.primaryMuscleGroup && 
-      exerciseA.primaryMuscleGroup !== exerciseB.primaryMuscleGroup) {
-    score += 10;
-    reasons.push("Different muscle groups allow active recovery");
-  }
-  
-  // 8. Difficulty Level matching (5 points)
-  if (exerciseA.difficultyLevel === exerciseB.difficultyLevel) {
-    score += 5;
-    reasons.push("Similar difficulty levels for consistent intensity");
-  }
-  
-  // Add fallback reasoning if no specific reasons found
-  if (reasons.length === 0) {
-    reasons.push("Compatible exercise pairing based on movement patterns");
-  }
-  
-  return { score: Math.min(score, 100), reasoning: reasons };
-}
-
-// Convert current Exercise Type to new Movement Pattern system (Server)
-function mapToMovementPatternServer(exerciseType: string, exerciseName: string, equipment: string): string {
-  const type = exerciseType?.toLowerCase() || '';
-  const name = exerciseName?.toLowerCase() || '';
-  const equip = equipment?.toLowerCase() || '';
-  
-  // Horizontal Push Pattern
-  if (type === 'push' && (name.includes('bench') || name.includes('chest') || name.includes('press') && !name.includes('shoulder') && !name.includes('overhead'))) {
-    return 'horizontal_push';
-  }
-  if (name.includes('push-up') || name.includes('pushup') || name.includes('dips') || name.includes('chest fly') || name.includes('pec deck')) {
-    return 'horizontal_push';
-  }
-  
-  // Horizontal Pull Pattern
-  if (type === 'pull' && (name.includes('row') || name.includes('reverse fly') || name.includes('face pull') || name.includes('rear delt'))) {
-    return 'horizontal_pull';
-  }
-  
-  // Vertical Push Pattern
-  if (type === 'push' && (name.includes('shoulder') || name.includes('overhead') || name.includes('military') || name.includes('pike'))) {
-    return 'vertical_push';
-  }
-  if (name.includes('shoulder press') || name.includes('overhead press') || name.includes('pike push')) {
-    return 'vertical_push';
-  }
-  
-  // Vertical Pull Pattern
-  if (type === 'pull' && (name.includes('pull-up') || name.includes('pullup') || name.includes('pulldown') || name.includes('lat') || name.includes('chin-up'))) {
-    return 'vertical_pull';
-  }
-  if (name.includes('shrug') || name.includes('upright row')) {
-    return 'vertical_pull';
-  }
-  
-  // Squat Pattern
-  if (type === 'squat' || name.includes('squat') || name.includes('leg press') || name.includes('wall sit')) {
-    return 'squat';
-  }
-  
-  // Hinge Pattern
-  if (type === 'hinge' || name.includes('deadlift') || name.includes('hip hinge') || name.includes('hip thrust') || name.includes('glute bridge')) {
-    return 'hinge';
-  }
-  if (name.includes('good morning') || name.includes('romanian') || name.includes('rdl')) {
-    return 'hinge';
-  }
-  
-  // Unilateral Pattern
-  if (type === 'lunge' || name.includes('lunge') || name.includes('step-up') || name.includes('step up') || name.includes('single leg') || name.includes('bulgarian')) {
-    return 'unilateral';
-  }
-  
-  // Core/Stability Pattern
-  if (name.includes('plank') || name.includes('dead bug') || name.includes('bird dog') || name.includes('pallof') || name.includes('anti-')) {
-    return 'core';
-  }
-  if (name.includes('crunch') || name.includes('sit-up') || name.includes('russian twist') || name.includes('mountain climber')) {
-    return 'core';
-  }
-  
-  // Default mappings for current types
-  switch (type) {
-    case 'push': return 'horizontal_push';
-    case 'pull': return 'horizontal_pull';
-    case 'squat': return 'squat';
-    case 'hinge': return 'hinge';
-    case 'lunge': return 'unilateral';
-    case 'accessory':
-      // Smart accessory mapping based on name
-      if (name.includes('curl') || name.includes('tricep') || name.includes('bicep')) {
-        return name.includes('hammer') || name.includes('bicep') ? 'vertical_pull' : 'vertical_push';
-      }
-      if (name.includes('lateral') || name.includes('front raise')) return 'vertical_push';
-      if (name.includes('calf')) return 'squat';
-      return 'accessory';
-    default: return 'general';
-  }
-}
-
-function isOpposingMovementPattern(patternA: string, patternB: string): boolean {
-  const opposingPairs = [
-    ["horizontal_push", "horizontal_pull"],
-    ["vertical_push", "vertical_pull"],
-    ["squat", "hinge"],
-    ["unilateral", "core"],
-    ["horizontal_push", "core"],
-    ["horizontal_pull", "core"],
-    ["vertical_push", "core"],
-    ["vertical_pull", "core"],
-  ];
-  
-  return opposingPairs.some(pair => 
-    (pair[0] === patternA && pair[1] === patternB) ||
-    (pair[1] === patternA && pair[0] === patternB)
-  );
-}
-
-function hasMuscleOverlap(musclesA: string[], musclesB: string[]): boolean {
-  return musclesA.some(muscle => musclesB.includes(muscle));
-}
-
-function isCompoundIsolationPair(exerciseA: any, exerciseB: any): boolean {
-  const compoundCategories = ["compound"];
-  const isACompound = compoundCategories.includes(exerciseA.category) || exerciseA.primaryMuscles.length > 2;
-  const isBCompound = compoundCategories.includes(exerciseB.category) || exerciseB.primaryMuscles.length > 2;
-  
-  return isACompound !== isBCompound;
-}
-
-// Enhanced Equipment Ecosystem System for Server
-function getEquipmentEcosystemServer(equipment: string): { type: string; canSupport: string[] } {
-  const equipment_lower = equipment.toLowerCase();
-  
-  // Multi-Exercise Hubs (High Superset Potential)
-  if (equipment_lower.includes('squat rack') || equipment_lower.includes('power rack') ||
-      equipment_lower.includes('rig') || equipment_lower.includes('rack')) {
-    return { type: 'rack_hub', canSupport: ['barbell', 'pullups', 'dumbbells', 'bodyweight', 'bands'] };
-  }
-  
-  if ((equipment_lower.includes('bench') && equipment_lower.includes('barbell')) ||
-      equipment_lower.includes('olympic bench')) {
-    return { type: 'bench_barbell_hub', canSupport: ['barbell', 'dumbbells', 'bodyweight'] };
-  }
-  
-  if (equipment_lower.includes('cable')) {
-    return { type: 'cable_hub', canSupport: ['cable_variations', 'dumbbells', 'bodyweight', 'bands'] };
-  }
-  
-  // Single Equipment + Portable Additions
-  if (equipment_lower.includes('bench') && equipment_lower.includes('dumbbell')) {
-    return { type: 'bench_dumbbell', canSupport: ['dumbbells', 'bodyweight'] };
-  }
-  
-  if (equipment_lower.includes('dumbbell') && !equipment_lower.includes('bench')) {
-    return { type: 'dumbbell_portable', canSupport: ['dumbbells', 'bodyweight', 'bands'] };
-  }
-  
-  // Fixed Single-Exercise Equipment
-  if (equipment_lower.includes('press machine') || equipment_lower.includes('leg press') ||
-      equipment_lower.includes('pulldown') || equipment_lower.includes('curl machine') ||
-      equipment_lower.includes('extension machine') || equipment_lower.includes('fly machine')) {
-    return { type: 'fixed_machine', canSupport: ['dumbbells', 'bodyweight', 'bands'] };
-  }
-  
-  // Bodyweight/Minimal Equipment
-  if (equipment_lower.includes('bodyweight') || equipment_lower === 'bodyweight') {
-    return { type: 'bodyweight', canSupport: ['bodyweight', 'bands', 'dumbbells'] };
-  }
-  
-  // Default to portable
-  return { type: 'portable', canSupport: ['bodyweight', 'bands'] };
-}
-
-function isPortableEquipmentServer(equipment: string): boolean {
-  const equipment_lower = equipment.toLowerCase();
-  return equipment_lower.includes('dumbbell') || 
-         equipment_lower.includes('resistance band') ||
-         equipment_lower.includes('bodyweight') ||
-         equipment_lower.includes('kettlebell') ||
-         equipment_lower.includes('medicine ball');
-}
-
-function getExerciseQualityScoreServer(equipment: string, exerciseType: string): number {
-  const equipment_lower = equipment.toLowerCase();
-  
-  // Premium exercise quality (full range of motion, optimal setup)
-  if (equipment_lower.includes('barbell') || equipment_lower.includes('dumbbell') ||
-      equipment_lower.includes('cable')) {
-    return 5; // High quality strength exercises (max 5 pts bonus)
-  }
-  
-  // Excellent bodyweight exercises (full range, proven effectiveness)
-  if (equipment_lower.includes('bodyweight') && 
-      (exerciseType?.toLowerCase().includes('push') || exerciseType?.toLowerCase().includes('pull'))) {
-    return 4; // Push-ups, pull-ups are excellent
-  }
-  
-  // Good bodyweight exercises
-  if (equipment_lower.includes('bodyweight')) {
-    return 3; // Other bodyweight exercises
-  }
-  
-  // Functional equipment
-  if (equipment_lower.includes('band') || equipment_lower.includes('medicine ball')) {
-    return 2; // Good accessory tools
-  }
-  
-  // Default
-  return 1;
-}
-
-function calculateEquipmentEcosystemEfficiencyServer(exerciseA: Exercise, exerciseB: Exercise): { equipmentScore: number; equipmentReason: string | null } {
-  const ecosystemA = getEquipmentEcosystemServer(exerciseA.equipment);
-  const ecosystemB = getEquipmentEcosystemServer(exerciseB.equipment);
-  
-  // Same equipment = maximum efficiency (35 pts)
-  if (exerciseA.equipment === exerciseB.equipment) {
-    const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-    return { 
-      equipmentScore: 35 + qualityBonus, 
-      equipmentReason: "Same equipment for seamless transitions" 
-    };
-  }
-  
-  // Equipment ecosystem compatibility (30 pts)
-  if (ecosystemA.type === 'rack_hub') {
-    if (exerciseB.equipment.toLowerCase().includes('barbell')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 30 + qualityBonus, 
-        equipmentReason: "Both exercises use the same rack setup" 
-      };
-    }
-    if (exerciseB.equipment.toLowerCase().includes('pull-up')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 30 + qualityBonus, 
-        equipmentReason: "Rack supports both barbell and pull-up exercises" 
-      };
-    }
-    if (exerciseB.equipment.toLowerCase().includes('dumbbell') || 
-        exerciseB.equipment.toLowerCase().includes('bodyweight')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 30 + qualityBonus, 
-        equipmentReason: "Can add dumbbells/bodyweight exercises in rack area" 
-      };
-    }
-  }
-  
-  if (ecosystemA.type === 'bench_barbell_hub' || ecosystemA.type === 'bench_dumbbell') {
-    if (exerciseB.equipment.toLowerCase().includes('barbell') ||
-        exerciseB.equipment.toLowerCase().includes('dumbbell') ||
-        exerciseB.equipment.toLowerCase().includes('bodyweight')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 30 + qualityBonus, 
-        equipmentReason: "Can maximize bench utility with dumbbells/bodyweight" 
-      };
-    }
-  }
-  
-  if (ecosystemA.type === 'cable_hub') {
-    if (exerciseB.equipment.toLowerCase().includes('cable')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 30 + qualityBonus, 
-        equipmentReason: "Both use same cable station with different attachments" 
-      };
-    }
-    if (exerciseB.equipment.toLowerCase().includes('dumbbell') || 
-        exerciseB.equipment.toLowerCase().includes('bodyweight')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 25 + qualityBonus, 
-        equipmentReason: "Can add dumbbells/bodyweight beside cable station" 
-      };
-    }
-  }
-  
-  // Fixed machine + portable addition (25 pts)
-  if (ecosystemA.type === 'fixed_machine') {
-    if (exerciseB.equipment.toLowerCase().includes('dumbbell')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 25 + qualityBonus, 
-        equipmentReason: "Can add dumbbell exercises beside machine (better than bodyweight for strength)" 
-      };
-    }
-    if (exerciseB.equipment.toLowerCase().includes('bodyweight')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 20 + qualityBonus, 
-        equipmentReason: "Can add bodyweight exercises beside machine" 
-      };
-    }
-    if (exerciseB.equipment.toLowerCase().includes('band')) {
-      const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-      return { 
-        equipmentScore: 15 + qualityBonus, 
-        equipmentReason: "Can add resistance band exercises beside machine" 
-      };
-    }
-  }
-  
-  // Portable equipment pairing (20 pts)
-  if (isPortableEquipmentServer(exerciseA.equipment) && isPortableEquipmentServer(exerciseB.equipment)) {
-    const qualityBonus = getExerciseQualityScoreServer(exerciseB.equipment, exerciseB.exerciseType || '');
-    return { 
-      equipmentScore: 20 + qualityBonus, 
-      equipmentReason: "Both exercises use portable equipment" 
-    };
-  }
-  
-  // Poor efficiency - requires multiple major equipment pieces (5 pts)
-  return { 
-    equipmentScore: 5, 
-    equipmentReason: "Poor gym etiquette - requires multiple equipment pieces" 
-  };
-}
-
-// Legacy compatibility functions
-function calculateCompatibilityScore(exerciseA: Exercise, exerciseB: Exercise): number {
-  const result = calculateCompatibilityScoreWithReasoning(exerciseA, exerciseB);
-  return result.score;
-}
-
-function generatePairingReasoning(exerciseA: Exercise, exerciseB: Exercise): string[] {
-  const result = calculateCompatibilityScoreWithReasoning(exerciseA, exerciseB);
-  return result.reasoning;
-}
-
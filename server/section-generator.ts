@@ -0,0 +1,271 @@
+/**
+ * Warm-up / Cool-down / Finisher Generation
+ *
+ * Builds warm-up, finisher and cool-down blocks around a workout's main blocks,
+ * from the muscle groups and movement patterns those blocks train:
+ * - warm-up: pulse raiser (transition) + one round of prep movements (custom_sequence)
+ * - finisher (opt-in): short conditioning circuit in the trained patterns (custom_sequence)
+ * - cool-down: stretches for the trained muscles (custom_sequence) + breathing (transition)
+ *
+ * Exercises come from the catalog. When it has nothing suitable, warm-up and
+ * cool-down fall back to a coached transition block so the workout still opens
+ * and closes properly; the finisher is simply left out. Generated blocks carry
+ * their section, which the compiler stamps on every step.
+ */
+
+import { storage } from "./storage";
+import type { Exercise } from "@shared/schema";
+import type { BlockDTOType } from "@shared/dto";
+
+const WARMUP_TERMS = ["warm", "activation", "mobility", "dynamic", "prehab"];
+const COOLDOWN_TERMS = ["stretch", "cool", "flexibility", "mobility", "recovery"];
+const FINISHER_TERMS = ["conditioning", "cardio", "plyometric", "metabolic", "hiit", "explosive", "jump", "sprint"];
+
+const MAX_SECTION_EXERCISES = 4;
+const PULSE_RAISER_SEC = 180;
+const WARMUP_WORK_SEC = 30;
+const COOLDOWN_HOLD_SEC = 40;
+const SECTION_CHANGEOVER_SEC = 10;
+const STRETCH_PER_MUSCLE_SEC = 60;
+const BREATHING_SEC = 60;
+const MAX_FINISHER_EXERCISES = 3;
+const FINISHER_ROUNDS = 2;
+const FINISHER_WORK_SEC = 20;
+const FINISHER_REST_SEC = 10;
+
+export interface SectionTargets {
+  muscleGroups: string[];
+  movementPatterns: string[];
+}
+
+export interface GeneratedSections {
+  targets: SectionTargets;
+  warmup: BlockDTOType[];
+  finisher: BlockDTOType[];
+  cooldown: BlockDTOType[];
+  blocks: BlockDTOType[]; // warm-up + main + finisher + cool-down, ready to save
+}
+
+function lower(values: Array<string | null | undefined>): string[] {
+  return Array.from(new Set(
+    values.filter((v): v is string => !!v && v.trim().length > 0).map(v => v.trim().toLowerCase())
+  ));
+}
+
+function muscleGroupsOf(exercise: Exercise): string[] {
+  return lower([exercise.primaryMuscleGroup, ...exercise.secondaryMuscleGroup, ...exercise.primaryMuscles]);
+}
+
+function patternOf(exercise: Exercise): string | undefined {
+  return lower([exercise.exerciseType || exercise.movementPattern])[0];
+}
+
+function matchesTerms(exercise: Exercise, terms: string[]): boolean {
+  const text = lower([exercise.name, exercise.category, ...exercise.exerciseCategory, ...exercise.tags]).join(" ");
+  return terms.some(term => text.includes(term));
+}
+
+function isBodyweight(exercise: Exercise): boolean {
+  return /body\s*weight|none/i.test(exercise.equipmentPrimary || exercise.equipment);
+}
+
+// Warm-up and cool-down are always regenerated; finishers only when a new one is asked for
+function isKeptBlock(block: BlockDTOType, replaceFinisher: boolean): boolean {
+  if (block.section === "warmup" || block.section === "cooldown") return false;
+  return !(replaceFinisher && block.section === "finisher");
+}
+
+/**
+ * Muscle groups and movement patterns trained by the main blocks, most frequent first.
+ */
+export async function collectSectionTargets(mainBlocks: BlockDTOType[]): Promise<SectionTargets> {
+  const muscleCounts = new Map<string, number>();
+  const patternCounts = new Map<string, number>();
+
+  for (const block of mainBlocks) {
+    for (const ref of block.exercises ?? []) {
+      const exercise = await storage.getExercise(ref.exerciseId);
+      if (!exercise) continue;
+      for (const muscle of muscleGroupsOf(exercise)) {
+        muscleCounts.set(muscle, (muscleCounts.get(muscle) ?? 0) + 1);
+      }
+      const pattern = patternOf(exercise);
+      if (pattern && pattern !== "general") {
+        patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + 1);
+      }
+    }
+  }
+
+  const byCount = (counts: Map<string, number>) =>
+    Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([key]) => key);
+
+  return { muscleGroups: byCount(muscleCounts), movementPatterns: byCount(patternCounts) };
+}
+
+// Score catalog exercises against the targets. Tagged prep/stretch exercises qualify
+// outright; for the warm-up, easy bodyweight moves in a trained pattern qualify too.
+function rankCandidates(
+  catalog: Exercise[],
+  targets: SectionTargets,
+  terms: string[],
+  excludeIds: Set<number>,
+  allowEasyBodyweight: boolean
+): Exercise[] {
+  const scored: Array<{ exercise: Exercise; score: number }> = [];
+
+  for (const exercise of catalog) {
+    if (excludeIds.has(exercise.id)) continue;
+
+    const tagged = matchesTerms(exercise, terms);
+    const pattern = patternOf(exercise);
+    const patternMatch = !!pattern && targets.movementPatterns.includes(pattern);
+    const easyBodyweight = allowEasyBodyweight && exercise.difficulty <= 2 && isBodyweight(exercise) && patternMatch;
+    if (!tagged && !easyBodyweight) continue;
+
+    const muscleOverlap = muscleGroupsOf(exercise).filter(m => targets.muscleGroups.includes(m)).length;
+    if (muscleOverlap === 0 && !patternMatch) continue;
+
+    scored.push({
+      exercise,
+      score: muscleOverlap * 3 + (patternMatch ? 2 : 0) + (tagged ? 2 : 0) - exercise.difficulty,
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.exercise.id - b.exercise.id)
+    .map(s => s.exercise);
+}
+
+// Greedy pick that spreads the section across the trained muscle groups
+function pickCovering(candidates: Exercise[], targets: SectionTargets): Exercise[] {
+  const picked: Exercise[] = [];
+  const covered = new Set<string>();
+
+  for (const exercise of candidates) {
+    if (picked.length >= MAX_SECTION_EXERCISES) break;
+    const adds = muscleGroupsOf(exercise).some(m => targets.muscleGroups.includes(m) && !covered.has(m));
+    if (adds || covered.size >= targets.muscleGroups.length) {
+      picked.push(exercise);
+      muscleGroupsOf(exercise).forEach(m => covered.add(m));
+    }
+  }
+  for (const exercise of candidates) {
+    if (picked.length >= MAX_SECTION_EXERCISES) break;
+    if (!picked.includes(exercise)) picked.push(exercise);
+  }
+
+  return picked;
+}
+
+function sectionSequence(name: string, pattern: "circuit" | "straight_sets", workSec: number, exercises: Exercise[], section: "warmup" | "cooldown"): BlockDTOType {
+  return {
+    name,
+    type: "custom_sequence",
+    section,
+    params: {
+      type: "custom_sequence",
+      pattern,
+      mode: "time",
+      setsPerExercise: 1,
+      workSec,
+      restSec: SECTION_CHANGEOVER_SEC,
+      roundRestSec: 0,
+      transitionSec: 0,
+      awaitReadyBeforeStart: false,
+    },
+    exercises: exercises.map(ex => ({ exerciseId: ex.id })),
+  };
+}
+
+// Circuit of short intervals, repeated for a couple of rounds
+function finisherSequence(name: string, exercises: Exercise[]): BlockDTOType {
+  return {
+    name,
+    type: "custom_sequence",
+    section: "finisher",
+    params: {
+      type: "custom_sequence",
+      pattern: "circuit",
+      mode: "time",
+      setsPerExercise: FINISHER_ROUNDS,
+      workSec: FINISHER_WORK_SEC,
+      restSec: FINISHER_REST_SEC,
+      roundRestSec: 0,
+      transitionSec: 0,
+      awaitReadyBeforeStart: false,
+    },
+    exercises: exercises.map(ex => ({ exerciseId: ex.id })),
+  };
+}
+
+function transitionBlock(name: string, durationSec: number, section: "warmup" | "cooldown"): BlockDTOType {
+  return {
+    name,
+    type: "transition",
+    section,
+    params: { type: "transition", durationSec },
+  };
+}
+
+function focusLabel(targets: SectionTargets): string {
+  const focus = targets.muscleGroups.slice(0, 3);
+  return focus.length > 0 ? focus.join(", ") : "full body";
+}
+
+/**
+ * Generate warm-up and cool-down blocks for a workout, plus a finisher when asked.
+ * Existing warm-up and cool-down blocks are replaced, so regenerating after editing
+ * the main work is safe. Existing finishers are replaced only when a finisher is
+ * generated; otherwise they stay in place alongside the main work.
+ */
+export async function generateSectionBlocks(
+  blocks: BlockDTOType[],
+  options: { warmup?: boolean; cooldown?: boolean; finisher?: boolean; isAvailable?: (exercise: Exercise) => boolean } = {}
+): Promise<GeneratedSections> {
+  const { warmup = true, cooldown = true, finisher = false, isAvailable } = options;
+  const mainBlocks = blocks
+    .filter(block => isKeptBlock(block, finisher))
+    .map(block => ({ ...block, section: block.section ?? "main" as const }));
+  const targets = await collectSectionTargets(mainBlocks);
+  // A gym's inventory narrows what the generated sections can use
+  const catalog = (await storage.getAllExercises()).filter(ex => !isAvailable || isAvailable(ex));
+  const mainIds = new Set(mainBlocks.flatMap(block => (block.exercises ?? []).map(ex => ex.exerciseId)));
+
+  const warmupBlocks: BlockDTOType[] = [];
+  if (warmup) {
+    warmupBlocks.push(transitionBlock("Pulse raiser: easy cardio", PULSE_RAISER_SEC, "warmup"));
+    const prep = pickCovering(rankCandidates(catalog, targets, WARMUP_TERMS, mainIds, true), targets);
+    if (prep.length > 0) {
+      warmupBlocks.push(sectionSequence(`Warm-up: ${focusLabel(targets)}`, "circuit", WARMUP_WORK_SEC, prep, "warmup"));
+    }
+  }
+
+  const finisherBlocks: BlockDTOType[] = [];
+  if (finisher) {
+    const conditioning = rankCandidates(catalog, targets, FINISHER_TERMS, mainIds, false)
+      .slice(0, MAX_FINISHER_EXERCISES);
+    if (conditioning.length > 0) {
+      finisherBlocks.push(finisherSequence(`Finisher: ${focusLabel(targets)}`, conditioning));
+    }
+  }
+
+  const cooldownBlocks: BlockDTOType[] = [];
+  if (cooldown) {
+    const stretches = pickCovering(rankCandidates(catalog, targets, COOLDOWN_TERMS, mainIds, false), targets);
+    if (stretches.length > 0) {
+      cooldownBlocks.push(sectionSequence(`Cool-down: ${focusLabel(targets)}`, "straight_sets", COOLDOWN_HOLD_SEC, stretches, "cooldown"));
+    } else {
+      const muscles = Math.max(1, Math.min(targets.muscleGroups.length, MAX_SECTION_EXERCISES));
+      cooldownBlocks.push(transitionBlock(`Stretch: ${focusLabel(targets)}`, muscles * STRETCH_PER_MUSCLE_SEC, "cooldown"));
+    }
+    cooldownBlocks.push(transitionBlock("Breathe and recover", BREATHING_SEC, "cooldown"));
+  }
+
+  return {
+    targets,
+    warmup: warmupBlocks,
+    finisher: finisherBlocks,
+    cooldown: cooldownBlocks,
+    blocks: [...warmupBlocks, ...mainBlocks, ...finisherBlocks, ...cooldownBlocks],
+  };
+}
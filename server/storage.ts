@@ -4,6 +4,8 @@ import {
   exercisePairings,
   users,
   contributions,
+  contributionVotes,
+  contributionModerationEvents,
   coachResponses,
   superSets,
   workouts,
@@ -17,7 +19,12 @@ import {
   blocks,
   blockExercises,
   blockWorkouts,
+  blockWorkoutVersions,
   blockWorkoutSessions,
+  blockSetLogs,
+  blockSessionSubstitutions,
+  userTrainingProfiles,
+  gymProfiles,
   type Exercise, 
   type InsertExercise,
   type WorkoutSession,
@@ -26,8 +33,13 @@ import {
   type InsertExercisePairing,
   type User,
   type UpsertUser,
+  type UserTrainingProfile,
+  type InsertUserTrainingProfile,
+  type GymProfile,
+  type InsertGymProfile,
   type Contribution,
   type InsertContribution,
+  type ContributionModerationEvent,
   type SuperSet,
   type InsertSuperSet,
   type Workout,
@@ -35,6 +47,9 @@ import {
   type WorkoutSuperSet,
   type InsertWorkoutSuperSet,
   type BlockWorkoutSession,
+  type BlockSetLog,
+  type InsertBlockSetLog,
+  type BlockSessionSubstitution,
   type WorkoutSessionNew,
   type InsertWorkoutSessionNew,
   type SetLog,
@@ -51,12 +66,38 @@ import {
   type InsertBlock,
   type BlockExercise,
   type InsertBlockExercise,
-  type BlockWorkout
+  type BlockWorkout,
+  type BlockWorkoutVersion
 } from "@shared/schema";
-import { airtableService } from "./airtable";
+import { syncExerciseCatalog } from "./exercise-sync";
 import { db } from "./db";
-import { eq, and, or, sql, desc, inArray } from "drizzle-orm";
-import { compileBlockToTimeline, compileWorkoutTimeline, type ExecutionTimeline, type TimelineStep } from "./timeline-compiler";
+import { eq, and, or, sql, desc, asc, inArray, isNull, isNotNull } from "drizzle-orm";
+import { estimateOneRepMax } from "@shared/one-rep-max";
+import { scorePairing } from "@shared/pairing-engine";
+import { getActivePairingWeights } from "./pairing-weights";
+import { convertLoad, type LoadUnit } from "@shared/units";
+import { EVENT_SCHEMA_VERSION, normalizeEventType, eventTypeAliases } from "@shared/events";
+import type { ExerciseRefType, ModerationDecisionDTOType } from "@shared/dto";
+import { compileBlockToTimeline, compileWorkoutTimeline, shiftStep, type ExecutionTimeline, type TimelineStep } from "./timeline-compiler";
+import { substituteInTimeline, createSetAttribution, type SubstitutionReason } from "./exercise-substitution";
+
+export type ModerationStatus = "pending" | "approved" | "rejected";
+
+export interface VoteTally {
+  upVotes: number;
+  downVotes: number;
+}
+
+export type ModerationQueueItem = Contribution & VoteTally;
+
+// A pending contribution is auto-verified once enough members agree its label is right
+export const CONSENSUS_MIN_VOTES = 3;
+export const CONSENSUS_AGREEMENT = 0.8;
+
+export function hasConsensus({ upVotes, downVotes }: VoteTally): boolean {
+  const total = upVotes + downVotes;
+  return total >= CONSENSUS_MIN_VOTES && upVotes / total >= CONSENSUS_AGREEMENT;
+}
 
 export interface IStorage {
   // Exercise methods
@@ -67,6 +108,7 @@ export interface IStorage {
   getExercisesByEquipment(equipment: string): Promise<Exercise[]>;
   searchExercises(query: string): Promise<Exercise[]>;
   createExercise(exercise: InsertExercise): Promise<Exercise>;
+  invalidateExerciseCache(): void;
 
   // Exercise pairing methods
   getExercisePairings(exerciseAId: number): Promise<ExercisePairing[]>;
@@ -75,6 +117,17 @@ export interface IStorage {
   // User methods (for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getTrainingProfile(userId: string): Promise<UserTrainingProfile>;
+  updateTrainingProfile(userId: string, updates: Partial<Omit<InsertUserTrainingProfile, "userId" | "estimatedOneRepMaxes">>): Promise<UserTrainingProfile>;
+  refreshEstimatedOneRepMaxes(userId: string): Promise<UserTrainingProfile>;
+
+  // Gym profile methods
+  getGymProfiles(userId: string): Promise<GymProfile[]>;
+  getGymProfile(id: number): Promise<GymProfile | undefined>;
+  createGymProfile(profile: InsertGymProfile): Promise<GymProfile>;
+  updateGymProfile(id: number, updates: Partial<Omit<InsertGymProfile, "id" | "userId" | "createdAt">>): Promise<GymProfile>;
+  deleteGymProfile(id: number): Promise<void>;
+  getSelectedGymProfile(userId: string): Promise<GymProfile | undefined>;
   
   // Contribution methods
   createContribution(contribution: InsertContribution): Promise<Contribution>;
@@ -82,6 +135,16 @@ export interface IStorage {
   getContributionStats(userId: string): Promise<{ total: number; verified: number }>;
   checkDuplicateImage(imageHash: string): Promise<boolean>;
   updateContributionLabel(id: string, equipment: string): Promise<Contribution>;
+  getContribution(id: string): Promise<Contribution | undefined>;
+
+  // Contribution moderation methods
+  getModerationQueue(filter: { status?: ModerationStatus; equipment?: string; limit?: number; offset?: number }): Promise<{ items: ModerationQueueItem[]; total: number }>;
+  getModerationCounts(): Promise<Record<ModerationStatus, number>>;
+  moderateContributions(ids: string[], actorId: string, decision: ModerationDecisionDTOType, bulkId?: string): Promise<Contribution[]>;
+  getContributionModerationEvents(filter: { contributionId?: string; actorId?: string; limit?: number }): Promise<ContributionModerationEvent[]>;
+  getCommunityReviewContributions(userId: string, limit?: number): Promise<Contribution[]>; // Pending, not the user's own, not yet voted on
+  voteOnContribution(id: string, userId: string, value: 1 | -1 | 0): Promise<{ contribution: Contribution } & VoteTally>;
+  setUserModeratorStatus(userId: string, isModerator: boolean): Promise<void>;
 
   // Super Sets methods
   createSuperSet(superSet: InsertSuperSet): Promise<SuperSet>;
@@ -101,6 +164,7 @@ export interface IStorage {
   // Workout Session methods
   startWorkoutSession(session: InsertWorkoutSessionNew): Promise<WorkoutSessionNew>;
   getActiveWorkoutSession(userId: string): Promise<any>;
+  getWorkoutSession(id: number): Promise<WorkoutSessionNew | undefined>;
   updateWorkoutSession(id: number, updates: Partial<InsertWorkoutSessionNew>): Promise<WorkoutSessionNew>;
   completeWorkoutSession(id: number, notes?: string): Promise<WorkoutSessionNew>;
   completeBlockWorkoutSession(id: number): Promise<BlockWorkoutSession>;
@@ -127,7 +191,7 @@ export interface IStorage {
   getWorkoutExercises(workoutSectionId: number): Promise<(WorkoutExercise & { exercise: Exercise })[]>;
   
   // Training data export methods
-  exportTrainingData(dataset?: string): Promise<Contribution[]>;
+  exportTrainingData(dataset?: string, options?: { approvedOnly?: boolean }): Promise<Contribution[]>;
   getTrainingDataStats(): Promise<{
     total: number;
     verified: number;
@@ -145,6 +209,7 @@ export interface IStorage {
       description?: string;
       type: string;
       params: any;
+      section?: string;
       exercises?: Array<{
         exerciseId: number;
         overrides?: {
@@ -156,30 +221,54 @@ export interface IStorage {
       }>;
     }>;
     createdBy: string;
+    ownerId?: string; // Member-built workout; omitted for staff workouts
+    isPublic?: boolean;
   }): Promise<BlockWorkout>;
-  getBlockWorkouts(): Promise<BlockWorkout[]>;
+  getBlockWorkouts(): Promise<BlockWorkout[]>; // Staff workouts plus members' public ones
+  getUserBlockWorkouts(ownerId: string): Promise<BlockWorkout[]>;
+  setBlockWorkoutVisibility(id: number, isPublic: boolean): Promise<BlockWorkout>;
   getAllBlockWorkouts(): Promise<BlockWorkout[]>; // Admin: includes unpublished
   getBlockWorkout(id: number): Promise<BlockWorkout | undefined>;
+  getPublishedBlockWorkout(id: number): Promise<BlockWorkout | undefined>; // Live version overlaid on the draft row
   getBlockWorkoutWithBlocks(id: number): Promise<any>; // Get workout with full block data for editing
   deleteBlockWorkout(id: number): Promise<void>;
+  hasOtherUsersBlockSessions(blockWorkoutId: number, userId: string): Promise<boolean>; // Another member's history depends on it
   togglePublishBlockWorkout(id: number): Promise<BlockWorkout>;
+  publishBlockWorkout(id: number, publishedBy: string | null, executionTimeline?: BlockWorkoutVersion["executionTimeline"]): Promise<BlockWorkoutVersion>;
+  republishBlockWorkoutVersion(id: number, version: number, publishedBy: string): Promise<BlockWorkoutVersion>;
+  getBlockWorkoutVersions(id: number): Promise<BlockWorkoutVersion[]>;
+  getBlockWorkoutVersion(id: number, version: number): Promise<BlockWorkoutVersion | undefined>;
   duplicateBlockWorkout(id: number, createdBy: string): Promise<BlockWorkout>;
   updateBlockWorkout(id: number, data: {
     name?: string;
     description?: string;
     blocks?: Array<{
-      id: string;
+      id?: string;
       name: string;
-      description: string;
+      description?: string;
       type?: string;
       params: any;
-      exercises: number[];
+      section?: string;
+      exercises?: Array<number | ExerciseRefType>; // Bare IDs or ExerciseRef objects with overrides
     }>;
   }): Promise<BlockWorkout>;
   
   // Block Workout Session methods
   startBlockWorkoutSession(userId: string, workoutId: number): Promise<any>;
   getActiveBlockWorkoutSession(userId: string): Promise<any>;
+  getBlockWorkoutSession(id: number): Promise<BlockWorkoutSession | undefined>;
+  checkpointBlockWorkoutSession(id: number, currentStep: number): Promise<BlockWorkoutSession>;
+  pauseBlockWorkoutSession(id: number, atStep?: number): Promise<BlockWorkoutSession>;
+  resumeBlockWorkoutSession(id: number): Promise<BlockWorkoutSession>;
+  abandonBlockWorkoutSession(id: number): Promise<BlockWorkoutSession>;
+  recordBlockSet(log: InsertBlockSetLog): Promise<BlockSetLog>;
+  getBlockSetLogs(blockWorkoutSessionId: number): Promise<BlockSetLog[]>;
+  getLastLoads(userId: string, exerciseIds?: number[]): Promise<BlockSetLog[]>;
+  substituteBlockSessionExercise(
+    session: BlockWorkoutSession,
+    swap: { originalExerciseId: number; substitute: Exercise; blockId: string | null; fromStep: number; reason: SubstitutionReason }
+  ): Promise<{ session: BlockWorkoutSession; substitution: BlockSessionSubstitution } | undefined>;
+  getBlockSessionSubstitutions(blockWorkoutSessionId: number): Promise<BlockSessionSubstitution[]>;
   
   // Coach Response methods
   getCoachResponses(filters: {
@@ -200,36 +289,56 @@ export interface IStorage {
 
 export class DatabaseStorage implements IStorage {
   private exerciseCache: Map<number, Exercise> = new Map();
-  private exerciseOrder: Exercise[] = []; // Preserve original order from Airtable
+  private exerciseOrder: Exercise[] = []; // Sorted by name, matching the Airtable view
   private currentSessionId: number = 1;
   private currentPairingId: number = 1;
   private cacheExpiry: number = 0;
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
   constructor() {
-    // No seed data needed - we'll fetch from Airtable
+    // No seed data needed - exercises are mirrored from Airtable
   }
 
+  // Exercises are read from the Postgres mirror of Airtable (see exercise-sync.ts)
   private async refreshCache(): Promise<void> {
     if (Date.now() < this.cacheExpiry && this.exerciseCache.size > 0) {
       return; // Cache is still valid
     }
 
     try {
-      const exercises = await airtableService.getAllExercises();
+      let rows = await this.loadMirroredExercises();
+      if (rows.length === 0) {
+        // Empty mirror (first boot) - populate it before serving reads
+        await syncExerciseCatalog("startup");
+        rows = await this.loadMirroredExercises();
+      }
+      if (rows.length === 0) {
+        throw new Error("Exercise catalog is empty and Airtable sync did not populate it");
+      }
+
       this.exerciseCache.clear();
-      this.exerciseOrder = exercises; // Preserve original Airtable order
-      exercises.forEach(exercise => {
+      this.exerciseOrder = rows;
+      rows.forEach(exercise => {
         this.exerciseCache.set(exercise.id, exercise);
       });
       this.cacheExpiry = Date.now() + this.CACHE_DURATION;
-      console.log(`Successfully loaded ${exercises.length} exercises from Airtable`);
+      console.log(`Successfully loaded ${rows.length} exercises from Postgres`);
     } catch (error) {
       console.error("Failed to refresh exercise cache:", error);
       throw error;
     }
   }
 
+  private async loadMirroredExercises(): Promise<Exercise[]> {
+    return db.select().from(exercises)
+      .where(isNull(exercises.removedAt))
+      .orderBy(asc(exercises.name)); // Same order as the Airtable view
+  }
+
+  invalidateExerciseCache(): void {
+    this.cacheExpiry = 0;
+  }
+
   private loadSampleExercises(): void {
     const sampleExercises: Exercise[] = [
       {
@@ -312,7 +421,7 @@ export class DatabaseStorage implements IStorage {
 
   async getAllExercises(): Promise<Exercise[]> {
     await this.refreshCache();
-    return this.exerciseOrder; // Return exercises in original Airtable order
+    return this.exerciseOrder;
   }
 
   async getExercisesByCategory(category: string): Promise<Exercise[]> {
@@ -402,6 +511,179 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Training profile - created with defaults on first access
+  async getTrainingProfile(userId: string): Promise<UserTrainingProfile> {
+    const [existing] = await db.select().from(userTrainingProfiles)
+      .where(eq(userTrainingProfiles.userId, userId));
+    if (existing) return existing;
+
+    const [created] = await db.insert(userTrainingProfiles)
+      .values({ userId })
+      .onConflictDoNothing()
+      .returning();
+    return created ?? (await db.select().from(userTrainingProfiles).where(eq(userTrainingProfiles.userId, userId)))[0];
+  }
+
+  async updateTrainingProfile(
+    userId: string,
+    updates: Partial<Omit<InsertUserTrainingProfile, "userId" | "estimatedOneRepMaxes">>
+  ): Promise<UserTrainingProfile> {
+    const [profile] = await db.insert(userTrainingProfiles)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userTrainingProfiles.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+
+    // Formula or unit change re-derives every estimate
+    if (updates.oneRepMaxFormula || updates.preferredUnits) {
+      return this.refreshEstimatedOneRepMaxes(userId);
+    }
+    return profile;
+  }
+
+  // User's logged block sets, optionally for one exercise
+  private async oneRepMaxLogs(userId: string, exerciseId?: number) {
+    return db
+      .select({
+        exerciseId: blockSetLogs.exerciseId,
+        weight: blockSetLogs.weight,
+        loadUnit: blockSetLogs.loadUnit,
+        reps: blockSetLogs.reps,
+        loggedAt: blockSetLogs.loggedAt,
+      })
+      .from(blockSetLogs)
+      .innerJoin(blockWorkoutSessions, eq(blockSetLogs.blockWorkoutSessionId, blockWorkoutSessions.id))
+      .where(exerciseId === undefined
+        ? eq(blockWorkoutSessions.userId, userId)
+        : and(eq(blockWorkoutSessions.userId, userId), eq(blockSetLogs.exerciseId, exerciseId)));
+  }
+
+  // Best estimated 1RM per exercise among the logs, in the profile's preferred units (names left blank)
+  private bestOneRepMaxes(
+    logs: Awaited<ReturnType<DatabaseStorage["oneRepMaxLogs"]>>,
+    profile: UserTrainingProfile
+  ): UserTrainingProfile["estimatedOneRepMaxes"] {
+    const formula = profile.oneRepMaxFormula === "brzycki" ? "brzycki" : "epley";
+    const units: LoadUnit = profile.preferredUnits === "kg" ? "kg" : "lbs";
+
+    const best: UserTrainingProfile["estimatedOneRepMaxes"] = {};
+    for (const log of logs) {
+      const weight = log.weight === null ? 0 : convertLoad(log.weight, log.loadUnit === "kg" ? "kg" : "lbs", units);
+      const oneRepMax = estimateOneRepMax(weight, log.reps ?? 0, formula);
+      if (oneRepMax === null) continue;
+      const key = log.exerciseId.toString();
+      if (!best[key] || oneRepMax > best[key].oneRepMax) {
+        best[key] = {
+          exerciseName: "",
+          oneRepMax,
+          weight,
+          reps: log.reps!,
+          loggedAt: (log.loggedAt ?? new Date()).toISOString(),
+        };
+      }
+    }
+    return best;
+  }
+
+  // Re-derive one exercise's estimate after a set is logged. Only that exercise's
+  // logs are read; a re-logged set can lower the best, so it isn't a simple max.
+  private async refreshEstimatedOneRepMax(userId: string, exerciseId: number): Promise<void> {
+    const profile = await this.getTrainingProfile(userId);
+    const key = exerciseId.toString();
+    const entry = this.bestOneRepMaxes(await this.oneRepMaxLogs(userId, exerciseId), profile)[key];
+    const estimates = { ...profile.estimatedOneRepMaxes };
+
+    if (entry) {
+      const [block] = await db.select({ exerciseName: blockExercises.exerciseName })
+        .from(blockExercises)
+        .where(eq(blockExercises.exerciseId, exerciseId))
+        .limit(1);
+      entry.exerciseName = estimates[key]?.exerciseName || block?.exerciseName || (await this.getExercise(exerciseId))?.name || "";
+      estimates[key] = entry;
+    } else if (estimates[key]) {
+      delete estimates[key];
+    } else {
+      return;
+    }
+
+    await db.update(userTrainingProfiles)
+      .set({ estimatedOneRepMaxes: estimates, updatedAt: new Date() })
+      .where(eq(userTrainingProfiles.userId, userId));
+  }
+
+  // Recompute the best estimated 1RM per exercise from all of the user's logged block sets.
+  // Backfill and formula/unit changes only; logging a set refreshes just that exercise.
+  async refreshEstimatedOneRepMaxes(userId: string): Promise<UserTrainingProfile> {
+    const profile = await this.getTrainingProfile(userId);
+    const best = this.bestOneRepMaxes(await this.oneRepMaxLogs(userId), profile);
+
+    // Names come from the block exercise snapshots (exercise IDs are Airtable IDs)
+    const exerciseIds = Object.keys(best).map(Number);
+    if (exerciseIds.length > 0) {
+      const names = await db
+        .select({ exerciseId: blockExercises.exerciseId, exerciseName: blockExercises.exerciseName })
+        .from(blockExercises)
+        .where(inArray(blockExercises.exerciseId, exerciseIds));
+      names.forEach(n => {
+        const entry = best[n.exerciseId.toString()];
+        if (entry && !entry.exerciseName) entry.exerciseName = n.exerciseName;
+      });
+
+      // Mid-session substitutes aren't in any block; name them from the catalog
+      for (const [key, entry] of Object.entries(best)) {
+        if (!entry.exerciseName) entry.exerciseName = (await this.getExercise(Number(key)))?.name ?? "";
+      }
+    }
+
+    const [updated] = await db.update(userTrainingProfiles)
+      .set({ estimatedOneRepMaxes: best, updatedAt: new Date() })
+      .where(eq(userTrainingProfiles.userId, userId))
+      .returning();
+    return updated;
+  }
+
+  async getGymProfiles(userId: string): Promise<GymProfile[]> {
+    return db.select().from(gymProfiles)
+      .where(eq(gymProfiles.userId, userId))
+      .orderBy(asc(gymProfiles.name));
+  }
+
+  async getGymProfile(id: number): Promise<GymProfile | undefined> {
+    const [profile] = await db.select().from(gymProfiles).where(eq(gymProfiles.id, id));
+    return profile;
+  }
+
+  async createGymProfile(profile: InsertGymProfile): Promise<GymProfile> {
+    const [created] = await db.insert(gymProfiles).values(profile).returning();
+    return created;
+  }
+
+  async updateGymProfile(id: number, updates: Partial<Omit<InsertGymProfile, "id" | "userId" | "createdAt">>): Promise<GymProfile> {
+    const [updated] = await db.update(gymProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(gymProfiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Clears the selection of anyone who had this gym selected first
+  async deleteGymProfile(id: number): Promise<void> {
+    await db.update(userTrainingProfiles)
+      .set({ selectedGymProfileId: null, updatedAt: new Date() })
+      .where(eq(userTrainingProfiles.selectedGymProfileId, id));
+    await db.delete(gymProfiles).where(eq(gymProfiles.id, id));
+  }
+
+  async getSelectedGymProfile(userId: string): Promise<GymProfile | undefined> {
+    const [row] = await db.select({ gym: gymProfiles })
+      .from(userTrainingProfiles)
+      .innerJoin(gymProfiles, eq(userTrainingProfiles.selectedGymProfileId, gymProfiles.id))
+      .where(eq(userTrainingProfiles.userId, userId));
+    return row?.gym;
+  }
+
   async setUserAdminStatus(userId: string, isAdmin: boolean): Promise<void> {
     await db
       .update(users)
@@ -409,6 +691,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  async setUserModeratorStatus(userId: string, isModerator: boolean): Promise<void> {
+    await db
+      .update(users)
+      .set({ isModerator, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
   // Contribution methods
   async createContribution(insertContribution: InsertContribution): Promise<Contribution> {
     const id = `contrib_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -523,12 +812,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Training data export methods for AI model development
-  async exportTrainingData(dataset?: string): Promise<Contribution[]> {
-    let query = db.select().from(contributions);
-    
+  async exportTrainingData(dataset?: string, options: { approvedOnly?: boolean } = {}): Promise<Contribution[]> {
+    const conditions = [];
     if (dataset && dataset !== 'all') {
-      query = query.where(eq(contributions.trainingSet, dataset as any));
+      conditions.push(eq(contributions.trainingSet, dataset as any));
     }
+    if (options.approvedOnly) {
+      conditions.push(eq(contributions.moderationStatus, 'approved'));
+    }
+
+    const query = db.select().from(contributions).where(and(...conditions));
     
     const allContributions = await query;
     console.log(`Exporting training data for dataset: ${dataset || 'all'} - ${allContributions.length} contributions`);
@@ -602,6 +895,216 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getContribution(id: string): Promise<Contribution | undefined> {
+    const [contribution] = await db.select().from(contributions).where(eq(contributions.id, id));
+    return contribution;
+  }
+
+  // Contribution moderation methods
+  async getModerationQueue(filter: { status?: ModerationStatus; equipment?: string; limit?: number; offset?: number }): Promise<{ items: ModerationQueueItem[]; total: number }> {
+    const status = filter.status ?? 'pending';
+    const conditions = [eq(contributions.moderationStatus, status)];
+    if (filter.equipment) {
+      conditions.push(eq(contributions.equipment, filter.equipment));
+    }
+    const where = and(...conditions);
+
+    // Pending work is reviewed oldest first; decided items show the latest decisions first
+    const rows = await db
+      .select()
+      .from(contributions)
+      .where(where)
+      .orderBy(status === 'pending' ? asc(contributions.createdAt) : desc(contributions.updatedAt))
+      .limit(filter.limit ?? 20)
+      .offset(filter.offset ?? 0);
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(contributions)
+      .where(where);
+
+    const tallies = await this.getVoteTallies(rows.map(row => row.id));
+    return {
+      items: rows.map(row => ({ ...row, ...(tallies.get(row.id) ?? { upVotes: 0, downVotes: 0 }) })),
+      total,
+    };
+  }
+
+  async getModerationCounts(): Promise<Record<ModerationStatus, number>> {
+    const rows = await db
+      .select({ status: contributions.moderationStatus, count: sql<number>`count(*)::int` })
+      .from(contributions)
+      .groupBy(contributions.moderationStatus);
+
+    const counts: Record<ModerationStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    for (const row of rows) {
+      counts[row.status ?? 'pending'] += row.count;
+    }
+    return counts;
+  }
+
+  async moderateContributions(ids: string[], actorId: string, decision: ModerationDecisionDTOType, bulkId?: string): Promise<Contribution[]> {
+    const targets = await db.select().from(contributions).where(inArray(contributions.id, ids));
+
+    const updated: Contribution[] = [];
+    for (const contribution of targets) {
+      updated.push(await this.applyModeration(contribution, {
+        action: decision.action,
+        actorId,
+        equipment: decision.equipment,
+        notes: decision.notes,
+        bulkId,
+      }));
+    }
+    return updated;
+  }
+
+  /**
+   * Change a contribution's status and/or label and record it in the audit trail.
+   * A label change also renames boxes that carried the old label and clears the
+   * community votes, since those were cast on the old label.
+   */
+  private async applyModeration(contribution: Contribution, change: {
+    action: ContributionModerationEvent["action"];
+    actorId: string | null;
+    equipment?: string;
+    notes?: string;
+    bulkId?: string;
+  }): Promise<Contribution> {
+    const fromStatus = contribution.moderationStatus ?? 'pending';
+    const toStatus = change.action === 'reject' ? 'rejected'
+      : change.action === 'relabel' ? fromStatus
+      : 'approved';
+    const fromLabel = contribution.equipment;
+    const toLabel = change.equipment ?? fromLabel;
+
+    const updates: Partial<typeof contributions.$inferInsert> = {
+      moderationStatus: toStatus,
+      verified: toStatus === 'approved',
+      updatedAt: new Date(),
+    };
+    if (change.actorId) {
+      updates.moderatorId = change.actorId;
+      if (change.notes !== undefined) updates.moderationNotes = change.notes;
+    }
+    if (toLabel !== fromLabel) {
+      updates.equipment = toLabel;
+      updates.tags = this.generateEquipmentTags(toLabel);
+      updates.boundingBoxes = contribution.boundingBoxes?.map(box => box.label === fromLabel ? { ...box, label: toLabel } : box);
+      updates.votes = 0;
+      await db.delete(contributionVotes).where(eq(contributionVotes.contributionId, contribution.id));
+    }
+
+    const [updated] = await db
+      .update(contributions)
+      .set(updates)
+      .where(eq(contributions.id, contribution.id))
+      .returning();
+
+    await db.insert(contributionModerationEvents).values({
+      contributionId: contribution.id,
+      actorId: change.actorId,
+      action: change.action,
+      fromStatus,
+      toStatus,
+      fromLabel,
+      toLabel,
+      notes: change.notes ?? null,
+      bulkId: change.bulkId ?? null,
+    });
+
+    return updated;
+  }
+
+  async getContributionModerationEvents(filter: { contributionId?: string; actorId?: string; limit?: number }): Promise<ContributionModerationEvent[]> {
+    const conditions = [];
+    if (filter.contributionId) {
+      conditions.push(eq(contributionModerationEvents.contributionId, filter.contributionId));
+    }
+    if (filter.actorId) {
+      conditions.push(eq(contributionModerationEvents.actorId, filter.actorId));
+    }
+
+    return await db
+      .select()
+      .from(contributionModerationEvents)
+      .where(and(...conditions))
+      .orderBy(desc(contributionModerationEvents.at), desc(contributionModerationEvents.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getCommunityReviewContributions(userId: string, limit = 10): Promise<Contribution[]> {
+    const rows = await db
+      .select({ contribution: contributions })
+      .from(contributions)
+      .leftJoin(contributionVotes, and(
+        eq(contributionVotes.contributionId, contributions.id),
+        eq(contributionVotes.userId, userId),
+      ))
+      .where(and(
+        eq(contributions.moderationStatus, 'pending'),
+        sql`${contributions.userId} <> ${userId}`,
+        isNull(contributionVotes.id),
+      ))
+      .orderBy(asc(contributions.votes), asc(contributions.createdAt))
+      .limit(limit);
+
+    return rows.map(row => row.contribution);
+  }
+
+  async voteOnContribution(id: string, userId: string, value: 1 | -1 | 0): Promise<{ contribution: Contribution } & VoteTally> {
+    if (value === 0) {
+      await db
+        .delete(contributionVotes)
+        .where(and(eq(contributionVotes.contributionId, id), eq(contributionVotes.userId, userId)));
+    } else {
+      await db
+        .insert(contributionVotes)
+        .values({ contributionId: id, userId, value })
+        .onConflictDoUpdate({
+          target: [contributionVotes.contributionId, contributionVotes.userId],
+          set: { value, updatedAt: new Date() },
+        });
+    }
+
+    const tally = (await this.getVoteTallies([id])).get(id) ?? { upVotes: 0, downVotes: 0 };
+    let [contribution] = await db
+      .update(contributions)
+      .set({ votes: tally.upVotes - tally.downVotes })
+      .where(eq(contributions.id, id))
+      .returning();
+
+    if ((contribution.moderationStatus ?? 'pending') === 'pending' && hasConsensus(tally)) {
+      contribution = await this.applyModeration(contribution, {
+        action: 'auto_verify',
+        actorId: null,
+        notes: `Community consensus: ${tally.upVotes} up, ${tally.downVotes} down`,
+      });
+    }
+
+    return { contribution, ...tally };
+  }
+
+  private async getVoteTallies(contributionIds: string[]): Promise<Map<string, VoteTally>> {
+    const tallies = new Map<string, VoteTally>();
+    if (contributionIds.length === 0) return tallies;
+
+    const rows = await db
+      .select({
+        contributionId: contributionVotes.contributionId,
+        upVotes: sql<number>`count(*) filter (where ${contributionVotes.value} > 0)::int`,
+        downVotes: sql<number>`count(*) filter (where ${contributionVotes.value} < 0)::int`,
+      })
+      .from(contributionVotes)
+      .where(inArray(contributionVotes.contributionId, contributionIds))
+      .groupBy(contributionVotes.contributionId);
+
+    for (const row of rows) {
+      tallies.set(row.contributionId, { upVotes: row.upVotes, downVotes: row.downVotes });
+    }
+    return tallies;
+  }
+
   // Trainer pairs management methods
   async getTrainerApprovedPairs(): Promise<any[]> {
     const results = await db
@@ -654,8 +1157,9 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Invalid exercise IDs");
     }
     
-    const compatibilityScore = this.calculateCompatibilityScore(exerciseA, exerciseB);
-    const reasoning = this.generatePairingReasoning(exerciseA, exerciseB);
+    // Same engine as the recommendations route, so a saved pair keeps the score users saw
+    const { weights } = await getActivePairingWeights();
+    const { score: compatibilityScore, reasoning } = scorePairing(exerciseA, exerciseB, { weights });
     
     const [pairing] = await db
       .insert(exercisePairings)
@@ -693,62 +1197,6 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  private calculateCompatibilityScore(exerciseA: Exercise, exerciseB: Exercise): number {
-    let score = 50; // Base score
-    
-    // Opposing movement patterns get higher score
-    if (this.isOpposingMovementPattern(exerciseA.movementPattern, exerciseB.movementPattern)) {
-      score += 30;
-    }
-    
-    // Same equipment gets bonus for efficiency
-    if (exerciseA.equipment === exerciseB.equipment) {
-      score += 15;
-    }
-    
-    // Different muscle groups get bonus
-    if (!this.hasMuscleOverlap(exerciseA.primaryMuscleGroup, exerciseB.primaryMuscleGroup)) {
-      score += 15;
-    }
-    
-    return Math.min(score, 100);
-  }
-
-  private generatePairingReasoning(exerciseA: Exercise, exerciseB: Exercise): string[] {
-    const reasons = [];
-    
-    if (this.isOpposingMovementPattern(exerciseA.movementPattern, exerciseB.movementPattern)) {
-      reasons.push("Opposing movement patterns for balanced training");
-    }
-    
-    if (exerciseA.equipment === exerciseB.equipment) {
-      reasons.push("Same equipment for efficient transitions");
-    }
-    
-    if (!this.hasMuscleOverlap(exerciseA.primaryMuscleGroup, exerciseB.primaryMuscleGroup)) {
-      reasons.push("Different muscle groups allow for active recovery");
-    }
-    
-    return reasons;
-  }
-
-  private isOpposingMovementPattern(patternA: string, patternB: string): boolean {
-    const opposingPairs = [
-      ["push", "pull"],
-      ["squat", "hinge"],
-      ["horizontal", "vertical"]
-    ];
-    
-    return opposingPairs.some(pair => 
-      (patternA.includes(pair[0]) && patternB.includes(pair[1])) ||
-      (patternA.includes(pair[1]) && patternB.includes(pair[0]))
-    );
-  }
-
-  private hasMuscleOverlap(muscleA: string, muscleB: string): boolean {
-    return muscleA.toLowerCase() === muscleB.toLowerCase();
-  }
-
   async getTrainerApprovedPairingsByExercise(exerciseId: number): Promise<any[]> {
     const results = await db
       .select()
@@ -904,6 +1352,14 @@ export class DatabaseStorage implements IStorage {
     return session;
   }
 
+  async getWorkoutSession(id: number): Promise<WorkoutSessionNew | undefined> {
+    const [session] = await db
+      .select()
+      .from(workoutSessionsNew)
+      .where(eq(workoutSessionsNew.id, id));
+    return session;
+  }
+
   async updateWorkoutSession(id: number, updates: Partial<InsertWorkoutSessionNew>): Promise<WorkoutSessionNew> {
     const [session] = await db
       .update(workoutSessionsNew)
@@ -954,7 +1410,8 @@ export class DatabaseStorage implements IStorage {
       .update(blockWorkoutSessions)
       .set({
         status: "completed",
-        completedAt
+        completedAt,
+        ...this.closePauseInterval(session[0], completedAt)
       })
       .where(eq(blockWorkoutSessions.id, id))
       .returning();
@@ -1103,6 +1560,7 @@ export class DatabaseStorage implements IStorage {
       description?: string;
       type: string;
       params: any;
+      section?: string;
       exercises?: Array<{
         exerciseId: number;
         overrides?: {
@@ -1114,6 +1572,8 @@ export class DatabaseStorage implements IStorage {
       }>;
     }>;
     createdBy: string;
+    ownerId?: string;
+    isPublic?: boolean;
   }): Promise<BlockWorkout> {
     // Refresh cache to ensure we have latest exercise data
     await this.refreshCache();
@@ -1135,9 +1595,11 @@ export class DatabaseStorage implements IStorage {
       name: data.name,
       description: data.description,
       createdBy: data.createdBy,
+      ownerId: data.ownerId,
+      isPublic: data.isPublic ?? false,
       blockSequence: [],
       estimatedDurationMin: 0,
-      isPublished: true, // Auto-publish admin-created workouts
+      isPublished: true, // Auto-publish; member workouts are scoped by ownerId/isPublic instead
       publishedAt: new Date()
     }).returning();
 
@@ -1160,6 +1622,7 @@ export class DatabaseStorage implements IStorage {
         description: blockData.description,
         type: blockData.type || 'custom_sequence',
         params: blockData.params,
+        section: blockData.section ?? "main",
         createdBy: data.createdBy
       }).returning();
 
@@ -1240,16 +1703,14 @@ export class DatabaseStorage implements IStorage {
       data.name
     );
 
-    // Update workout with compiled timeline and increment version
+    // Update draft with compiled timeline, then publish it as version 1
     await db.update(blockWorkouts)
       .set({ 
         executionTimeline,
         estimatedDurationMin: Math.ceil(executionTimeline.workoutHeader.totalDurationSec / 60),
-        isPublished: true,
-        publishedAt: new Date(),
-        version: (workout.version || 0) + 1
       })
       .where(eq(blockWorkouts.id, workout.id));
+    await this.publishBlockWorkout(workout.id, data.createdBy, executionTimeline);
 
     // Fetch the complete workout with timeline
     const [completeWorkout] = await db.select().from(blockWorkouts)
@@ -1260,9 +1721,30 @@ export class DatabaseStorage implements IStorage {
 
   async getBlockWorkouts(): Promise<BlockWorkout[]> {
     const workouts = await db.select().from(blockWorkouts)
-      .where(eq(blockWorkouts.isPublished, true))
+      .where(and(
+        eq(blockWorkouts.isPublished, true),
+        or(isNull(blockWorkouts.ownerId), eq(blockWorkouts.isPublic, true))
+      ))
       .orderBy(desc(blockWorkouts.createdAt));
-    return workouts;
+    return this.withLiveVersions(workouts);
+  }
+
+  async getUserBlockWorkouts(ownerId: string): Promise<BlockWorkout[]> {
+    const workouts = await db.select().from(blockWorkouts)
+      .where(eq(blockWorkouts.ownerId, ownerId))
+      .orderBy(desc(blockWorkouts.createdAt));
+    return this.withLiveVersions(workouts);
+  }
+
+  async setBlockWorkoutVisibility(id: number, isPublic: boolean): Promise<BlockWorkout> {
+    const [updated] = await db.update(blockWorkouts)
+      .set({ isPublic })
+      .where(eq(blockWorkouts.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error("Workout not found");
+    }
+    return updated;
   }
 
   async getBlockWorkout(id: number): Promise<BlockWorkout | undefined> {
@@ -1271,6 +1753,45 @@ export class DatabaseStorage implements IStorage {
     return workout;
   }
 
+  async getPublishedBlockWorkout(id: number): Promise<BlockWorkout | undefined> {
+    const workout = await this.getBlockWorkout(id);
+    if (!workout) {
+      return undefined;
+    }
+    const [live] = await this.withLiveVersions([workout]);
+    return live;
+  }
+
+  // Swap draft content for the live published version so players never see unpublished edits.
+  // Workouts published before versioning have no version row and are returned as-is.
+  private async withLiveVersions(workouts: BlockWorkout[]): Promise<BlockWorkout[]> {
+    const versionIds = workouts
+      .map(w => w.publishedVersionId)
+      .filter((id): id is number => id !== null);
+    if (versionIds.length === 0) {
+      return workouts;
+    }
+
+    const versions = await db.select().from(blockWorkoutVersions)
+      .where(inArray(blockWorkoutVersions.id, versionIds));
+    const versionsById = new Map(versions.map(v => [v.id, v]));
+
+    return workouts.map(workout => {
+      const live = workout.publishedVersionId !== null ? versionsById.get(workout.publishedVersionId) : undefined;
+      if (!live) {
+        return workout;
+      }
+      return {
+        ...workout,
+        name: live.name,
+        description: live.description,
+        executionTimeline: live.executionTimeline as BlockWorkout["executionTimeline"],
+        estimatedDurationMin: live.estimatedDurationMin,
+        version: live.version,
+      };
+    });
+  }
+
   async getAllBlockWorkouts(): Promise<BlockWorkout[]> {
     // Admin-only: returns all workouts including unpublished
     const workouts = await db.select().from(blockWorkouts)
@@ -1309,7 +1830,8 @@ export class DatabaseStorage implements IStorage {
             exerciseId: e.exerciseId,
             targetReps: e.targetReps,
             workSec: e.workSec,
-            restSec: e.restSec
+            restSec: e.restSec,
+            overrides: e.overrides
           }))
         };
       })
@@ -1323,6 +1845,16 @@ export class DatabaseStorage implements IStorage {
     return { ...workout, blocks: sortedBlocks };
   }
 
+  async hasOtherUsersBlockSessions(blockWorkoutId: number, userId: string): Promise<boolean> {
+    const [other] = await db.select({ id: blockWorkoutSessions.id }).from(blockWorkoutSessions)
+      .where(and(
+        eq(blockWorkoutSessions.blockWorkoutId, blockWorkoutId),
+        sql`${blockWorkoutSessions.userId} <> ${userId}`
+      ))
+      .limit(1);
+    return !!other;
+  }
+
   async deleteBlockWorkout(id: number): Promise<void> {
     // Get block IDs to delete associated exercises
     const [workout] = await db.select().from(blockWorkouts)
@@ -1340,15 +1872,21 @@ export class DatabaseStorage implements IStorage {
     
     const sessionIds = sessions.map(s => s.id);
 
-    // Delete coaching sessions first (they reference blockWorkoutSessions)
+    // Delete coaching sessions, set logs and swaps first (they reference blockWorkoutSessions)
     if (sessionIds.length > 0) {
       await db.delete(coachingSessions)
         .where(inArray(coachingSessions.blockWorkoutSessionId, sessionIds));
+      await db.delete(blockSetLogs)
+        .where(inArray(blockSetLogs.blockWorkoutSessionId, sessionIds));
+      await db.delete(blockSessionSubstitutions)
+        .where(inArray(blockSessionSubstitutions.blockWorkoutSessionId, sessionIds));
     }
 
-    // Then delete workout sessions
+    // Then delete workout sessions and the published versions they pin
     await db.delete(blockWorkoutSessions)
       .where(eq(blockWorkoutSessions.blockWorkoutId, id));
+    await db.delete(blockWorkoutVersions)
+      .where(eq(blockWorkoutVersions.blockWorkoutId, id));
 
     // Delete block exercises
     if (blockIds.length > 0) {
@@ -1388,6 +1926,121 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Draft blocks with their full exercise rows, in sequence order
+  private async getDraftBlocks(workout: BlockWorkout): Promise<Array<Block & { exercises: BlockExercise[] }>> {
+    const blockIds = workout.blockSequence.map(seq => seq.blockId);
+    if (blockIds.length === 0) {
+      return [];
+    }
+
+    const draftBlocks = await db.select().from(blocks)
+      .where(inArray(blocks.id, blockIds));
+    const draftExercises = await db.select().from(blockExercises)
+      .where(inArray(blockExercises.blockId, blockIds))
+      .orderBy(asc(blockExercises.orderIndex));
+
+    return workout.blockSequence
+      .map(seq => draftBlocks.find(b => b.id === seq.blockId))
+      .filter((block): block is Block => !!block)
+      .map(block => ({ ...block, exercises: draftExercises.filter(e => e.blockId === block.id) }));
+  }
+
+  // Append the next version number and make it live
+  private async createBlockWorkoutVersion(
+    workout: BlockWorkout,
+    snapshot: Pick<BlockWorkoutVersion, "name" | "description" | "blocks" | "executionTimeline" | "estimatedDurationMin">
+      & { republishedFromVersion?: number },
+    publishedBy: string | null
+  ): Promise<BlockWorkoutVersion> {
+    const [latest] = await db.select({ version: blockWorkoutVersions.version })
+      .from(blockWorkoutVersions)
+      .where(eq(blockWorkoutVersions.blockWorkoutId, workout.id))
+      .orderBy(desc(blockWorkoutVersions.version))
+      .limit(1);
+
+    const [version] = await db.insert(blockWorkoutVersions).values({
+      blockWorkoutId: workout.id,
+      version: (latest?.version ?? 0) + 1,
+      ...snapshot,
+      publishedBy,
+    }).returning();
+
+    await db.update(blockWorkouts)
+      .set({
+        isPublished: true,
+        publishedAt: version.publishedAt,
+        publishedVersionId: version.id,
+        version: version.version,
+        updatedAt: new Date(),
+      })
+      .where(eq(blockWorkouts.id, workout.id));
+
+    return version;
+  }
+
+  /**
+   * Publish the current draft as a new immutable version.
+   * Pass the timeline if the caller already compiled (and validated) it.
+   */
+  async publishBlockWorkout(
+    id: number,
+    publishedBy: string | null,
+    executionTimeline?: BlockWorkoutVersion["executionTimeline"]
+  ): Promise<BlockWorkoutVersion> {
+    const workout = await this.getBlockWorkout(id);
+    if (!workout) {
+      throw new Error("Workout not found");
+    }
+
+    const draftBlocks = await this.getDraftBlocks(workout);
+    const timeline = executionTimeline ?? await compileWorkoutTimeline(draftBlocks, workout.name);
+
+    return this.createBlockWorkoutVersion(workout, {
+      name: workout.name,
+      description: workout.description,
+      blocks: draftBlocks,
+      executionTimeline: timeline,
+      estimatedDurationMin: Math.ceil(timeline.workoutHeader.totalDurationSec / 60),
+    }, publishedBy);
+  }
+
+  // Publishing an earlier version copies it forward as the newest version; history is never rewritten
+  async republishBlockWorkoutVersion(id: number, version: number, publishedBy: string): Promise<BlockWorkoutVersion> {
+    const workout = await this.getBlockWorkout(id);
+    if (!workout) {
+      throw new Error("Workout not found");
+    }
+
+    const earlier = await this.getBlockWorkoutVersion(id, version);
+    if (!earlier) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    return this.createBlockWorkoutVersion(workout, {
+      name: earlier.name,
+      description: earlier.description,
+      blocks: earlier.blocks,
+      executionTimeline: earlier.executionTimeline,
+      estimatedDurationMin: earlier.estimatedDurationMin,
+      republishedFromVersion: earlier.version,
+    }, publishedBy);
+  }
+
+  async getBlockWorkoutVersions(id: number): Promise<BlockWorkoutVersion[]> {
+    return db.select().from(blockWorkoutVersions)
+      .where(eq(blockWorkoutVersions.blockWorkoutId, id))
+      .orderBy(desc(blockWorkoutVersions.version));
+  }
+
+  async getBlockWorkoutVersion(id: number, version: number): Promise<BlockWorkoutVersion | undefined> {
+    const [row] = await db.select().from(blockWorkoutVersions)
+      .where(and(
+        eq(blockWorkoutVersions.blockWorkoutId, id),
+        eq(blockWorkoutVersions.version, version)
+      ));
+    return row;
+  }
+
   async duplicateBlockWorkout(id: number, createdBy: string): Promise<BlockWorkout> {
     // Get original workout with blocks
     const original = await this.getBlockWorkoutWithBlocks(id);
@@ -1419,6 +2072,7 @@ export class DatabaseStorage implements IStorage {
         description: originalBlock.description,
         type: originalBlock.type,
         params: originalBlock.params,
+        section: originalBlock.section,
         createdBy
       }).returning();
 
@@ -1464,12 +2118,13 @@ export class DatabaseStorage implements IStorage {
     name?: string;
     description?: string;
     blocks?: Array<{
-      id: string;
+      id?: string;
       name: string;
-      description: string;
+      description?: string;
       type?: string;
       params: any;
-      exercises: number[];
+      section?: string;
+      exercises?: Array<number | ExerciseRefType>; // Bare IDs or ExerciseRef objects with overrides
     }>;
   }): Promise<BlockWorkout> {
     // Refresh cache
@@ -1482,6 +2137,17 @@ export class DatabaseStorage implements IStorage {
       throw new Error("Workout not found");
     }
 
+    // Published before versioning: freeze what players see before the draft changes
+    if (workout.isPublished && workout.publishedVersionId === null && workout.executionTimeline) {
+      await this.createBlockWorkoutVersion(workout, {
+        name: workout.name,
+        description: workout.description,
+        blocks: await this.getDraftBlocks(workout),
+        executionTimeline: workout.executionTimeline as BlockWorkoutVersion["executionTimeline"],
+        estimatedDurationMin: workout.estimatedDurationMin,
+      }, workout.updatedBy ?? workout.createdBy);
+    }
+
     // Update basic info if provided
     if (data.name || data.description) {
       await db.update(blockWorkouts)
@@ -1509,9 +2175,14 @@ export class DatabaseStorage implements IStorage {
       
       for (let i = 0; i < data.blocks.length; i++) {
         const blockData = data.blocks[i];
+        const exerciseRefs: ExerciseRefType[] = (blockData.exercises || []).map(ex =>
+          typeof ex === 'number' ? { exerciseId: ex } : ex
+        );
         
         // Validate exercises exist
-        const missingExercises = blockData.exercises.filter(id => !this.exerciseCache.has(id));
+        const missingExercises = exerciseRefs
+          .map(ref => ref.exerciseId)
+          .filter(id => !this.exerciseCache.has(id));
         if (missingExercises.length > 0) {
           throw new Error(`Exercise IDs not found: ${missingExercises.join(', ')}`);
         }
@@ -1522,15 +2193,16 @@ export class DatabaseStorage implements IStorage {
           description: blockData.description,
           type: blockData.type || 'custom_sequence',
           params: blockData.params,
+          section: blockData.section ?? "main",
           createdBy: workout.createdBy || 'system'
         }).returning();
 
         createdBlockIds.push(block.id);
 
         // Create block exercises
-        for (let j = 0; j < blockData.exercises.length; j++) {
-          const exerciseId = blockData.exercises[j];
-          const exercise = this.exerciseCache.get(exerciseId)!;
+        for (let j = 0; j < exerciseRefs.length; j++) {
+          const exRef = exerciseRefs[j];
+          const exercise = this.exerciseCache.get(exRef.exerciseId)!;
           
           await db.insert(blockExercises).values({
             blockId: block.id,
@@ -1543,7 +2215,8 @@ export class DatabaseStorage implements IStorage {
             equipmentSecondary: exercise.equipmentSecondary || [],
             coachingBulletPoints: exercise.coachingBulletPoints || undefined,
             videoUrl: exercise.videoUrl || undefined,
-            imageUrl: exercise.imageUrl || undefined
+            imageUrl: exercise.imageUrl || undefined,
+            overrides: exRef.overrides || undefined
           });
         }
       }
@@ -1590,12 +2263,7 @@ export class DatabaseStorage implements IStorage {
         );
 
         for (const step of blockTimeline.executionTimeline) {
-          allSteps.push({
-            ...step,
-            step: stepCounter++,
-            atMs: currentTimeMs + step.atMs,
-            endMs: currentTimeMs + step.endMs
-          });
+          allSteps.push(shiftStep(step, currentTimeMs, stepCounter++));
         }
 
         if (blockTimeline.executionTimeline.length > 0) {
@@ -1607,6 +2275,7 @@ export class DatabaseStorage implements IStorage {
       const totalDurationSec = Math.floor(currentTimeMs / 1000);
 
       const executionTimeline: ExecutionTimeline = {
+        eventSchemaVersion: EVENT_SCHEMA_VERSION,
         workoutHeader: {
           name: workout.name,
           totalDurationSec,
@@ -1620,11 +2289,11 @@ export class DatabaseStorage implements IStorage {
         }
       };
 
+      // Draft timeline only; the live version changes on publish
       await db.update(blockWorkouts)
         .set({ 
           executionTimeline,
-          estimatedDurationMin: Math.ceil(totalDurationSec / 60),
-          version: (workout.version || 0) + 1
+          estimatedDurationMin: Math.ceil(totalDurationSec / 60)
         })
         .where(eq(blockWorkouts.id, id));
     }
@@ -1636,20 +2305,221 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getBlockWorkoutSession(id: number): Promise<BlockWorkoutSession | undefined> {
+    const [session] = await db.select().from(blockWorkoutSessions)
+      .where(eq(blockWorkoutSessions.id, id));
+    return session;
+  }
+
+  async checkpointBlockWorkoutSession(id: number, currentStep: number): Promise<BlockWorkoutSession> {
+    const [session] = await db.update(blockWorkoutSessions)
+      .set({ currentStep, lastSyncAt: new Date() })
+      .where(eq(blockWorkoutSessions.id, id))
+      .returning();
+
+    if (!session) throw new Error("Block workout session not found");
+    return session;
+  }
+
+  async pauseBlockWorkoutSession(id: number, atStep?: number): Promise<BlockWorkoutSession> {
+    const session = await this.getBlockWorkoutSession(id);
+    if (!session) throw new Error("Block workout session not found");
+    if (session.status === "paused") return session;
+
+    const now = new Date();
+    const step = atStep ?? session.currentStep;
+    const [updated] = await db.update(blockWorkoutSessions)
+      .set({
+        status: "paused",
+        currentStep: step,
+        lastSyncAt: now,
+        pauseIntervals: [...session.pauseIntervals, { pausedAt: now.toISOString(), atStep: step }]
+      })
+      .where(eq(blockWorkoutSessions.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async resumeBlockWorkoutSession(id: number): Promise<BlockWorkoutSession> {
+    const session = await this.getBlockWorkoutSession(id);
+    if (!session) throw new Error("Block workout session not found");
+    if (session.status !== "paused") return session;
+
+    const now = new Date();
+    const [updated] = await db.update(blockWorkoutSessions)
+      .set({
+        status: "active",
+        lastSyncAt: now,
+        ...this.closePauseInterval(session, now)
+      })
+      .where(eq(blockWorkoutSessions.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async abandonBlockWorkoutSession(id: number): Promise<BlockWorkoutSession> {
+    const session = await this.getBlockWorkoutSession(id);
+    if (!session) throw new Error("Block workout session not found");
+
+    const now = new Date();
+    const [updated] = await db.update(blockWorkoutSessions)
+      .set({
+        status: "abandoned",
+        completedAt: now,
+        ...this.closePauseInterval(session, now)
+      })
+      .where(eq(blockWorkoutSessions.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  // Upsert on (session, exercise, set index) so a repeated log overwrites instead of duplicating
+  async recordBlockSet(entry: InsertBlockSetLog): Promise<BlockSetLog> {
+    // Sets done on a mid-session substitute also record the planned exercise (voice and manual logging alike)
+    const plannedExerciseFor = createSetAttribution(await this.getBlockSessionSubstitutions(entry.blockWorkoutSessionId));
+    const log = { ...entry, substitutedForExerciseId: plannedExerciseFor(entry.exerciseId) };
+
+    const [saved] = await db.insert(blockSetLogs)
+      .values(log)
+      .onConflictDoUpdate({
+        target: [blockSetLogs.blockWorkoutSessionId, blockSetLogs.exerciseId, blockSetLogs.setIndex],
+        set: {
+          reps: log.reps,
+          weight: log.weight,
+          loadUnit: log.loadUnit,
+          rpe: log.rpe,
+          pain: log.pain,
+          source: log.source,
+          substitutedForExerciseId: log.substitutedForExerciseId,
+          loggedAt: new Date()
+        }
+      })
+      .returning();
+
+    const session = await this.getBlockWorkoutSession(log.blockWorkoutSessionId);
+    if (session) {
+      await this.refreshEstimatedOneRepMax(session.userId, saved.exerciseId);
+    }
+
+    return saved;
+  }
+
+  // Swap an exercise in the session's timeline snapshot (timing untouched) and record the swap.
+  // Returns undefined when the exercise isn't on any remaining step.
+  async substituteBlockSessionExercise(
+    session: BlockWorkoutSession,
+    swap: { originalExerciseId: number; substitute: Exercise; blockId: string | null; fromStep: number; reason: SubstitutionReason }
+  ): Promise<{ session: BlockWorkoutSession; substitution: BlockSessionSubstitution } | undefined> {
+    if (!session.executionTimelineSnapshot) {
+      throw new Error("Session has no timeline snapshot");
+    }
+
+    const { timeline, stepsAffected } = substituteInTimeline(
+      session.executionTimelineSnapshot as ExecutionTimeline,
+      swap.originalExerciseId,
+      swap.substitute,
+      { fromStep: swap.fromStep, blockId: swap.blockId }
+    );
+    if (stepsAffected === 0) return undefined;
+
+    // Set attribution reads the substitution record, so the swap and its record land together
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(blockWorkoutSessions)
+        .set({ executionTimelineSnapshot: timeline, lastSyncAt: new Date() })
+        .where(eq(blockWorkoutSessions.id, session.id))
+        .returning();
+
+      const [substitution] = await tx.insert(blockSessionSubstitutions).values({
+        blockWorkoutSessionId: session.id,
+        blockId: swap.blockId,
+        originalExerciseId: swap.originalExerciseId,
+        substituteExerciseId: swap.substitute.id,
+        reason: swap.reason,
+        fromStep: swap.fromStep,
+        stepsAffected,
+      }).returning();
+
+      return { session: updated, substitution };
+    });
+  }
+
+  async getBlockSessionSubstitutions(blockWorkoutSessionId: number): Promise<BlockSessionSubstitution[]> {
+    return db.select().from(blockSessionSubstitutions)
+      .where(eq(blockSessionSubstitutions.blockWorkoutSessionId, blockWorkoutSessionId))
+      .orderBy(asc(blockSessionSubstitutions.id));
+  }
+
+  async getBlockSetLogs(blockWorkoutSessionId: number): Promise<BlockSetLog[]> {
+    return db.select().from(blockSetLogs)
+      .where(eq(blockSetLogs.blockWorkoutSessionId, blockWorkoutSessionId))
+      .orderBy(blockSetLogs.exerciseId, blockSetLogs.setIndex);
+  }
+
+  // Most recent loaded set per exercise across all of the user's block sessions
+  async getLastLoads(userId: string, exerciseIds?: number[]): Promise<BlockSetLog[]> {
+    const conditions = [
+      eq(blockWorkoutSessions.userId, userId),
+      isNotNull(blockSetLogs.weight),
+    ];
+    if (exerciseIds && exerciseIds.length > 0) {
+      conditions.push(inArray(blockSetLogs.exerciseId, exerciseIds));
+    }
+
+    const rows = await db
+      .selectDistinctOn([blockSetLogs.exerciseId], { log: blockSetLogs })
+      .from(blockSetLogs)
+      .innerJoin(blockWorkoutSessions, eq(blockSetLogs.blockWorkoutSessionId, blockWorkoutSessions.id))
+      .where(and(...conditions))
+      .orderBy(blockSetLogs.exerciseId, desc(blockSetLogs.loggedAt));
+    return rows.map(r => r.log);
+  }
+
+  // Close the open pause interval (if any) and fold it into totalPauseDurationMs
+  private closePauseInterval(session: BlockWorkoutSession, at: Date): Partial<BlockWorkoutSession> {
+    const open = session.pauseIntervals.find(p => !p.resumedAt);
+    if (!open) return {};
+
+    const pausedMs = Math.max(0, at.getTime() - new Date(open.pausedAt).getTime());
+    return {
+      totalPauseDurationMs: session.totalPauseDurationMs + pausedMs,
+      pauseIntervals: session.pauseIntervals.map(p =>
+        p === open ? { ...p, resumedAt: at.toISOString() } : p
+      )
+    };
+  }
+
   async startBlockWorkoutSession(userId: string, workoutId: number): Promise<any> {
-    // Get the workout with its timeline
-    const workout = await this.getBlockWorkout(workoutId);
+    // Get the live published version (falls back to the row for pre-versioning workouts)
+    const workout = await this.getPublishedBlockWorkout(workoutId);
     if (!workout) {
       throw new Error(`Workout ${workoutId} not found`);
     }
     if (!workout.executionTimeline) {
       throw new Error(`Workout ${workoutId} has no compiled timeline`);
     }
+    // Unpublishing leaves publishedVersionId set, so it must not be pinned while unpublished
+    if (!workout.isPublished) {
+      throw new Error(`Workout ${workoutId} is not published`);
+    }
 
-    // Create session with snapshot of timeline
+    // Starting a new session abandons any unfinished one for this user
+    const unfinished = await db.select({ id: blockWorkoutSessions.id }).from(blockWorkoutSessions)
+      .where(and(
+        eq(blockWorkoutSessions.userId, userId),
+        inArray(blockWorkoutSessions.status, ['active', 'paused'])
+      ));
+    for (const { id } of unfinished) {
+      await this.abandonBlockWorkoutSession(id);
+    }
+
+    // Create session pinned to the live version, with snapshot of its timeline
     const [session] = await db.insert(blockWorkoutSessions).values({
       userId,
       blockWorkoutId: workoutId,
+      blockWorkoutVersionId: workout.publishedVersionId,
       status: 'active',
       executionTimelineSnapshot: workout.executionTimeline,
       currentStep: 0,
@@ -1677,14 +2547,15 @@ export class DatabaseStorage implements IStorage {
     let session;
     if (userId && userId.startsWith('guest-user')) {
       [session] = await db.select().from(blockWorkoutSessions)
-        .where(eq(blockWorkoutSessions.status, 'active'))
+        .where(inArray(blockWorkoutSessions.status, ['active', 'paused']))
         .orderBy(desc(blockWorkoutSessions.startedAt))
         .limit(1);
     } else {
+      // Paused sessions count as active so a reload resumes them
       [session] = await db.select().from(blockWorkoutSessions)
         .where(and(
           eq(blockWorkoutSessions.userId, userId),
-          eq(blockWorkoutSessions.status, 'active')
+          inArray(blockWorkoutSessions.status, ['active', 'paused'])
         ))
         .orderBy(desc(blockWorkoutSessions.startedAt))
         .limit(1);
@@ -1695,7 +2566,12 @@ export class DatabaseStorage implements IStorage {
     }
 
     // Get the workout data
-    const workout = await this.getBlockWorkout(session.blockWorkoutId);
+    const row = await this.getBlockWorkout(session.blockWorkoutId);
+
+    // Show the version the session is pinned to, not whatever is live now
+    const [workout] = row && session.blockWorkoutVersionId !== null
+      ? await this.withLiveVersions([{ ...row, publishedVersionId: session.blockWorkoutVersionId }])
+      : [row];
 
     return {
       ...session,
@@ -1718,6 +2594,9 @@ export class DatabaseStorage implements IStorage {
     lastUsedAt: string | null;
   }>> {
     const { eventType, pattern, mode, chatterLevel, locale } = filters;
+    // Match rows authored under legacy names of the same event
+    const canonical = normalizeEventType(eventType);
+    const eventTypes = canonical ? eventTypeAliases(canonical) : [eventType];
     
     const responses = await db
       .select({
@@ -1731,7 +2610,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(coachResponses.active, true),
-          eq(coachResponses.eventType, eventType),
+          inArray(coachResponses.eventType, eventTypes),
           or(
             eq(coachResponses.pattern, pattern),
             eq(coachResponses.pattern, 'any')
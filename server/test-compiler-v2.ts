@@ -2,7 +2,7 @@
  * Quick test for Compiler v2 - validates core functionality
  */
 
-import { compileBlockToTimeline } from "./timeline-compiler";
+import { compileBlockToTimeline, validateTimeline } from "./timeline-compiler";
 import type { Block, BlockExercise } from "@shared/schema";
 
 // Test 1: Superset with rep-round mode
@@ -16,6 +16,7 @@ async function testSupersetRepRound() {
     description: "Test",
     type: "custom_sequence",
     orderIndex: 0,
+    section: "main",
     params: {
       type: "custom_sequence",
       pattern: "superset",
@@ -113,6 +114,7 @@ async function testStraightSets() {
     description: "Test",
     type: "custom_sequence",
     orderIndex: 0,
+    section: "main",
     params: {
       type: "custom_sequence",
       pattern: "straight_sets",
@@ -169,6 +171,205 @@ async function testStraightSets() {
   return timeline;
 }
 
+// Test 3: AMRAP window
+async function testAmrap() {
+  console.log("\n🧪 Test 3: AMRAP");
+  
+  const block: Block & { exercises: BlockExercise[] } = {
+    id: 3,
+    workoutId: null,
+    name: "Test AMRAP Finisher",
+    description: "Test",
+    type: "amrap_loop",
+    orderIndex: 0,
+    section: "main",
+    params: {
+      type: "amrap_loop",
+      maxDuration: 300, // 5 min window
+    },
+    category: null,
+    difficulty: 3,
+    estimatedDurationSec: null,
+    equipmentNeeded: [],
+    muscleGroups: [],
+    createdBy: null,
+    isTemplate: false,
+    isPublic: false,
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    exercises: [
+      {
+        id: 4,
+        blockId: 3,
+        exerciseId: 789,
+        orderIndex: 0,
+        overrides: { targetReps: "10" },
+        workSec: null,
+        restSec: null,
+        targetReps: null,
+        notes: null,
+        exerciseName: "Push-ups",
+        primaryMuscleGroup: "Chest",
+        movementPattern: null,
+        equipmentPrimary: "Bodyweight",
+        equipmentSecondary: [],
+        coachingBulletPoints: "Full range of motion",
+        videoUrl: null,
+        imageUrl: null,
+      },
+      {
+        id: 5,
+        blockId: 3,
+        exerciseId: 790,
+        orderIndex: 1,
+        overrides: { targetReps: "15" },
+        workSec: null,
+        restSec: null,
+        targetReps: null,
+        notes: null,
+        exerciseName: "Air Squats",
+        primaryMuscleGroup: "Legs",
+        movementPattern: null,
+        equipmentPrimary: "Bodyweight",
+        equipmentSecondary: [],
+        coachingBulletPoints: "Hips below parallel",
+        videoUrl: null,
+        imageUrl: null,
+      },
+    ],
+  };
+
+  const timeline = await compileBlockToTimeline(block, {
+    workoutName: "Test Workout",
+    includeIntro: false,
+  });
+
+  console.log("✅ Timeline compiled successfully");
+  console.log(`   Total steps: ${timeline.executionTimeline.length}`);
+  console.log(`   Duration: ${timeline.workoutHeader.totalDurationSec}s`);
+
+  const amrapStep = timeline.executionTimeline.find(s => s.type === "amrap");
+  if (amrapStep && amrapStep.durationSec === 300 && amrapStep.markers?.length === 2) {
+    console.log("✅ AMRAP window with halfway + last-10s markers");
+  } else {
+    console.error("❌ Expected 300s AMRAP window with 2 markers");
+  }
+
+  const validation = validateTimeline(timeline);
+  if (!validation.valid) {
+    throw new Error(`AMRAP timeline invalid: ${validation.errors.join("; ")}`);
+  }
+
+  return timeline;
+}
+
+// Test 4: EMOM window (strict + non-strict)
+async function testEmom() {
+  console.log("\n🧪 Test 4: EMOM");
+  
+  const block: Block & { exercises: BlockExercise[] } = {
+    id: 4,
+    workoutId: null,
+    name: "Test EMOM",
+    description: "Test",
+    type: "emom_window",
+    orderIndex: 0,
+    section: "main",
+    params: {
+      type: "emom_window",
+      minuteMarks: [0, 1, 2, 3, 4, 5],
+    },
+    category: null,
+    difficulty: 3,
+    estimatedDurationSec: null,
+    equipmentNeeded: [],
+    muscleGroups: [],
+    createdBy: null,
+    isTemplate: false,
+    isPublic: false,
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    exercises: [
+      {
+        id: 6,
+        blockId: 4,
+        exerciseId: 791,
+        orderIndex: 0,
+        overrides: { workSec: 40, targetReps: "12" },
+        workSec: null,
+        restSec: null,
+        targetReps: null,
+        notes: null,
+        exerciseName: "Kettlebell Swing",
+        primaryMuscleGroup: "Glutes",
+        movementPattern: null,
+        equipmentPrimary: "Kettlebell",
+        equipmentSecondary: [],
+        coachingBulletPoints: "Snap the hips",
+        videoUrl: null,
+        imageUrl: null,
+      },
+      {
+        id: 7,
+        blockId: 4,
+        exerciseId: 792,
+        orderIndex: 1,
+        overrides: { workSec: 60 },
+        workSec: null,
+        restSec: null,
+        targetReps: null,
+        notes: null,
+        exerciseName: "Burpees",
+        primaryMuscleGroup: "Full Body",
+        movementPattern: null,
+        equipmentPrimary: "Bodyweight",
+        equipmentSecondary: [],
+        coachingBulletPoints: "Chest to floor",
+        videoUrl: null,
+        imageUrl: null,
+      },
+    ],
+  };
+
+  const strict = await compileBlockToTimeline(block, {
+    workoutName: "Test Workout",
+    includeIntro: false,
+  });
+
+  console.log("✅ Timeline compiled successfully");
+  console.log(`   Total steps: ${strict.executionTimeline.length}`);
+  console.log(`   Duration: ${strict.workoutHeader.totalDurationSec}s`);
+
+  const workSteps = strict.executionTimeline.filter(s => s.type === "work");
+  if (workSteps.length === 6 && workSteps[1].exercise?.name === "Burpees") {
+    console.log("✅ One work step per minute, rotating exercises");
+  } else {
+    console.error("❌ Expected 6 rotating work steps");
+  }
+
+  const strictValidation = validateTimeline(strict);
+  if (!strictValidation.valid) {
+    throw new Error(`Strict EMOM timeline invalid: ${strictValidation.errors.join("; ")}`);
+  }
+
+  const relaxed = await compileBlockToTimeline(block, {
+    workoutName: "Test Workout",
+    includeIntro: false,
+    strictEMOM: false,
+  });
+  const gates = relaxed.executionTimeline.filter(s => s.type === "await_ready").length;
+  console.log(`   Non-strict ready gates: ${gates}`);
+
+  const relaxedValidation = validateTimeline(relaxed);
+  if (!relaxedValidation.valid) {
+    throw new Error(`Non-strict EMOM timeline invalid: ${relaxedValidation.errors.join("; ")}`);
+  }
+
+  return strict;
+}
+
 // Run tests
 async function runTests() {
   console.log("🚀 Testing Compiler v2\n");
@@ -176,6 +377,8 @@ async function runTests() {
   try {
     await testSupersetRepRound();
     await testStraightSets();
+    await testAmrap();
+    await testEmom();
     
     console.log("\n✅ All tests passed!");
   } catch (error) {
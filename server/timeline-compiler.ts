@@ -19,7 +19,11 @@ import {
   type TimelineStep,
   type ExerciseMeta,
   type CompileOptions,
+  type TimelineMarker,
+  WorkoutSection,
+  SECTION_LABELS,
 } from "@shared/timeline";
+import { EVENT_SCHEMA_VERSION } from "@shared/events";
 
 // Canonical between-rounds timing (matches client/src/coach/roundBetweenScheduler.ts)
 const ROUND_END_TO_SPEECH_MS = 700;    // Voice after beep clears
@@ -28,6 +32,11 @@ const COUNTDOWN_INTERVAL_MS = 1000;    // Between pips (3→2→1)
 const GO_BEEP_OFFSET_MS = 5000;        // GO beep (long 600ms beep)
 const WORK_START_OFFSET_MS = 5600;     // Work starts 600ms after GO (beep duration)
 
+// Timed-window blocks (AMRAP/EMOM)
+const WINDOW_COUNTDOWN_SEC = 3;        // 3-2-1 lead-in before the clock starts
+const LAST_10S_MARKER_MS = 10000;      // "Last 10 seconds" cue before window end
+const EMOM_MINUTE_MS = 60000;
+
 /**
  * Helper: Parse and validate block params
  */
@@ -44,7 +53,10 @@ function parseBlockParams(block: Block): BlockParamsT {
  * Helper: Extract exercise metadata from BlockExercise
  * Optionally includes targetReps for rep-based workouts
  */
-function extractExerciseMeta(exercise: BlockExercise, includeTargetReps?: string): ExerciseMeta {
+export function extractExerciseMeta(
+  exercise: Pick<BlockExercise, "exerciseId" | "exerciseName" | "coachingBulletPoints" | "equipmentPrimary" | "equipmentSecondary" | "primaryMuscleGroup" | "videoUrl" | "imageUrl">,
+  includeTargetReps?: string
+): ExerciseMeta {
   const cues = exercise.coachingBulletPoints
     ? exercise.coachingBulletPoints
         .split(/[\n;]/)
@@ -359,6 +371,193 @@ function compileCustomSequence(
   return currentTimeMs;
 }
 
+/**
+ * Helper: Halfway + last-10s markers for a timed window
+ * Last-10s is skipped on short windows where it would land on/before halfway
+ */
+function buildWindowMarkers(atMs: number, endMs: number): TimelineMarker[] {
+  const markers: TimelineMarker[] = [
+    { type: "halfway", atMs: atMs + Math.round((endMs - atMs) / 2), label: "Halfway" },
+  ];
+  if (endMs - atMs > LAST_10S_MARKER_MS * 2) {
+    markers.push({ type: "last_10s", atMs: endMs - LAST_10S_MARKER_MS, label: "Last 10 seconds" });
+  }
+  return markers;
+}
+
+/**
+ * Duration of a time-mode circuit/superset block as compileCustomSequence lays
+ * it out: every station's work, restSec between stations, and the canonical
+ * round transition between rounds. Used to fit recommendations to a time budget.
+ */
+export function estimateRoundsDurationSec(
+  stationCount: number,
+  params: { setsPerExercise: number; workSec: number; restSec: number }
+): number {
+  const rounds = params.setsPerExercise;
+  const perRound = stationCount * params.workSec + (stationCount - 1) * params.restSec;
+  return Math.round(rounds * perRound + (rounds - 1) * (WORK_START_OFFSET_MS / 1000));
+}
+
+/**
+ * Helper: Shift a compiled step (and its markers) onto a merged timeline
+ */
+export function shiftStep(step: TimelineStep, offsetMs: number, stepNumber: number): TimelineStep {
+  return {
+    ...step,
+    step: stepNumber,
+    atMs: offsetMs + step.atMs,
+    endMs: offsetMs + step.endMs,
+    markers: step.markers?.map(m => ({ ...m, atMs: offsetMs + m.atMs })),
+  };
+}
+
+/**
+ * Compile amrap_loop block
+ * Countdown → one timed window (maxDuration seconds) looping over all exercises.
+ * Rounds are user-paced, so there is no timed round marker: the player emits
+ * EV_ROUND_COMPLETE when the user marks a round done and logs it as a set.
+ */
+function compileAmrap(
+  block: Block & { exercises: BlockExercise[] },
+  params: Extract<BlockParamsT, { type: "amrap_loop" }>,
+  steps: TimelineStep[],
+  stepCounter: { value: number },
+  startTimeMs: number
+): number {
+  if (block.exercises.length === 0) {
+    throw new Error(`AMRAP block "${block.name}" needs at least one exercise`);
+  }
+
+  let currentTimeMs = startTimeMs;
+  const exercisesArray = block.exercises.map(ex => extractExerciseMeta(ex, applyOverrides(ex, params).targetReps));
+  const windowMs = params.maxDuration * 1000;
+
+  // Lead-in countdown (3-2-1)
+  steps.push({
+    step: stepCounter.value++,
+    type: "countdown",
+    label: "AMRAP starts",
+    durationSec: WINDOW_COUNTDOWN_SEC,
+    atMs: currentTimeMs,
+    endMs: currentTimeMs + WINDOW_COUNTDOWN_SEC * 1000,
+  });
+  currentTimeMs += WINDOW_COUNTDOWN_SEC * 1000;
+
+  // Single AMRAP window covering the whole loop
+  steps.push({
+    step: stepCounter.value++,
+    type: "amrap",
+    label: block.name,
+    text: `As many rounds as possible: ${exercisesArray.map(e => e.name).join(" → ")}`,
+    exercises: exercisesArray,
+    atMs: currentTimeMs,
+    endMs: currentTimeMs + windowMs,
+    durationSec: params.maxDuration,
+    round: 1,
+    markers: buildWindowMarkers(currentTimeMs, currentTimeMs + windowMs),
+    meta: {
+      loop: true,
+      exercisesPerRound: exercisesArray.length,
+    },
+  });
+  currentTimeMs += windowMs;
+
+  return currentTimeMs;
+}
+
+/**
+ * Compile emom_window block
+ * minuteMarks are minute offsets where a new interval starts ([0,1,2] = 3 EMOM minutes,
+ * [0,2,4] = every 2 min); each interval runs until the next mark, the last one for 1 min.
+ * Exercises rotate per interval: work (exercise workSec) then rest for the remainder.
+ * strictEMOM: the grid is fixed, an unfinished interval rolls straight into the next.
+ * Otherwise an await_ready gate holds each interval boundary until the user is ready.
+ */
+function compileEmom(
+  block: Block & { exercises: BlockExercise[] },
+  params: Extract<BlockParamsT, { type: "emom_window" }>,
+  steps: TimelineStep[],
+  stepCounter: { value: number },
+  startTimeMs: number,
+  strict: boolean
+): number {
+  const marks = params.minuteMarks;
+  if (block.exercises.length === 0) {
+    throw new Error(`EMOM block "${block.name}" needs at least one exercise`);
+  }
+  if (marks.length === 0) {
+    throw new Error(`EMOM block "${block.name}" needs at least one minute mark`);
+  }
+  if (marks.some((mark, i) => i > 0 && mark <= marks[i - 1])) {
+    throw new Error(`EMOM block "${block.name}" minute marks must be strictly increasing`);
+  }
+
+  let currentTimeMs = startTimeMs;
+
+  // Lead-in countdown (3-2-1) before the first minute
+  steps.push({
+    step: stepCounter.value++,
+    type: "countdown",
+    label: "EMOM starts",
+    durationSec: WINDOW_COUNTDOWN_SEC,
+    atMs: currentTimeMs,
+    endMs: currentTimeMs + WINDOW_COUNTDOWN_SEC * 1000,
+  });
+  currentTimeMs += WINDOW_COUNTDOWN_SEC * 1000;
+
+  for (let i = 0; i < marks.length; i++) {
+    const exIndex = i % block.exercises.length;
+    const exercise = block.exercises[exIndex];
+    const { workSec, targetReps } = applyOverrides(exercise, params);
+    const intervalMs = i < marks.length - 1 ? (marks[i + 1] - marks[i]) * EMOM_MINUTE_MS : EMOM_MINUTE_MS;
+    const workMs = Math.min(workSec * 1000, intervalMs);
+    const restMs = intervalMs - workMs;
+    const isLastInterval = i === marks.length - 1;
+
+    steps.push({
+      step: stepCounter.value++,
+      type: "work",
+      label: `Minute ${marks[i] + 1}`,
+      exercise: extractExerciseMeta(exercise, targetReps),
+      atMs: currentTimeMs,
+      endMs: currentTimeMs + workMs,
+      durationSec: workMs / 1000,
+      set: Math.floor(i / block.exercises.length) + 1,
+      round: i + 1,
+      meta: { emomMinute: marks[i], intervalSec: intervalMs / 1000, strict },
+    });
+    currentTimeMs += workMs;
+
+    if (restMs > 0) {
+      steps.push({
+        step: stepCounter.value++,
+        type: "rest",
+        text: isLastInterval ? "EMOM complete" : `Rest until minute ${marks[i + 1] + 1}`,
+        atMs: currentTimeMs,
+        endMs: currentTimeMs + restMs,
+        durationSec: restMs / 1000,
+        meta: { emomMinute: marks[i], strict },
+      });
+      currentTimeMs += restMs;
+    }
+
+    if (!strict && !isLastInterval) {
+      steps.push({
+        step: stepCounter.value++,
+        type: "await_ready",
+        label: `Ready for minute ${marks[i + 1] + 1}?`,
+        coachPrompt: "Finish your reps, then say 'Ready' to start the next minute.",
+        atMs: currentTimeMs,
+        endMs: currentTimeMs,
+        nextStepId: `step-${stepCounter.value}`,
+      });
+    }
+  }
+
+  return currentTimeMs;
+}
+
 /**
  * Main compiler function
  * Transforms a Block with exercises into a flat ExecutionTimeline
@@ -416,11 +615,25 @@ export async function compileBlockToTimeline(
     });
     currentTimeMs += params.durationSec * 1000;
   } else if (params.type === "amrap_loop") {
-    // AMRAP implementation (future)
-    throw new Error("AMRAP blocks not yet implemented");
+    currentTimeMs = compileAmrap(block, params, steps, stepCounter, currentTimeMs);
   } else if (params.type === "emom_window") {
-    // EMOM implementation (future)
-    throw new Error("EMOM blocks not yet implemented");
+    currentTimeMs = compileEmom(block, params, steps, stepCounter, currentTimeMs, options.strictEMOM ?? true);
+  }
+
+  // Tag every step with its block so block-scoped events carry the real ID
+  if (block.id !== undefined && block.id !== null) {
+    for (const step of steps) {
+      step.blockId = String(block.id);
+      step.blockName = block.name;
+    }
+  }
+
+  // Tag the section (warm-up, main, ...) when the block has one
+  const section = WorkoutSection.safeParse(block.section);
+  if (section.success) {
+    for (const step of steps) {
+      step.section = section.data;
+    }
   }
 
   // Calculate durations
@@ -430,6 +643,7 @@ export async function compileBlockToTimeline(
     .reduce((sum, step) => sum + (step.endMs - step.atMs), 0);
 
   return {
+    eventSchemaVersion: EVENT_SCHEMA_VERSION,
     workoutHeader: {
       name: options.workoutName || block.name,
       totalDurationSec,
@@ -445,16 +659,27 @@ export async function compileBlockToTimeline(
   };
 }
 
+// Blocks without a (valid) section are main work
+function sectionOf(block: Pick<Block, "section">) {
+  const section = WorkoutSection.safeParse(block.section);
+  return section.success ? section.data : "main";
+}
+
 /**
  * Compile multiple blocks into a single workout timeline
  */
 export async function compileWorkoutTimeline(
   blocks: Array<Block & { exercises: BlockExercise[] }>,
-  workoutName: string
+  workoutName: string,
+  options: Pick<CompileOptions, "strictEMOM"> = {}
 ): Promise<ExecutionTimeline> {
   const allSteps: TimelineStep[] = [];
   let currentTimeMs = 0;
   const stepCounter = { value: 1 };
+  const firstBlock = blocks[0];
+  const firstBlockTag = firstBlock
+    ? { blockId: String(firstBlock.id), blockName: firstBlock.name, section: sectionOf(firstBlock) }
+    : {};
 
   // Initial await_ready (pre-workout)
   allSteps.push({
@@ -466,6 +691,7 @@ export async function compileWorkoutTimeline(
     endMs: currentTimeMs,
     nextStepId: `step-${stepCounter.value}`,
     preWorkout: true,
+    ...firstBlockTag,
   });
 
   // Intro instruction (pre-workout)
@@ -477,6 +703,7 @@ export async function compileWorkoutTimeline(
     endMs: currentTimeMs + 10000,
     durationSec: 10,
     preWorkout: true,
+    ...firstBlockTag,
   });
   currentTimeMs += 10000;
 
@@ -491,31 +718,36 @@ export async function compileWorkoutTimeline(
       workoutStructure: block.type,
       includeIntro: false,
       startAtMs: 0,
+      strictEMOM: options.strictEMOM,
     });
 
     // Merge steps with adjusted timestamps
     for (const step of blockTimeline.executionTimeline) {
-      allSteps.push({
-        ...step,
-        step: stepCounter.value++,
-        atMs: currentTimeMs + step.atMs,
-        endMs: currentTimeMs + step.endMs,
-      });
+      allSteps.push(shiftStep(step, currentTimeMs, stepCounter.value++));
     }
 
     currentTimeMs += blockTimeline.workoutHeader.totalDurationSec * 1000;
 
-    // Insert await_ready between blocks
+    // Insert await_ready between blocks; name the new section when it changes
     if (!isLastBlock) {
       const nextBlock = blocks[i + 1];
+      const sectionChange = sectionOf(nextBlock) !== sectionOf(block);
+      const nextSection = sectionOf(nextBlock);
       allSteps.push({
         step: stepCounter.value++,
         type: "await_ready",
-        label: `Ready for ${nextBlock.name}?`,
-        coachPrompt: `Great work on ${block.name}! Take a moment to rest. When you're ready for ${nextBlock.name}, say 'Ready' or 'Go'.`,
+        label: sectionChange
+          ? `${SECTION_LABELS[nextSection]}: ready for ${nextBlock.name}?`
+          : `Ready for ${nextBlock.name}?`,
+        coachPrompt: sectionChange
+          ? `${SECTION_LABELS[sectionOf(block)]} done! Next up is the ${SECTION_LABELS[nextSection].toLowerCase()}, starting with ${nextBlock.name}. Say 'Ready' or 'Go' when you are.`
+          : `Great work on ${block.name}! Take a moment to rest. When you're ready for ${nextBlock.name}, say 'Ready' or 'Go'.`,
         atMs: currentTimeMs,
         endMs: currentTimeMs,
         nextStepId: `step-${stepCounter.value}`,
+        blockId: String(nextBlock.id),
+        blockName: nextBlock.name,
+        section: nextSection,
       });
     }
   }
@@ -527,6 +759,7 @@ export async function compileWorkoutTimeline(
     .reduce((sum, step) => sum + (step.endMs - step.atMs), 0);
 
   return {
+    eventSchemaVersion: EVENT_SCHEMA_VERSION,
     workoutHeader: {
       name: workoutName,
       totalDurationSec,
@@ -578,8 +811,15 @@ export function validateTimeline(timeline: ExecutionTimeline): {
       );
     }
 
+    // Markers must fall inside their step
+    for (const marker of step.markers || []) {
+      if (marker.atMs < step.atMs || marker.atMs > step.endMs) {
+        errors.push(`Step ${step.step}: ${marker.type} marker outside step window`);
+      }
+    }
+
     // Check required fields for work steps
-    if (step.type === "work" && !step.exercise && !step.exercises) {
+    if ((step.type === "work" || step.type === "amrap") && !step.exercise && !step.exercises) {
       errors.push(`Step ${step.step}: work step missing exercise data`);
     }
   }
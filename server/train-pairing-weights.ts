@@ -0,0 +1,34 @@
+import { trainPairingWeights, activatePairingWeightSet } from './pairing-weights';
+
+// Usage: npx tsx server/train-pairing-weights.ts [--activate]
+async function main() {
+  const published = await trainPairingWeights();
+
+  console.log(`\n📦 Published ${published.version}`);
+  console.log('Weights:', JSON.stringify(published.weights, null, 2));
+
+  const summary = published.trainingSummary;
+  if (summary) {
+    console.log(`Training: ${summary.positives} positives, ${summary.negatives} negatives across ${summary.trainAnchors} anchors`);
+  }
+
+  const metrics = published.metrics;
+  if (metrics) {
+    console.log(`\nHeld-out precision@k over ${metrics.heldOutAnchors} anchors (built-in → learned):`);
+    for (const { k, baseline, learned } of metrics.precisionAtK) {
+      console.log(`  P@${k}: ${baseline.toFixed(3)} → ${learned.toFixed(3)}`);
+    }
+  }
+
+  if (process.argv.includes('--activate')) {
+    await activatePairingWeightSet(published.version);
+    console.log(`\n✅ ${published.version} is now the active weight set`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Pairing weight training failed:', error);
+    process.exit(1);
+  });
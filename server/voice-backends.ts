@@ -0,0 +1,370 @@
+/**
+ * Voice Backends
+ *
+ * The realtime relay talks to the voice model through a VoiceBackend:
+ * - openai: OpenAI Realtime API over WebSocket, needs OPENAI_API_KEY and network
+ * - mock: scripted local backend; speaks [COACH_CUE] text back and emits
+ *   deterministic tool calls, so the coach flow runs without an API key
+ *
+ * Backends emit events in the Realtime protocol shape (response.created,
+ * response.audio.delta, response.audio_transcript.done, response.done, ...)
+ * because that is what the client hook already understands.
+ *
+ * Selection: VOICE_BACKEND=openai|mock; defaults to openai when an API key is
+ * configured and mock otherwise.
+ */
+
+import WebSocket from 'ws';
+
+const DEFAULT_REALTIME_MODEL = 'gpt-4o-realtime-preview-2024-10-01';
+
+export interface VoiceTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;   // JSON schema
+}
+
+export interface VoiceSessionConfig {
+  instructions: string;
+  tools: VoiceTool[];
+}
+
+export interface VoiceToolCall {
+  name: string;
+  callId: string;
+  arguments: string;   // JSON-encoded, as the model produced it
+}
+
+export interface VoiceBackendHandlers {
+  onOpen(): void | Promise<void>;
+  onEvent(event: any): void;           // Realtime-protocol event to forward to the client
+  onToolCall(call: VoiceToolCall): void;
+  onError(message: string): void;
+  onClose(): void;
+}
+
+export interface VoiceBackend {
+  readonly id: string;
+  connect(handlers: VoiceBackendHandlers): void;
+  isOpen(): boolean;
+  configureSession(config: VoiceSessionConfig): void;
+  updateInstructions(instructions: string): void;
+  appendAudio(base64Pcm16: string): void;
+  commitAudio(): void;
+  sendText(text: string): void;
+  createResponse(): void;
+  sendToolResult(callId: string, output: unknown): void;
+  close(): void;
+}
+
+export type VoiceBackendName = 'openai' | 'mock';
+
+export class OpenAIRealtimeBackend implements VoiceBackend {
+  readonly id: string;
+  private ws: WebSocket | null = null;
+
+  constructor(private readonly model: string = process.env.OPENAI_REALTIME_MODEL || DEFAULT_REALTIME_MODEL) {
+    this.id = `openai:${model}`;
+  }
+
+  connect(handlers: VoiceBackendHandlers): void {
+    const ws = new WebSocket(`wss://api.openai.com/v1/realtime?model=${this.model}`, {
+      headers: {
+        'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+        'OpenAI-Beta': 'realtime=v1',
+      },
+    });
+    this.ws = ws;
+
+    ws.on('open', () => handlers.onOpen());
+
+    ws.on('message', (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message.type === 'response.function_call_arguments.done') {
+          handlers.onToolCall({ name: message.name, callId: message.call_id, arguments: message.arguments });
+        }
+        handlers.onEvent(message);
+      } catch (error) {
+        console.error('Error processing OpenAI message:', error);
+      }
+    });
+
+    ws.on('error', (error) => {
+      console.error('OpenAI WebSocket error:', error);
+      handlers.onError('Connection error with AI Coach');
+    });
+
+    ws.on('close', () => handlers.onClose());
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  configureSession(config: VoiceSessionConfig): void {
+    this.send({
+      type: 'session.update',
+      session: {
+        modalities: ['audio', 'text'],
+        instructions: config.instructions,
+        voice: 'alloy',
+        input_audio_format: 'pcm16',
+        output_audio_format: 'pcm16',
+        input_audio_transcription: {
+          model: 'whisper-1'
+        },
+        turn_detection: null, // Disabled - we use event-driven model, HOST controls timing
+        tools: config.tools.map(tool => ({ type: 'function', ...tool })),
+        tool_choice: 'auto',
+        temperature: 0.7,
+      },
+    });
+  }
+
+  updateInstructions(instructions: string): void {
+    this.send({ type: 'session.update', session: { instructions } });
+  }
+
+  appendAudio(base64Pcm16: string): void {
+    this.send({ type: 'input_audio_buffer.append', audio: base64Pcm16 });
+  }
+
+  commitAudio(): void {
+    this.send({ type: 'input_audio_buffer.commit' });
+  }
+
+  sendText(text: string): void {
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text }],
+      },
+    });
+  }
+
+  createResponse(): void {
+    this.send({ type: 'response.create' });
+  }
+
+  sendToolResult(callId: string, output: unknown): void {
+    this.send({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output: JSON.stringify(output),
+      },
+    });
+  }
+
+  close(): void {
+    this.ws?.close();
+  }
+
+  private send(message: any) {
+    if (this.isOpen()) {
+      this.ws!.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * What the mock says or does for one user message. Returning null falls
+ * through to the next rule; the first rule that answers wins.
+ */
+export interface MockVoiceReply {
+  speech?: string;
+  toolCall?: { name: string; arguments: Record<string, any> };
+}
+
+export type MockVoiceRule = (text: string, state: MockVoiceState) => MockVoiceReply | null;
+
+export interface MockVoiceState {
+  lastSetIndex: number;   // From the most recent set_complete event, for record_set
+}
+
+const COACH_CUE_PREFIX = '[COACH_CUE]';
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_MS_PER_WORD = 300;
+
+function parseEventData(text: string): any {
+  const json = text.replace(/^EVENT:\s*\S+\s*/, '');
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+}
+
+// "135 x 8", "60kg for 10", "135 lbs 8 reps"
+const SET_REPLY = /(\d+(?:\.\d+)?)\s*(?:lbs?|kg|pounds?)?\s*(?:x|×|for|,|\s)\s*(\d+)/i;
+
+export const DEFAULT_MOCK_VOICE_SCRIPT: MockVoiceRule[] = [
+  (text) => text.startsWith(COACH_CUE_PREFIX)
+    ? { speech: text.slice(COACH_CUE_PREFIX.length).trim() }
+    : null,
+
+  (text, state) => {
+    if (!text.startsWith('EVENT: set_complete')) return null;
+    const data = parseEventData(text);
+    state.lastSetIndex = Number(data.set_index ?? data.setIndex) || state.lastSetIndex + 1;
+    return { speech: 'Weight and reps?' };
+  },
+
+  (text) => text.startsWith('EVENT: workout_complete') ? { speech: 'Great work!' } : null,
+
+  // Everything else the host sends is an event for context only
+  (text) => text.startsWith('EVENT:') ? {} : null,
+
+  (text, state) => {
+    const match = text.match(SET_REPLY);
+    if (!match) return null;
+    const rpe = text.match(/rpe\s*(\d+(?:\.\d+)?)/i);
+    return {
+      toolCall: {
+        name: 'record_set',
+        arguments: {
+          exercise_id: 'current',   // Relay resolves unknown IDs to the current step's exercise
+          set_index: Math.max(1, state.lastSetIndex),
+          weight: Number(match[1]),
+          reps: Number(match[2]),
+          ...(rpe ? { rpe: Number(rpe[1]) } : {}),
+        },
+      },
+    };
+  },
+];
+
+/**
+ * Scripted backend for offline development. Text turns are answered by the
+ * script when a response is requested; speech comes back as a transcript plus
+ * silent PCM16 sized to the sentence, so client playback timing still works.
+ * Microphone audio is accepted and discarded.
+ */
+export class MockVoiceBackend implements VoiceBackend {
+  readonly id = 'mock:scripted-v1';
+  readonly toolResults: Array<{ callId: string; output: unknown }> = [];
+  private handlers: VoiceBackendHandlers | null = null;
+  private open = false;
+  private pendingText: string[] = [];
+  private state: MockVoiceState = { lastSetIndex: 0 };
+  private counter = 0;
+
+  constructor(private readonly script: MockVoiceRule[] = DEFAULT_MOCK_VOICE_SCRIPT) {}
+
+  connect(handlers: VoiceBackendHandlers): void {
+    this.handlers = handlers;
+    this.open = true;
+    // Async like a real socket, so callers finish wiring up first
+    setImmediate(() => handlers.onOpen());
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  configureSession(_config: VoiceSessionConfig): void {
+    this.emit({ type: 'session.updated', session: { id: this.nextId('sess') } });
+  }
+
+  updateInstructions(_instructions: string): void {
+    this.emit({ type: 'session.updated', session: { id: this.nextId('sess') } });
+  }
+
+  appendAudio(_base64Pcm16: string): void {}
+
+  commitAudio(): void {
+    this.emit({ type: 'input_audio_buffer.committed' });
+  }
+
+  sendText(text: string): void {
+    if (!this.open) return;
+    this.pendingText.push(text);
+  }
+
+  createResponse(): void {
+    if (!this.open) return;
+    const turns = this.pendingText;
+    this.pendingText = [];
+
+    let reply: MockVoiceReply = {};
+    for (const text of turns) {
+      const answer = this.answer(text);
+      if (answer?.speech || answer?.toolCall) reply = answer;
+    }
+    this.respond(reply);
+  }
+
+  sendToolResult(callId: string, output: unknown): void {
+    this.toolResults.push({ callId, output });
+  }
+
+  close(): void {
+    if (!this.open) return;
+    this.open = false;
+    this.handlers?.onClose();
+  }
+
+  private answer(text: string): MockVoiceReply | null {
+    for (const rule of this.script) {
+      const reply = rule(text, this.state);
+      if (reply) return reply;
+    }
+    return null;
+  }
+
+  private respond(reply: MockVoiceReply) {
+    const responseId = this.nextId('resp');
+    this.emit({ type: 'response.created', response: { id: responseId, modalities: ['audio', 'text'] } });
+
+    if (reply.speech) {
+      this.emit({ type: 'response.audio_transcript.delta', response_id: responseId, delta: reply.speech });
+      this.emit({ type: 'response.audio.delta', response_id: responseId, delta: silentPcm16(reply.speech) });
+      this.emit({ type: 'response.audio.done', response_id: responseId });
+      this.emit({ type: 'response.audio_transcript.done', response_id: responseId, transcript: reply.speech });
+    }
+
+    if (reply.toolCall) {
+      const call: VoiceToolCall = {
+        name: reply.toolCall.name,
+        callId: this.nextId('call'),
+        arguments: JSON.stringify(reply.toolCall.arguments),
+      };
+      const event = { type: 'response.function_call_arguments.done', response_id: responseId, name: call.name, call_id: call.callId, arguments: call.arguments };
+      this.handlers?.onToolCall(call);
+      this.emit(event);
+    }
+
+    this.emit({ type: 'response.done', response: { id: responseId, status: 'completed' } });
+  }
+
+  private emit(event: any) {
+    if (this.open) this.handlers?.onEvent(event);
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `mock_${prefix}_${this.counter}`;
+  }
+}
+
+function silentPcm16(speech: string): string {
+  const words = speech.split(/\s+/).filter(Boolean).length;
+  const samples = Math.round((MOCK_SAMPLE_RATE * words * MOCK_MS_PER_WORD) / 1000);
+  return Buffer.alloc(samples * 2).toString('base64');
+}
+
+export function createVoiceBackend(name: VoiceBackendName): VoiceBackend {
+  return name === 'openai' ? new OpenAIRealtimeBackend() : new MockVoiceBackend();
+}
+
+export function resolveVoiceBackendName(): VoiceBackendName {
+  const configured = process.env.VOICE_BACKEND?.toLowerCase();
+  if (configured && configured !== 'openai' && configured !== 'mock') {
+    throw new Error(`Unknown VOICE_BACKEND "${configured}" (expected "openai" or "mock")`);
+  }
+  return (configured as VoiceBackendName | undefined) ?? (process.env.OPENAI_API_KEY ? 'openai' : 'mock');
+}
@@ -0,0 +1,52 @@
+// Structural diff of two JSON snapshots (admin audit before/after)
+
+export type DiffKind = "added" | "removed" | "changed";
+
+export interface DiffEntry {
+  path: string; // e.g. "blocks[1].params.workSec"
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Walk both values in parallel and report leaf-level differences.
+ * Arrays are compared by index, objects by key. Only the outermost
+ * differing node is reported when one side is missing entirely.
+ */
+export function diffSnapshots(before: unknown, after: unknown, path = ""): DiffEntry[] {
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined || before === null) {
+    return after === undefined || after === null ? [] : [{ path, kind: "added", after }];
+  }
+  if (after === undefined || after === null) {
+    return [{ path, kind: "removed", before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: DiffEntry[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      entries.push(...diffSnapshots(before[i], after[i], joinPath(path, i)));
+    }
+    return entries;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap(key => diffSnapshots(before[key], after[key], joinPath(path, key)));
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, kind: "changed", before, after }];
+}
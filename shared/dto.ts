@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { BlockParams } from "./timeline";
+import { BlockParams, WorkoutSection } from "./timeline";
 
 export const ExerciseRef = z.object({
   exerciseId: z.number().int(),
@@ -17,6 +17,7 @@ export const BlockDTO = z.object({
   params: BlockParams,
   exercises: z.array(ExerciseRef).optional(),
   order_index: z.number().int().nonnegative().optional(),
+  section: WorkoutSection.optional(), // Defaults to "main"
 });
 
 export const WorkoutDTO = z.object({
@@ -25,6 +26,154 @@ export const WorkoutDTO = z.object({
   blocks: z.array(BlockDTO).min(1),
 });
 
+// Member-built block workout: same shape as admin workouts plus visibility
+export const UserBlockWorkoutDTO = WorkoutDTO.extend({
+  visibility: z.enum(["private", "public"]).default("private"),
+});
+
+// Save a /api/recommendations/preview-block pairing as a member workout
+export const PreviewBlockWorkoutDTO = z.object({
+  exerciseAId: z.number().int(),
+  exerciseBId: z.number().int(),
+  name: z.string().min(1).optional(),
+  visibility: z.enum(["private", "public"]).default("private"),
+  params: z.object({
+    setsPerExercise: z.coerce.number().int().positive().default(3),
+    workSec: z.coerce.number().int().positive().default(45),
+    restSec: z.coerce.number().int().nonnegative().default(60),
+    transitionSec: z.coerce.number().int().nonnegative().default(10),
+    awaitReadyBeforeStart: z.boolean().default(false),
+  }).default({}),
+});
+
+// Rank 3–4 exercise circuits (tri-sets/giant sets) around an anchor exercise
+export const GroupingRecommendationDTO = z.object({
+  anchorExerciseId: z.number().int(),
+  size: z.union([z.literal(3), z.literal(4)]).default(3),
+  trainerMode: z.boolean().default(false),
+  weights: z.string().min(1).optional(), // Pairing weight set version; defaults to the active set
+  timeBudgetSec: z.coerce.number().int().positive().optional(), // Rounds are cut to fit
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+  gymId: z.number().int().optional(), // Defaults to the caller's selected gym
+  params: z.object({
+    rounds: z.coerce.number().int().positive().default(3),
+    workSec: z.coerce.number().int().positive().default(40),
+    restSec: z.coerce.number().int().nonnegative().default(15),
+    awaitReadyBeforeStart: z.boolean().default(false),
+  }).default({}),
+});
+
+// Generate warm-up/cool-down (and optionally finisher) blocks around a workout's main blocks
+export const GenerateSectionsDTO = z.object({
+  blocks: z.array(BlockDTO).min(1),
+  warmup: z.boolean().default(true),
+  cooldown: z.boolean().default(true),
+  finisher: z.boolean().default(false), // Opt-in: adds conditioning volume
+  gymId: z.number().int().optional(), // Defaults to the caller's selected gym
+});
+
+// Moderator review of a contribution. Relabel changes the equipment label (and
+// matching box labels) without changing status; approve may relabel at the same time.
+export const ModerationDecisionDTO = z.object({
+  action: z.enum(["approve", "reject", "relabel"]),
+  equipment: z.string().trim().min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+}).refine(d => d.action !== "relabel" || !!d.equipment, {
+  message: "equipment is required to relabel",
+  path: ["equipment"],
+});
+
+export const BulkModerationDTO = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+  action: z.enum(["approve", "reject", "relabel"]),
+  equipment: z.string().trim().min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+}).refine(d => d.action !== "relabel" || !!d.equipment, {
+  message: "equipment is required to relabel",
+  path: ["equipment"],
+});
+
+// Community vote on a contribution's label; 0 withdraws the vote
+export const ContributionVoteDTO = z.object({
+  value: z.union([z.literal(1), z.literal(-1), z.literal(0)]),
+});
+
+// Object-detection dataset export job (admin)
+export const DatasetExportDTO = z.object({
+  format: z.enum(["coco", "yolo", "voc"]),
+  splits: z.array(z.enum(["train", "validation", "test"])).min(1).default(["train", "validation", "test"]),
+});
+
+export const TrainingProfileDTO = z.object({
+  goals: z.array(z.enum(["strength", "hypertrophy", "endurance", "fat_loss", "general_fitness"])).optional(),
+  coachingStyle: z.enum(["minimal", "motivational", "technical"]).optional(),
+  preferredUnits: z.enum(["lbs", "kg"]).optional(),
+  oneRepMaxFormula: z.enum(["epley", "brzycki"]).optional(),
+});
+
+// Gym profile with its equipment inventory (catalog names)
+export const GymProfileDTO = z.object({
+  name: z.string().min(1),
+  address: z.string().optional(),
+  location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  equipment: z.array(z.string().min(1)).default([]),
+  zones: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    equipment: z.array(z.string()),
+  })).default([]),
+});
+
+// Seed a gym profile from gym-mapping detections (labels are mapped onto the catalog)
+export const GymMappingSeedDTO = z.object({
+  name: z.string().min(1),
+  address: z.string().optional(),
+  location: z.object({ lat: z.number(), lng: z.number() }).optional(),
+  detections: z.array(z.object({
+    name: z.string().min(1),
+    confidence: z.number().min(0).max(1).optional(),
+  })).min(1),
+  zones: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    equipment: z.array(z.string()), // Detection labels
+  })).default([]),
+  minConfidence: z.number().min(0).max(1).default(0.5),
+});
+
+// Per-set log for a block workout session (reps, load + unit, RPE, pain)
+export const BlockSetLogDTO = z.object({
+  exerciseId: z.number().int(),
+  setIndex: z.number().int().positive(),
+  reps: z.number().int().nonnegative().optional(),
+  load: z.number().nonnegative().optional(),
+  unit: z.enum(["lbs", "kg"]).default("lbs"),
+  rpe: z.union([z.number().min(1).max(10), z.enum(["Easy", "Moderate", "Hard"])]).optional(),
+  pain: z.boolean().default(false),
+});
+
+// Mid-session swap; fromStep is the player's live step (checkpoints can lag behind it)
+export const SessionSubstitutionDTO = z.object({
+  exerciseId: z.number().int(),
+  substituteExerciseId: z.number().int(),
+  blockId: z.string().optional(),
+  fromStep: z.number().int().nonnegative(),
+  reason: z.enum(["busy", "missing", "preference"]).default("busy"),
+});
+
 export type WorkoutDTOType = z.infer<typeof WorkoutDTO>;
 export type BlockDTOType = z.infer<typeof BlockDTO>;
 export type ExerciseRefType = z.infer<typeof ExerciseRef>;
+export type UserBlockWorkoutDTOType = z.infer<typeof UserBlockWorkoutDTO>;
+export type PreviewBlockWorkoutDTOType = z.infer<typeof PreviewBlockWorkoutDTO>;
+export type GroupingRecommendationDTOType = z.infer<typeof GroupingRecommendationDTO>;
+export type GenerateSectionsDTOType = z.infer<typeof GenerateSectionsDTO>;
+export type ModerationDecisionDTOType = z.infer<typeof ModerationDecisionDTO>;
+export type BulkModerationDTOType = z.infer<typeof BulkModerationDTO>;
+export type ContributionVoteDTOType = z.infer<typeof ContributionVoteDTO>;
+export type DatasetExportDTOType = z.infer<typeof DatasetExportDTO>;
+export type TrainingProfileDTOType = z.infer<typeof TrainingProfileDTO>;
+export type BlockSetLogDTOType = z.infer<typeof BlockSetLogDTO>;
+export type SessionSubstitutionDTOType = z.infer<typeof SessionSubstitutionDTO>;
+export type GymProfileDTOType = z.infer<typeof GymProfileDTO>;
+export type GymMappingSeedDTOType = z.infer<typeof GymMappingSeedDTO>;
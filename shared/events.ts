@@ -1,41 +1,97 @@
 /**
- * Event Bus Infrastructure - Canonical Timeline Events
- * 
- * Decouples timeline player from coach observer using EventEmitter3.
- * The player emits standardized events, and the coach observes.
+ * Canonical Timeline Events (schema v2)
+ *
+ * One vocabulary shared by the timeline compiler, the client TimelinePlayer,
+ * the coach observer and the coach_responses.event_type column. Block IDs are
+ * the compiled step's blockId (the blocks table ID as a string).
  */
 
-import type { ExerciseMeta } from "./timeline";
+import { z } from "zod";
+
+// Bump when an event is renamed/removed or a payload changes shape
+export const EVENT_SCHEMA_VERSION = 2;
+
+export const TIMELINE_EVENT_TYPES = [
+  "EV_BLOCK_START",
+  "EV_AWAIT_READY",
+  "EV_COUNTDOWN",
+  "EV_ROUND_COUNTDOWN",
+  "EV_WORK_PREVIEW",
+  "EV_WORK_START",
+  "EV_TECH_HINT",
+  "EV_HALFWAY",
+  "EV_LAST_10S",
+  "EV_WORK_END",
+  "EV_REST_START",
+  "EV_REST_END",
+  "EV_ROUND_REST_START",
+  "EV_ROUND_COMPLETE",
+  "EV_ROUND_REST_END",
+  "EV_BLOCK_END",
+  "EV_WORKOUT_END",
+] as const;
+
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+export const TimelineEventTypeSchema = z.enum(TIMELINE_EVENT_TYPES);
 
-// Canonical event types for workout progression
 export type TimelineEvent =
-  | { type: "EV_WORKOUT_START"; meta: { workoutName: string } }
-  | { type: "EV_WORK_START"; meta: { exercise: ExerciseMeta; set: number; round: number } }
-  | { type: "EV_WORK_HALFWAY"; meta: { exercise: ExerciseMeta; set: number; round: number } }
-  | { type: "EV_WORK_LAST_5S"; meta: { exercise: ExerciseMeta; set: number; round: number } }
-  | { type: "EV_WORK_END"; meta: { exercise: ExerciseMeta; set: number; round: number } }
-  | { type: "EV_REST_START"; meta: { restSec: number; nextExercise?: ExerciseMeta } }
-  | { type: "EV_REST_END"; meta: { nextExercise?: ExerciseMeta } }
-  | { type: "EV_ROUND_REST_START"; meta: { roundRestSec: number; nextRound: number } }
-  | { type: "EV_ROUND_REST_END"; meta: { nextRound: number } }
-  | { type: "EV_WORKOUT_COMPLETE"; meta: { workoutName: string; totalDurationSec: number } }
-  | { type: "EV_PAUSE"; meta: { atMs: number } }
-  | { type: "EV_RESUME"; meta: { atMs: number } };
-
-// Coach-specific events (user-triggered)
-export type CoachEvent =
-  | { type: "USER_READY"; meta: { timestamp: number } }
-  | { type: "USER_REPS_LOGGED"; meta: { reps: number; exercise: ExerciseMeta } }
-  | { type: "USER_FORM_ISSUE"; meta: { issue: string; exercise: ExerciseMeta } };
-
-export type AllEvents = TimelineEvent | CoachEvent;
+  | { type: "EV_BLOCK_START"; blockId: string }
+  | { type: "EV_AWAIT_READY"; blockId: string }
+  | { type: "EV_COUNTDOWN"; sec: number }
+  | { type: "EV_ROUND_COUNTDOWN"; sec: number }
+  | { type: "EV_WORK_PREVIEW"; exerciseId: string; setIndex?: number; totalSets?: number; roundIndex?: number; totalRounds?: number }
+  | { type: "EV_WORK_START"; exerciseId: string; setIndex?: number; roundIndex?: number }
+  | { type: "EV_TECH_HINT"; exerciseId: string; source: "a2_predicted" | "generic" }
+  | { type: "EV_HALFWAY"; exerciseId?: string }
+  | { type: "EV_LAST_10S"; roundIndex?: number }
+  | { type: "EV_WORK_END"; exerciseId: string; roundIndex?: number }
+  | { type: "EV_REST_START"; sec: number; reason?: string }
+  | { type: "EV_REST_END" }
+  | { type: "EV_ROUND_REST_START"; sec: number; roundIndex?: number }
+  | { type: "EV_ROUND_COMPLETE"; roundIndex?: number }
+  | { type: "EV_ROUND_REST_END" }
+  | { type: "EV_BLOCK_END"; blockId: string }
+  | { type: "EV_WORKOUT_END" };
 
 /**
- * Type-safe event emitter for timeline and coach events
+ * Names from the v1 server vocabulary and the lowercase event_type values used
+ * by older coach_responses rows / in-memory pools, mapped to their v2 event.
  */
-export interface EventBus {
-  emit<E extends AllEvents>(event: E["type"], data: E["meta"]): void;
-  on<E extends AllEvents>(event: E["type"], handler: (data: E["meta"]) => void): void;
-  off<E extends AllEvents>(event: E["type"], handler: (data: E["meta"]) => void): void;
-  once<E extends AllEvents>(event: E["type"], handler: (data: E["meta"]) => void): void;
+const LEGACY_EVENT_TYPES: Record<string, TimelineEventType> = {
+  EV_WORK_HALFWAY: "EV_HALFWAY",
+  EV_WORKOUT_COMPLETE: "EV_WORKOUT_END",
+  EV_WORK_LAST_5S: "EV_LAST_10S", // v2 has one end-of-work cue
+  pre_block: "EV_BLOCK_START",
+  block_start: "EV_BLOCK_START",
+  await_ready: "EV_AWAIT_READY",
+  countdown: "EV_COUNTDOWN",
+  work_preview: "EV_WORK_PREVIEW",
+  work_start: "EV_WORK_START",
+  halfway: "EV_HALFWAY",
+  last10s: "EV_LAST_10S",
+  last5s: "EV_LAST_10S",
+  work_end: "EV_WORK_END",
+  rest_start: "EV_REST_START",
+  rest_end: "EV_REST_END",
+  round_rest_start: "EV_ROUND_REST_START",
+  round_rest_end: "EV_ROUND_REST_END",
+  block_end: "EV_BLOCK_END",
+  workout_end: "EV_WORKOUT_END",
+};
+
+// Canonical event type for a current or legacy name; null if it has no v2 equivalent
+export function normalizeEventType(type: string): TimelineEventType | null {
+  if ((TIMELINE_EVENT_TYPES as readonly string[]).includes(type)) {
+    return type as TimelineEventType;
+  }
+  return LEGACY_EVENT_TYPES[type] ?? null;
+}
+
+// Every stored name that means this event, so rows authored with a legacy name still match
+export function eventTypeAliases(type: TimelineEventType): string[] {
+  return [
+    type,
+    ...Object.keys(LEGACY_EVENT_TYPES).filter(legacy => LEGACY_EVENT_TYPES[legacy] === type),
+  ];
 }
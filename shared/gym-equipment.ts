@@ -0,0 +1,74 @@
+/**
+ * GYM EQUIPMENT AVAILABILITY
+ *
+ * Matches exercise equipment (equipmentPrimary / equipmentSecondary) against a
+ * gym profile's inventory, and maps gym-mapping detection labels onto the
+ * equipment catalog so a scanned gym can seed an inventory.
+ */
+
+import type { Exercise } from "./schema";
+
+// Needs nothing from the gym
+const ALWAYS_AVAILABLE = new Set(["bodyweight", "none", "noequipment"]);
+
+// "Olympic Dumbbells" → "olympicdumbbell"
+export function normalizeEquipmentName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "").replace(/s$/, "");
+}
+
+// Inventory items satisfy a requirement when they name it or a variant of it
+// ("Olympic Barbell" covers "Barbell", "Plate Loaded Leg Press" covers "Leg Press")
+function satisfies(inventoryItem: string, required: string): boolean {
+  return inventoryItem === required || inventoryItem.endsWith(required);
+}
+
+export function requiredEquipment(exercise: Pick<Exercise, "equipmentPrimary" | "equipmentSecondary" | "equipment">): string[] {
+  return [exercise.equipmentPrimary || exercise.equipment, ...(exercise.equipmentSecondary ?? [])]
+    .filter((name): name is string => !!name && !!name.trim());
+}
+
+/**
+ * Equipment an exercise needs that the inventory doesn't have. Empty when the
+ * exercise can be done at this gym.
+ */
+export function missingEquipment(
+  exercise: Pick<Exercise, "equipmentPrimary" | "equipmentSecondary" | "equipment">,
+  inventory: string[]
+): string[] {
+  const available = inventory.map(normalizeEquipmentName);
+  return requiredEquipment(exercise).filter(name => {
+    const required = normalizeEquipmentName(name);
+    return !ALWAYS_AVAILABLE.has(required) && !available.some(item => satisfies(item, required));
+  });
+}
+
+export function createEquipmentFilter(inventory: string[]) {
+  return (exercise: Pick<Exercise, "equipmentPrimary" | "equipmentSecondary" | "equipment">) =>
+    missingEquipment(exercise, inventory).length === 0;
+}
+
+/**
+ * Map gym-mapping detection labels ("dumbbell", "bench") onto catalog names.
+ * An exact match wins, then the first catalog item that is a variant of the
+ * label. Labels that match nothing come back so the member can fix them by hand.
+ */
+export function equipmentFromDetections(labels: string[], catalogNames: string[]): { equipment: string[]; unmatched: string[] } {
+  const catalog = catalogNames.map(name => ({ name, key: normalizeEquipmentName(name) }));
+  const equipment = new Set<string>();
+  const unmatched = new Set<string>();
+
+  for (const label of labels) {
+    const key = normalizeEquipmentName(label);
+    if (!key) continue;
+    const match = catalog.find(item => item.key === key)
+      ?? catalog.find(item => satisfies(item.key, key))
+      ?? catalog.find(item => satisfies(key, item.key));
+    if (match) {
+      equipment.add(match.name);
+    } else {
+      unmatched.add(label.trim());
+    }
+  }
+
+  return { equipment: Array.from(equipment).sort(), unmatched: Array.from(unmatched).sort() };
+}
@@ -0,0 +1,26 @@
+// Estimated one-rep max from a submaximal set
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+// Both formulas lose accuracy quickly past ~10-12 reps
+export const MAX_REPS_FOR_ESTIMATE = 12;
+
+/**
+ * Epley:   w × (1 + r/30)
+ * Brzycki: w × 36 / (37 − r)
+ * A single rep is its own 1RM. Returns null for sets that can't produce a useful estimate.
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = "epley"
+): number | null {
+  if (!(weight > 0) || !(reps >= 1) || reps > MAX_REPS_FOR_ESTIMATE) return null;
+  if (reps === 1) return weight;
+
+  const estimate = formula === "brzycki"
+    ? weight * 36 / (37 - reps)
+    : weight * (1 + reps / 30);
+
+  return Math.round(estimate * 10) / 10;
+}
@@ -0,0 +1,760 @@
+/**
+ * Superset Pairing Engine
+ *
+ * One scorer for every A/B pairing: the recommendations route, trainer pair
+ * scoring in storage and the client all call scorePairing(), so a pair gets
+ * the same score everywhere.
+ *
+ * Rules are declarative. Exclusion rules veto a pair outright; scoring rules
+ * return a strength in [0, 1] that is multiplied by the rule's weight. Weights
+ * live apart from the rules so they can be tuned without touching rule logic.
+ * Every result carries a trace of what each rule contributed.
+ */
+
+import type { Exercise } from "./schema";
+import { EXERCISE_FAMILIES, FAMILY_PAIRINGS, getExerciseFamily } from "./exercise-families";
+import { TRAINER_APPROVED_PAIRS } from "./trainer-pairs";
+
+export type PairingMode = "standard" | "trainer";
+
+export type MovementPattern =
+  | "horizontal_push"
+  | "horizontal_pull"
+  | "vertical_push"
+  | "vertical_pull"
+  | "squat"
+  | "hinge"
+  | "unilateral"
+  | "core"
+  | "accessory"
+  | "general";
+
+export interface RuleOutcome {
+  value: number;   // Strength in [0, 1]; exclusion rules use 1
+  reason: string;
+}
+
+export interface PairingRule {
+  id: string;                  // Stable; also the key into PairingWeights
+  description: string;
+  kind: "exclude" | "score";
+  modes?: PairingMode[];       // Defaults to every mode
+  evaluate(a: Exercise, b: Exercise): RuleOutcome | null;
+}
+
+export type PairingWeights = Record<string, number>;
+
+export interface PairingTraceEntry {
+  rule: string;
+  kind: "exclude" | "score";
+  value: number;
+  weight: number;
+  points: number;
+  reason: string | null;       // null when the rule didn't fire
+}
+
+export interface PairingScore {
+  score: number;               // 0-100
+  excluded: boolean;
+  reasoning: string[];
+  trace: PairingTraceEntry[];
+}
+
+export interface PairingOptions {
+  mode?: PairingMode;
+  weights?: PairingWeights;   // Defaults to DEFAULT_PAIRING_WEIGHTS; learned sets come from pairing_weight_sets
+}
+
+// Version name of the built-in weights, used when no learned set is active
+export const DEFAULT_WEIGHTS_VERSION = "default";
+
+export const MAX_PAIRING_SCORE = 100;
+
+// ---------------------------------------------------------------------------
+// Movement patterns
+// ---------------------------------------------------------------------------
+
+export function mapToMovementPattern(exercise: Pick<Exercise, "exerciseType" | "name">): MovementPattern {
+  const type = exercise.exerciseType?.toLowerCase() || '';
+  const name = exercise.name?.toLowerCase() || '';
+
+  // Horizontal Push Pattern
+  if (type === 'push' && (name.includes('bench') || name.includes('chest') || name.includes('press') && !name.includes('shoulder') && !name.includes('overhead'))) {
+    return 'horizontal_push';
+  }
+  if (name.includes('push-up') || name.includes('pushup') || name.includes('dips') || name.includes('chest fly') || name.includes('pec deck')) {
+    return 'horizontal_push';
+  }
+
+  // Horizontal Pull Pattern
+  if (type === 'pull' && (name.includes('row') || name.includes('reverse fly') || name.includes('face pull') || name.includes('rear delt'))) {
+    return 'horizontal_pull';
+  }
+
+  // Vertical Push Pattern
+  if (type === 'push' && (name.includes('shoulder') || name.includes('overhead') || name.includes('military') || name.includes('pike'))) {
+    return 'vertical_push';
+  }
+  if (name.includes('shoulder press') || name.includes('overhead press') || name.includes('pike push')) {
+    return 'vertical_push';
+  }
+
+  // Vertical Pull Pattern
+  if (type === 'pull' && (name.includes('pull-up') || name.includes('pullup') || name.includes('pulldown') || name.includes('lat') || name.includes('chin-up'))) {
+    return 'vertical_pull';
+  }
+  if (name.includes('shrug') || name.includes('upright row')) {
+    return 'vertical_pull';
+  }
+
+  // Squat Pattern
+  if (type === 'squat' || name.includes('squat') || name.includes('leg press') || name.includes('wall sit')) {
+    return 'squat';
+  }
+
+  // Hinge Pattern
+  if (type === 'hinge' || name.includes('deadlift') || name.includes('hip hinge') || name.includes('hip thrust') || name.includes('glute bridge')) {
+    return 'hinge';
+  }
+  if (name.includes('good morning') || name.includes('romanian') || name.includes('rdl')) {
+    return 'hinge';
+  }
+
+  // Unilateral Pattern
+  if (type === 'lunge' || name.includes('lunge') || name.includes('step-up') || name.includes('step up') || name.includes('single leg') || name.includes('bulgarian')) {
+    return 'unilateral';
+  }
+
+  // Core/Stability Pattern
+  if (name.includes('plank') || name.includes('dead bug') || name.includes('bird dog') || name.includes('pallof') || name.includes('anti-')) {
+    return 'core';
+  }
+  if (name.includes('crunch') || name.includes('sit-up') || name.includes('russian twist') || name.includes('mountain climber')) {
+    return 'core';
+  }
+
+  // Default mappings for current types
+  switch (type) {
+    case 'push': return 'horizontal_push';
+    case 'pull': return 'horizontal_pull';
+    case 'squat': return 'squat';
+    case 'hinge': return 'hinge';
+    case 'lunge': return 'unilateral';
+    case 'accessory':
+      if (name.includes('curl') || name.includes('tricep') || name.includes('bicep')) {
+        return name.includes('hammer') || name.includes('bicep') ? 'vertical_pull' : 'vertical_push';
+      }
+      if (name.includes('lateral') || name.includes('front raise')) return 'vertical_push';
+      if (name.includes('calf')) return 'squat';
+      return 'accessory';
+    default: return 'general';
+  }
+}
+
+const OPPOSING_PATTERNS: Array<[MovementPattern, MovementPattern, string]> = [
+  ["horizontal_push", "horizontal_pull", "Perfect push/pull balance (horizontal plane)"],
+  ["vertical_push", "vertical_pull", "Perfect push/pull balance (vertical plane)"],
+  ["squat", "hinge", "Perfect squat/hinge balance for complete lower body"],
+  ["unilateral", "core", "Opposing movement patterns for balanced training"],
+  ["horizontal_push", "core", "Upper body + core combination for active recovery"],
+  ["horizontal_pull", "core", "Upper body + core combination for active recovery"],
+  ["vertical_push", "core", "Upper body + core combination for active recovery"],
+  ["vertical_pull", "core", "Upper body + core combination for active recovery"],
+];
+
+export function opposingPatternReason(patternA: MovementPattern, patternB: MovementPattern): string | null {
+  const match = OPPOSING_PATTERNS.find(([x, y]) => (x === patternA && y === patternB) || (x === patternB && y === patternA));
+  return match ? match[2] : null;
+}
+
+// Antagonist exercise types, as trainers label them in the catalog
+const ANTAGONIST_TYPES: Array<[string, string]> = [
+  ["Push", "Pull"],
+  ["Squat", "Hinge"],
+  ["Lunge", "Hinge"],
+];
+
+function isAntagonistType(a: Exercise, b: Exercise): boolean {
+  return ANTAGONIST_TYPES.some(([x, y]) =>
+    (a.exerciseType === x && b.exerciseType === y) || (a.exerciseType === y && b.exerciseType === x)
+  );
+}
+
+function isDeltoidExercise(exercise: Exercise): boolean {
+  const muscle = exercise.primaryMuscleGroup?.toLowerCase() ?? '';
+  const name = exercise.name.toLowerCase();
+  return muscle.includes('deltoid') || muscle.includes('shoulder') || name.includes('shoulder') || name.includes('deltoid');
+}
+
+// ---------------------------------------------------------------------------
+// Trainer-approved pairs and exercise families
+// ---------------------------------------------------------------------------
+
+function isApprovedPair(nameA: string, nameB: string): boolean {
+  return (TRAINER_APPROVED_PAIRS[nameA] ?? []).includes(nameB) || (TRAINER_APPROVED_PAIRS[nameB] ?? []).includes(nameA);
+}
+
+function familyMembers(name: string): string[] {
+  const family = getExerciseFamily(name);
+  return family ? EXERCISE_FAMILIES[family] : [name];
+}
+
+/**
+ * Approved pair, or an approved pair with one side swapped for a member of the
+ * same exercise family (Dumbbell Bench Press standing in for Barbell Bench Press).
+ */
+export function trainerApprovalMatch(nameA: string, nameB: string): "exact" | "family" | null {
+  if (isApprovedPair(nameA, nameB)) return "exact";
+  const substitutes = familyMembers(nameA).some(a => isApprovedPair(a, nameB))
+    || familyMembers(nameB).some(b => isApprovedPair(nameA, b));
+  return substitutes ? "family" : null;
+}
+
+// ---------------------------------------------------------------------------
+// Equipment ecosystem
+// ---------------------------------------------------------------------------
+
+export const MAX_EQUIPMENT_POINTS = 40;
+
+type EcosystemType = 'rack_hub' | 'bench_barbell_hub' | 'cable_hub' | 'bench_dumbbell' | 'dumbbell_portable' | 'fixed_machine' | 'bodyweight' | 'portable';
+
+function getEquipmentEcosystem(equipment: string): EcosystemType {
+  const equipment_lower = equipment.toLowerCase();
+
+  // Multi-Exercise Hubs (High Superset Potential)
+  if (equipment_lower.includes('squat rack') || equipment_lower.includes('power rack') ||
+      equipment_lower.includes('rig') || equipment_lower.includes('rack')) {
+    return 'rack_hub';
+  }
+  if ((equipment_lower.includes('bench') && equipment_lower.includes('barbell')) ||
+      equipment_lower.includes('olympic bench')) {
+    return 'bench_barbell_hub';
+  }
+  if (equipment_lower.includes('cable')) {
+    return 'cable_hub';
+  }
+
+  // Single Equipment + Portable Additions
+  if (equipment_lower.includes('bench') && equipment_lower.includes('dumbbell')) {
+    return 'bench_dumbbell';
+  }
+  if (equipment_lower.includes('dumbbell')) {
+    return 'dumbbell_portable';
+  }
+
+  // Fixed Single-Exercise Equipment
+  if (equipment_lower.includes('press machine') || equipment_lower.includes('leg press') ||
+      equipment_lower.includes('pulldown') || equipment_lower.includes('curl machine') ||
+      equipment_lower.includes('extension machine') || equipment_lower.includes('fly machine')) {
+    return 'fixed_machine';
+  }
+
+  if (equipment_lower.includes('bodyweight')) {
+    return 'bodyweight';
+  }
+  return 'portable';
+}
+
+function isPortableEquipment(equipment: string): boolean {
+  const equipment_lower = equipment.toLowerCase();
+  return equipment_lower.includes('dumbbell') ||
+         equipment_lower.includes('resistance band') ||
+         equipment_lower.includes('bodyweight') ||
+         equipment_lower.includes('kettlebell') ||
+         equipment_lower.includes('medicine ball');
+}
+
+// Bonus for B being a high-quality strength exercise (max 5)
+function exerciseQualityBonus(equipment: string, exerciseType: string): number {
+  const equipment_lower = equipment.toLowerCase();
+  const type = exerciseType.toLowerCase();
+
+  if (equipment_lower.includes('barbell') || equipment_lower.includes('dumbbell') || equipment_lower.includes('cable')) return 5;
+  if (equipment_lower.includes('bodyweight') && (type.includes('push') || type.includes('pull'))) return 4;
+  if (equipment_lower.includes('bodyweight')) return 3;
+  if (equipment_lower.includes('band') || equipment_lower.includes('medicine ball')) return 2;
+  return 1;
+}
+
+const COMPATIBLE_PRIMARY_EQUIPMENT = [
+  ['Dumbbells', 'Kettlebells'],
+  ['Barbell', 'EZ Barbell'],
+  ['Cable Tower', 'Functional Trainer'],
+  ['Flat Bench', 'Incline Bench', 'Decline Bench'],
+  ['Leg Press Machine', 'Leg Extension Machine', 'Leg Curl Machine'],
+  ['Chest Press Machine', 'Incline Chest Press Machine', 'Pec Fly Machine'],
+];
+
+// Structured equipment fields (primary / secondary / type) from the Airtable catalog
+function structuredEquipmentPoints(a: Exercise, b: Exercise): { points: number; reason: string } | null {
+  let points = 0;
+  const reasons: string[] = [];
+
+  if (a.equipmentPrimary && b.equipmentPrimary) {
+    if (a.equipmentPrimary === b.equipmentPrimary) {
+      points += 35;
+      reasons.push(`Same primary equipment (${a.equipmentPrimary}) for seamless transitions`);
+    } else if (COMPATIBLE_PRIMARY_EQUIPMENT.some(group => group.includes(a.equipmentPrimary!) && group.includes(b.equipmentPrimary!))) {
+      points += 25;
+      reasons.push(`Compatible equipment (${a.equipmentPrimary} + ${b.equipmentPrimary})`);
+    }
+  }
+
+  const sharedSecondary = (a.equipmentSecondary ?? []).filter(item => (b.equipmentSecondary ?? []).includes(item));
+  if (sharedSecondary.length > 0) {
+    points += Math.min(25, sharedSecondary.length * 15);
+    reasons.push(`Shares ${sharedSecondary.join(', ')}`);
+  }
+
+  const sharedTypes = (a.equipmentType ?? []).filter(item => (b.equipmentType ?? []).includes(item));
+  if (sharedTypes.length > 0) {
+    points += Math.min(15, sharedTypes.length * 8);
+  }
+
+  if (points === 0) return null;
+  return { points: Math.min(points, MAX_EQUIPMENT_POINTS), reason: reasons[0] ?? "Matching equipment variants" };
+}
+
+// Free-text equipment field, for exercises without structured equipment data
+function legacyEquipmentPoints(a: Exercise, b: Exercise): { points: number; reason: string } {
+  const ecosystemA = getEquipmentEcosystem(a.equipment);
+  const equipmentB = b.equipment.toLowerCase();
+  const bonus = exerciseQualityBonus(b.equipment, b.exerciseType || '');
+  const result = (base: number, reason: string) => ({ points: base + bonus, reason });
+
+  if (a.equipment === b.equipment) {
+    return result(35, "Same equipment for seamless transitions");
+  }
+
+  if (ecosystemA === 'rack_hub') {
+    if (equipmentB.includes('barbell')) return result(30, "Both exercises use the same rack setup");
+    if (equipmentB.includes('pull-up')) return result(30, "Rack supports both barbell and pull-up exercises");
+    if (equipmentB.includes('dumbbell') || equipmentB.includes('bodyweight')) return result(30, "Can add dumbbells/bodyweight exercises in rack area");
+  }
+
+  if (ecosystemA === 'bench_barbell_hub' || ecosystemA === 'bench_dumbbell') {
+    if (equipmentB.includes('barbell') || equipmentB.includes('dumbbell') || equipmentB.includes('bodyweight')) {
+      return result(30, "Can maximize bench utility with dumbbells/bodyweight");
+    }
+  }
+
+  if (ecosystemA === 'cable_hub') {
+    if (equipmentB.includes('cable')) return result(30, "Both use same cable station with different attachments");
+    if (equipmentB.includes('dumbbell') || equipmentB.includes('bodyweight')) return result(25, "Can add dumbbells/bodyweight beside cable station");
+  }
+
+  if (ecosystemA === 'fixed_machine') {
+    if (equipmentB.includes('dumbbell')) return result(25, "Can add dumbbell exercises beside machine (better than bodyweight for strength)");
+    if (equipmentB.includes('bodyweight')) return result(20, "Can add bodyweight exercises beside machine");
+    if (equipmentB.includes('band')) return result(15, "Can add resistance band exercises beside machine");
+  }
+
+  if (isPortableEquipment(a.equipment) && isPortableEquipment(b.equipment)) {
+    return result(20, "Both exercises use portable equipment");
+  }
+
+  return { points: 5, reason: "Poor gym etiquette - requires multiple equipment pieces" };
+}
+
+export function equipmentEcosystemPoints(a: Exercise, b: Exercise): { points: number; reason: string } {
+  return structuredEquipmentPoints(a, b) ?? legacyEquipmentPoints(a, b);
+}
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+
+const fired = (value: number, reason: string): RuleOutcome => ({ value, reason });
+
+export const PAIRING_RULES: PairingRule[] = [
+  {
+    id: "self_pair",
+    description: "An exercise can't be paired with itself",
+    kind: "exclude",
+    evaluate: (a, b) => a.id === b.id ? fired(1, "Cannot pair exercise with itself") : null,
+  },
+  {
+    id: "deltoid_conflict",
+    description: "No deltoid-deltoid pairings; anterior/posterior fatigue conflicts",
+    kind: "exclude",
+    evaluate: (a, b) => isDeltoidExercise(a) && isDeltoidExercise(b)
+      ? fired(1, "Avoiding deltoid-deltoid pairing due to anterior/posterior fatigue conflicts")
+      : null,
+  },
+  {
+    id: "high_setup_conflict",
+    description: "Trainer rule: two high-setup exercises are too slow to alternate",
+    kind: "exclude",
+    modes: ["trainer"],
+    evaluate: (a, b) => a.setupTime === "High" && b.setupTime === "High"
+      ? fired(1, "Trainer rule: Avoid pairing two high-setup exercises")
+      : null,
+  },
+  {
+    id: "zone_mismatch",
+    description: "Trainer rule: both exercises in one equipment zone (floor work fits anywhere)",
+    kind: "exclude",
+    modes: ["trainer"],
+    evaluate: (a, b) => {
+      const floorInvolved = a.equipmentZone?.toLowerCase() === "floor" || b.equipmentZone?.toLowerCase() === "floor";
+      return !floorInvolved && a.equipmentZone !== b.equipmentZone
+        ? fired(1, "Trainer rule: Different equipment zones (Floor exercises are exceptions)")
+        : null;
+    },
+  },
+  {
+    id: "trainer_pattern_required",
+    description: "Trainer rule: must be an approved pair (or family substitute) or an antagonist pattern",
+    kind: "exclude",
+    modes: ["trainer"],
+    evaluate: (a, b) => !trainerApprovalMatch(a.name, b.name) && !isAntagonistType(a, b)
+      ? fired(1, "Trainer rule: Must be exact approved pair or antagonist muscle pattern")
+      : null,
+  },
+  {
+    id: "trainer_approved",
+    description: "Curated trainer pair, or the same pair with a family substitute",
+    kind: "score",
+    evaluate: (a, b) => {
+      const match = trainerApprovalMatch(a.name, b.name);
+      if (match === "exact") return fired(1, "Curated trainer-approved pairing");
+      if (match === "family") return fired(0.5, "Trainer-approved pairing with a same-family substitute");
+      return null;
+    },
+  },
+  {
+    id: "pairing_compatibility",
+    description: "A's pairing-compatibility tags include B's exercise type",
+    kind: "score",
+    evaluate: (a, b) => b.exerciseType && a.pairingCompatibility?.includes(b.exerciseType)
+      ? fired(1, `${a.name} pairs well with ${b.exerciseType} exercises`)
+      : null,
+  },
+  {
+    id: "anchor_flow",
+    description: "Anchored A into mobile B flows best",
+    kind: "score",
+    evaluate: (a, b) => {
+      if (a.anchorType === "Anchored" && b.anchorType === "Mobile") return fired(1, "Optimal flow: anchored exercise to mobile exercise");
+      if (a.anchorType === "Mobile" && b.anchorType === "Anchored") return fired(25 / 35, "Good flow: mobile to anchored transition");
+      return null;
+    },
+  },
+  {
+    id: "opposing_pattern",
+    description: "Opposing movement patterns (push/pull, squat/hinge, upper + core)",
+    kind: "score",
+    evaluate: (a, b) => {
+      const reason = opposingPatternReason(mapToMovementPattern(a), mapToMovementPattern(b));
+      return reason ? fired(1, reason) : null;
+    },
+  },
+  {
+    id: "family_pairing",
+    description: "Exercise families that complement each other",
+    kind: "score",
+    evaluate: (a, b) => {
+      const familyA = getExerciseFamily(a.name);
+      const familyB = getExerciseFamily(b.name);
+      return familyA && familyB && (FAMILY_PAIRINGS[familyA] ?? []).includes(familyB)
+        ? fired(1, `Complementary families (${familyA.replace(/_/g, ' ')} + ${familyB.replace(/_/g, ' ')})`)
+        : null;
+    },
+  },
+  {
+    id: "equipment_ecosystem",
+    description: "Equipment that can be shared or used side by side",
+    kind: "score",
+    evaluate: (a, b) => {
+      const { points, reason } = equipmentEcosystemPoints(a, b);
+      return fired(points / MAX_EQUIPMENT_POINTS, reason);
+    },
+  },
+  {
+    id: "setup_efficiency",
+    description: "Complex-to-simple setup, or matching setup complexity",
+    kind: "score",
+    evaluate: (a, b) => {
+      if (a.setupTime === "High" && (b.setupTime === "Low" || b.setupTime === "Medium")) return fired(1, "Efficient transition from complex to simple setup");
+      if (a.setupTime && a.setupTime === b.setupTime) return fired(0.75, "Consistent setup complexity");
+      return null;
+    },
+  },
+  {
+    id: "best_paired_with",
+    description: "A's best-paired-with tags match B's tags",
+    kind: "score",
+    evaluate: (a, b) => (a.bestPairedWith ?? []).some(tag => b.tags?.includes(tag))
+      ? fired(1, "Trainer-recommended pairing tags match")
+      : null,
+  },
+  {
+    id: "muscle_overlap",
+    description: "No shared primary muscles, so one side recovers while the other works",
+    kind: "score",
+    evaluate: (a, b) => {
+      const known = (ex: Exercise) => !!ex.primaryMuscleGroup || (ex.primaryMuscles ?? []).length > 0;
+      if (!known(a) || !known(b)) return null;
+      const sharedMuscles = (a.primaryMuscles ?? []).some(muscle => (b.primaryMuscles ?? []).includes(muscle));
+      const sameGroup = !!a.primaryMuscleGroup && a.primaryMuscleGroup === b.primaryMuscleGroup;
+      return sharedMuscles || sameGroup ? null : fired(1, "Different muscle groups allow active recovery");
+    },
+  },
+  {
+    id: "difficulty_match",
+    description: "Similar difficulty keeps intensity consistent",
+    kind: "score",
+    evaluate: (a, b) => a.difficultyLevel && a.difficultyLevel === b.difficultyLevel
+      ? fired(1, "Similar difficulty levels for consistent intensity")
+      : null,
+  },
+  {
+    id: "compound_isolation",
+    description: "One compound and one isolation exercise",
+    kind: "score",
+    evaluate: (a, b) => {
+      const isCompound = (ex: Exercise) => ex.category === "compound" || (ex.primaryMuscles ?? []).length > 2;
+      return isCompound(a) !== isCompound(b) ? fired(1, "Compound and isolation exercise pairing") : null;
+    },
+  },
+];
+
+// Points for a rule at full strength. Sums past 100 on purpose: the score is capped.
+export const DEFAULT_PAIRING_WEIGHTS: PairingWeights = {
+  trainer_approved: 25,
+  pairing_compatibility: 40,
+  anchor_flow: 35,
+  opposing_pattern: 30,
+  family_pairing: 15,
+  equipment_ecosystem: MAX_EQUIPMENT_POINTS,
+  setup_efficiency: 20,
+  best_paired_with: 15,
+  muscle_overlap: 10,
+  difficulty_match: 5,
+  compound_isolation: 5,
+};
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function appliesTo(rule: PairingRule, mode: PairingMode): boolean {
+  return !rule.modes || rule.modes.includes(mode);
+}
+
+/**
+ * Score exercise B as the partner for exercise A. Exclusion rules run first
+ * and stop at the first veto; otherwise every scoring rule is evaluated and
+ * appears in the trace, fired or not.
+ */
+export function scorePairing(a: Exercise, b: Exercise, options: PairingOptions = {}): PairingScore {
+  const mode = options.mode ?? "standard";
+  const weights = options.weights ?? DEFAULT_PAIRING_WEIGHTS;
+  const rules = PAIRING_RULES.filter(rule => appliesTo(rule, mode));
+  const trace: PairingTraceEntry[] = [];
+
+  for (const rule of rules.filter(r => r.kind === "exclude")) {
+    const outcome = rule.evaluate(a, b);
+    trace.push({ rule: rule.id, kind: "exclude", value: outcome ? 1 : 0, weight: 0, points: 0, reason: outcome?.reason ?? null });
+    if (outcome) {
+      return { score: 0, excluded: true, reasoning: [outcome.reason], trace };
+    }
+  }
+
+  let total = 0;
+  const reasoning: string[] = [];
+  for (const rule of rules.filter(r => r.kind === "score")) {
+    const outcome = rule.evaluate(a, b);
+    const weight = weights[rule.id] ?? 0;
+    const value = outcome ? Math.max(0, Math.min(1, outcome.value)) : 0;
+    const points = value * weight;
+    total += points;
+    trace.push({ rule: rule.id, kind: "score", value, weight, points, reason: outcome?.reason ?? null });
+    if (outcome && points > 0) reasoning.push(outcome.reason);
+  }
+
+  if (reasoning.length === 0) {
+    reasoning.push("Compatible exercise pairing based on movement patterns");
+  }
+
+  const score = Math.round(Math.max(0, Math.min(total, MAX_PAIRING_SCORE)) * 10) / 10;
+  return { score, excluded: false, reasoning, trace };
+}
+
+/**
+ * Strength of every scoring rule for a pair, ignoring exclusions and weights.
+ * These are the features the weight-learning job fits against.
+ */
+export function pairingFeatures(a: Exercise, b: Exercise, mode: PairingMode = "standard"): Record<string, number> {
+  const features: Record<string, number> = {};
+  for (const rule of PAIRING_RULES) {
+    if (rule.kind !== "score" || !appliesTo(rule, mode)) continue;
+    const outcome = rule.evaluate(a, b);
+    features[rule.id] = outcome ? Math.max(0, Math.min(1, outcome.value)) : 0;
+  }
+  return features;
+}
+
+export function isPairingExcluded(a: Exercise, b: Exercise, mode: PairingMode = "standard"): boolean {
+  return PAIRING_RULES.some(rule => rule.kind === "exclude" && appliesTo(rule, mode) && !!rule.evaluate(a, b));
+}
+
+export interface RankedPairing {
+  exercise: Exercise;
+  compatibilityScore: number;
+  reasoning: string[];
+  trace: PairingTraceEntry[];
+}
+
+// Candidates ranked best first; excluded pairs are dropped
+export function rankPairings(a: Exercise, candidates: Exercise[], options: PairingOptions = {}): RankedPairing[] {
+  return candidates
+    .map(exercise => ({ exercise, result: scorePairing(a, exercise, options) }))
+    .filter(({ result }) => !result.excluded)
+    .map(({ exercise, result }) => ({
+      exercise,
+      compatibilityScore: result.score,
+      reasoning: result.reasoning,
+      trace: result.trace,
+    }))
+    .sort((x, y) => y.compatibilityScore - x.compatibilityScore);
+}
+
+// ---------------------------------------------------------------------------
+// Groupings (tri-sets and giant sets)
+// ---------------------------------------------------------------------------
+
+export interface GroupingOptions extends PairingOptions {
+  size?: 3 | 4;        // Exercises per round, anchor included
+  poolSize?: number;   // Best pair partners of the anchor considered for the group
+  limit?: number;
+}
+
+export interface GroupingLink {
+  fromId: number;
+  toId: number;
+  score: number;
+}
+
+export interface RankedGrouping {
+  exercises: Exercise[];    // Round order; the anchor is always first
+  score: number;
+  patterns: MovementPattern[];
+  links: GroupingLink[];    // Consecutive stations, including last → first for the next round
+  reasoning: string[];
+}
+
+const DEFAULT_GROUPING_POOL = 12;
+const REPEATED_PATTERN_PENALTY = 10;   // Per extra station loading a pattern already in the round
+const EXTRA_ZONE_PENALTY = 10;         // Per equipment zone beyond the first; floor work fits anywhere
+
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  const result: T[][] = [];
+  items.forEach((item, i) => {
+    for (const rest of combinations(items.slice(i + 1), k - 1)) result.push([item, ...rest]);
+  });
+  return result;
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+function zonesOf(exercises: Exercise[]): string[] {
+  return Array.from(new Set(
+    exercises
+      .map(ex => ex.equipmentZone?.trim())
+      .filter((zone): zone is string => !!zone && zone.toLowerCase() !== "floor")
+  ));
+}
+
+/**
+ * Score an ordered round of exercises. Every pair in the round must pass the
+ * exclusion rules (stations share the round's fatigue, not just neighbours);
+ * the score is the mean pair score of consecutive stations, less penalties for
+ * repeated movement patterns and for spreading across equipment zones.
+ */
+export function scoreGrouping(exercises: Exercise[], options: PairingOptions = {}): { score: number; excluded: boolean; links: GroupingLink[]; reasoning: string[] } {
+  const pairs = new Map<string, PairingScore>();
+  const pairScore = (a: Exercise, b: Exercise) => {
+    const key = `${a.id}:${b.id}`;
+    if (!pairs.has(key)) pairs.set(key, scorePairing(a, b, options));
+    return pairs.get(key)!;
+  };
+
+  for (let i = 0; i < exercises.length; i++) {
+    for (let j = i + 1; j < exercises.length; j++) {
+      const forward = pairScore(exercises[i], exercises[j]);
+      const backward = pairScore(exercises[j], exercises[i]);
+      if (forward.excluded || backward.excluded) {
+        const veto = forward.excluded ? forward : backward;
+        return { score: 0, excluded: true, links: [], reasoning: [`${exercises[i].name} / ${exercises[j].name}: ${veto.reasoning[0]}`] };
+      }
+    }
+  }
+
+  const links = exercises.map((from, i) => {
+    const to = exercises[(i + 1) % exercises.length];
+    return { fromId: from.id, toId: to.id, score: pairScore(from, to).score };
+  });
+  const meanLinkScore = links.reduce((sum, link) => sum + link.score, 0) / links.length;
+
+  const patterns = exercises.map(mapToMovementPattern);
+  const repeatedPatterns = patterns.length - new Set(patterns).size;
+  const zones = zonesOf(exercises);
+  const extraZones = Math.max(0, zones.length - 1);
+
+  const reasoning: string[] = [];
+  if (repeatedPatterns === 0) {
+    reasoning.push(`Balanced round: ${patterns.map(p => p.replace(/_/g, " ")).join(", ")}`);
+  } else {
+    reasoning.push(`${repeatedPatterns} repeated movement pattern${repeatedPatterns > 1 ? "s" : ""} in the round`);
+  }
+  if (zones.length === 1) {
+    reasoning.push(`All stations in the ${zones[0]} zone`);
+  } else if (extraZones > 0) {
+    reasoning.push(`Spans ${zones.length} equipment zones: ${zones.join(", ")}`);
+  }
+  const weakest = links.reduce((min, link) => (link.score < min.score ? link : min), links[0]);
+  const weakestFrom = exercises.find(ex => ex.id === weakest.fromId)!;
+  const weakestTo = exercises.find(ex => ex.id === weakest.toId)!;
+  reasoning.push(`Weakest transition: ${weakestFrom.name} → ${weakestTo.name} (${weakest.score})`);
+
+  const raw = meanLinkScore - repeatedPatterns * REPEATED_PATTERN_PENALTY - extraZones * EXTRA_ZONE_PENALTY;
+  const score = Math.round(Math.max(0, Math.min(raw, MAX_PAIRING_SCORE)) * 10) / 10;
+  return { score, excluded: false, links, reasoning };
+}
+
+/**
+ * Build 3–4 station rounds around an anchor. Candidates are narrowed to the
+ * anchor's best pair partners, then every combination and station order is
+ * scored; the anchor stays first so the round opens where the member chose.
+ */
+export function rankGroupings(anchor: Exercise, candidates: Exercise[], options: GroupingOptions = {}): RankedGrouping[] {
+  const size = options.size ?? 3;
+  const pool = rankPairings(anchor, candidates.filter(ex => ex.id !== anchor.id), options)
+    .slice(0, options.poolSize ?? DEFAULT_GROUPING_POOL)
+    .map(rec => rec.exercise);
+
+  const groupings: RankedGrouping[] = [];
+  for (const members of combinations(pool, size - 1)) {
+    let best: RankedGrouping | null = null;
+    for (const order of permutations(members)) {
+      const exercises = [anchor, ...order];
+      const result = scoreGrouping(exercises, options);
+      if (result.excluded) break;   // Exclusions don't depend on order
+      if (!best || result.score > best.score) {
+        best = { exercises, score: result.score, patterns: exercises.map(mapToMovementPattern), links: result.links, reasoning: result.reasoning };
+      }
+    }
+    if (best) groupings.push(best);
+  }
+
+  return groupings
+    .sort((x, y) => y.score - x.score)
+    .slice(0, options.limit ?? 5);
+}
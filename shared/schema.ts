@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, real, json, varchar, timestamp, jsonb, index, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, json, varchar, timestamp, jsonb, index, uniqueIndex, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ExecutionTimeline } from "./timeline";
 
 export const exercises = pgTable("exercises", {
   id: serial("id").primaryKey(),
@@ -50,6 +51,29 @@ export const exercises = pgTable("exercises", {
   coachingTips: text("coaching_tips").array().notNull().default([]),
   mistakes: text("mistakes").array().notNull().default([]),
   variations: text("variations").array().notNull().default([]),
+
+  // Airtable mirror bookkeeping (id is a stable hash of airtableRecordId)
+  airtableRecordId: text("airtable_record_id").unique(),
+  syncedAt: timestamp("synced_at"),
+  removedAt: timestamp("removed_at"), // Set when the record disappears from Airtable; row kept for foreign keys
+});
+
+// Exercise Sync Runs - One row per Airtable → Postgres catalog sync
+export const exerciseSyncRuns = pgTable("exercise_sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(), // "startup" | "scheduled" | "manual"
+  status: text("status").notNull().default("running"), // "running" | "success" | "failed"
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  addedCount: integer("added_count").notNull().default(0),
+  changedCount: integer("changed_count").notNull().default(0),
+  removedCount: integer("removed_count").notNull().default(0),
+  diff: jsonb("diff").$type<{
+    added: Array<{ id: number; name: string }>;
+    changed: Array<{ id: number; name: string; fields: string[] }>;
+    removed: Array<{ id: number; name: string }>;
+  }>(),
+  error: text("error"),
 });
 
 export const workoutSessions = pgTable("workout_sessions", {
@@ -76,6 +100,34 @@ export const exercisePairings = pgTable("exercise_pairings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Pairing rule weights fitted offline from trainer approvals and saved supersets.
+// At most one set is active; with none active the engine's built-in weights are used.
+export const pairingWeightSets = pgTable(
+  "pairing_weight_sets",
+  {
+    id: serial("id").primaryKey(),
+    version: varchar("version").notNull(), // e.g. "lr-v3"
+    weights: jsonb("weights").$type<Record<string, number>>().notNull(), // rule ID -> points at full strength
+    metrics: jsonb("metrics").$type<{
+      heldOutAnchors: number;
+      precisionAtK: Array<{ k: number; baseline: number; learned: number }>; // baseline = built-in weights
+    }>(),
+    trainingSummary: jsonb("training_summary").$type<{
+      positives: number;
+      negatives: number;
+      trainAnchors: number;
+      bySource: Record<string, number>; // trainer_approved, saved_superset, trainer_rejected, sampled
+    }>(),
+    isActive: boolean("is_active").notNull().default(false),
+    createdBy: varchar("created_by"), // null when trained from the command line
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    activatedAt: timestamp("activated_at"),
+  },
+  (t) => ({
+    byVersion: uniqueIndex("pairing_weight_sets_version_idx").on(t.version),
+  })
+);
+
 export const insertExerciseSchema = createInsertSchema(exercises).omit({
   id: true,
 });
@@ -308,10 +360,46 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   isAdmin: boolean("is_admin").notNull().default(false),
+  isModerator: boolean("is_moderator").notNull().default(false), // Reviews contributions; admins are moderators too
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Gym profiles - the equipment a member's gym has. Recommendations, previews and
+// generated sections skip exercises needing equipment that isn't listed.
+export const gymProfiles = pgTable("gym_profiles", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name").notNull(),
+  address: text("address"),
+  location: jsonb("location").$type<{ lat: number; lng: number }>(),
+  equipment: text("equipment").array().notNull().default([]), // Equipment catalog names (shared/equipment-catalog.ts)
+  zones: jsonb("zones").$type<Array<{ name: string; type: string; equipment: string[] }>>().notNull().default([]),
+  source: varchar("source", { length: 16 }).notNull().default("manual"), // 'manual' | 'gym_mapping'
+  unmatchedDetections: text("unmatched_detections").array().notNull().default([]), // Detection labels not in the catalog
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Training profile - goals and preferences used by the coach
+export const userTrainingProfiles = pgTable("user_training_profiles", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  goals: text("goals").array().notNull().default([]), // "strength" | "hypertrophy" | "endurance" | "fat_loss" | "general_fitness"
+  coachingStyle: text("coaching_style").notNull().default("minimal"), // "minimal" | "motivational" | "technical"
+  preferredUnits: text("preferred_units").notNull().default("lbs"), // "lbs" | "kg"
+  oneRepMaxFormula: text("one_rep_max_formula").notNull().default("epley"), // "epley" | "brzycki"
+  selectedGymProfileId: integer("selected_gym_profile_id").references(() => gymProfiles.id), // Filters recommendations by equipment
+  // Best estimated 1RM per exercise, derived from logged sets (keyed by exercise ID)
+  estimatedOneRepMaxes: jsonb("estimated_one_rep_maxes").$type<Record<string, {
+    exerciseName: string;
+    oneRepMax: number;
+    weight: number;
+    reps: number;
+    loggedAt: string;
+  }>>().notNull().default({}),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Image contributions for community AI training - optimized for model training
 export const contributions = pgTable("contributions", {
   id: varchar("id").primaryKey().notNull(),
@@ -364,12 +452,71 @@ export const insertContributionSchema = createInsertSchema(contributions).omit({
   updatedAt: true,
 });
 
+// Community votes on contributions; one row per (contribution, voter), re-voting updates it
+export const contributionVotes = pgTable(
+  "contribution_votes",
+  {
+    id: serial("id").primaryKey(),
+    contributionId: varchar("contribution_id").references(() => contributions.id, { onDelete: "cascade" }).notNull(),
+    userId: varchar("user_id").references(() => users.id).notNull(),
+    value: integer("value").notNull(), // +1 (label is right) | -1 (label is wrong)
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    byVoter: uniqueIndex("contribution_votes_voter_idx").on(t.contributionId, t.userId),
+  })
+);
+
+// Moderation audit trail: every status or label change, by a moderator or by vote consensus
+export const contributionModerationEvents = pgTable(
+  "contribution_moderation_events",
+  {
+    id: serial("id").primaryKey(),
+    contributionId: varchar("contribution_id").notNull(), // Kept after the contribution is deleted
+    actorId: varchar("actor_id").references(() => users.id), // null for consensus auto-verify
+    action: text("action").notNull(), // "approve" | "reject" | "relabel" | "auto_verify"
+    fromStatus: text("from_status"),
+    toStatus: text("to_status"),
+    fromLabel: text("from_label"),
+    toLabel: text("to_label"),
+    notes: text("notes"),
+    bulkId: varchar("bulk_id"), // Shared by every event of one bulk action
+    at: timestamp("at").notNull().defaultNow(),
+  },
+  (t) => ({
+    byContribution: index("contribution_moderation_events_contribution_idx").on(t.contributionId),
+  })
+);
+
+// Object-detection dataset exports (COCO / YOLO / Pascal VOC zip), built in the background
+export const datasetExportJobs = pgTable("dataset_export_jobs", {
+  id: serial("id").primaryKey(),
+  format: text("format").notNull(), // "coco" | "yolo" | "voc"
+  splits: text("splits").array().notNull(), // training sets included: "train" | "validation" | "test"
+  status: text("status").notNull().default("running"), // "running" | "success" | "failed"
+  requestedBy: varchar("requested_by").references(() => users.id),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  imageCount: integer("image_count").notNull().default(0),
+  annotationCount: integer("annotation_count").notNull().default(0),
+  skipped: jsonb("skipped").$type<{
+    unapproved: number;   // moderation status is not "approved"
+    unassigned: number;   // no training set, or a split that wasn't requested
+    unannotated: number;  // no bounding box with a catalog class
+    undecodable: number;  // image data isn't a readable JPEG/PNG/WebP
+    droppedBoxes: number; // boxes with an unknown label or no area inside the image
+  }>(),
+  filePath: text("file_path"),
+  error: text("error"),
+});
+
 // Coach Responses - AI workout coach dynamic response library
 export const coachResponses = pgTable(
   "coach_responses",
   {
     id: serial("id").primaryKey(),
-    eventType: varchar("event_type", { length: 32 }).notNull(), // 'work_preview' | 'work_start' | 'last5s' | 'halfway' | 'rest_start'
+    eventType: varchar("event_type", { length: 32 }).notNull(), // canonical TimelineEventType from @shared/events, e.g. 'EV_WORK_START' | 'EV_REST_START'
     pattern: varchar("pattern", { length: 24 }).notNull().default("any"), // 'superset' | 'straight_sets' | 'circuit' | 'any'
     mode: varchar("mode", { length: 24 }).notNull().default("any"), // 'time' | 'reps' | 'any'
     chatterLevel: varchar("chatter_level", { length: 16 }).notNull().default("minimal"), // 'silent'|'minimal'|'high'|'any'
@@ -405,10 +552,12 @@ export type User = typeof users.$inferSelect;
 // Core exercise system types
 export type InsertExercise = z.infer<typeof insertExerciseSchema>;
 export type Exercise = typeof exercises.$inferSelect;
+export type ExerciseSyncRun = typeof exerciseSyncRuns.$inferSelect;
 export type InsertWorkoutSession = z.infer<typeof insertLegacyWorkoutSessionSchema>;
 export type WorkoutSession = typeof workoutSessions.$inferSelect;
 export type InsertExercisePairing = z.infer<typeof insertExercisePairingSchema>;
 export type ExercisePairing = typeof exercisePairings.$inferSelect;
+export type PairingWeightSet = typeof pairingWeightSets.$inferSelect;
 
 // New workout system types
 export type InsertSuperSet = z.infer<typeof insertSuperSetSchema>;
@@ -424,7 +573,15 @@ export type SetLog = typeof setLogs.$inferSelect;
 export type InsertCoachingSession = z.infer<typeof insertCoachingSessionSchema>;
 export type CoachingSession = typeof coachingSessions.$inferSelect;
 
+export type UserTrainingProfile = typeof userTrainingProfiles.$inferSelect;
+export type GymProfile = typeof gymProfiles.$inferSelect;
+export type InsertGymProfile = typeof gymProfiles.$inferInsert;
+export type InsertUserTrainingProfile = typeof userTrainingProfiles.$inferInsert;
+
 export type Contribution = typeof contributions.$inferSelect;
+export type DatasetExportJob = typeof datasetExportJobs.$inferSelect;
+export type ContributionVote = typeof contributionVotes.$inferSelect;
+export type ContributionModerationEvent = typeof contributionModerationEvents.$inferSelect;
 export type InsertContribution = z.infer<typeof insertContributionSchema>;
 
 // Pre-built workout template types
@@ -447,6 +604,7 @@ export const blocks = pgTable("blocks", {
   description: text("description"),
   type: text("type").notNull(), // "custom_sequence", "transition", "amrap_loop", "emom_window", etc.
   orderIndex: integer("order_index").notNull().default(0), // Block order within workout (NEW)
+  section: text("section").notNull().default("main"), // "warmup", "main", "cooldown", "finisher" (as workoutSections.sectionType)
   
   // Flexible parameters (JSON) - defines the timing/structure
   params: jsonb("params").$type<{
@@ -584,21 +742,47 @@ export const blockWorkouts = pgTable("block_workouts", {
   }>(),
   
   // Publishing & versioning
+  // blockSequence/executionTimeline above are the editable draft; players get the live version
   isPublished: boolean("is_published").notNull().default(false),
   publishedAt: timestamp("published_at"),
   createdBy: varchar("created_by").references(() => users.id),
-  isPublic: boolean("is_public").notNull().default(false),
-  version: integer("version").notNull().default(1),
+  ownerId: varchar("owner_id").references(() => users.id), // Member who built it; null for staff-curated workouts
+  isPublic: boolean("is_public").notNull().default(false), // Member workouts: listed for everyone vs. owner-only
+  version: integer("version").notNull().default(1), // Number of the live published version
+  publishedVersionId: integer("published_version_id"), // block_workout_versions.id of the live version
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Block Workout Versions - Immutable snapshot created on every publish
+// Holds the blocks, exercises and compiled timeline exactly as published
+export const blockWorkoutVersions = pgTable(
+  "block_workout_versions",
+  {
+    id: serial("id").primaryKey(),
+    blockWorkoutId: integer("block_workout_id").references(() => blockWorkouts.id).notNull(),
+    version: integer("version").notNull(), // 1, 2, 3... per workout
+    name: text("name").notNull(),
+    description: text("description"),
+    blocks: jsonb("blocks").$type<Array<Block & { exercises: BlockExercise[] }>>().notNull(),
+    executionTimeline: jsonb("execution_timeline").$type<ExecutionTimeline>().notNull(),
+    estimatedDurationMin: integer("estimated_duration_min"),
+    republishedFromVersion: integer("republished_from_version"), // Set when an earlier version was published again
+    publishedBy: varchar("published_by").references(() => users.id),
+    publishedAt: timestamp("published_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    byVersion: uniqueIndex("block_workout_versions_version_idx").on(t.blockWorkoutId, t.version),
+  })
+);
+
 // Block Workout Sessions - Tracks user sessions using block workouts
 export const blockWorkoutSessions = pgTable("block_workout_sessions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   blockWorkoutId: integer("block_workout_id").references(() => blockWorkouts.id).notNull(),
+  blockWorkoutVersionId: integer("block_workout_version_id").references(() => blockWorkoutVersions.id), // Pinned published version (null for legacy sessions)
   
   // Session state
   status: text("status").notNull().default("active"), // "active", "paused", "completed", "abandoned"
@@ -609,6 +793,12 @@ export const blockWorkoutSessions = pgTable("block_workout_sessions", {
   completedAt: timestamp("completed_at"),
   totalPauseDurationMs: integer("total_pause_duration_ms").notNull().default(0),
   lastSyncAt: timestamp("last_sync_at"),
+  // Pause history (ISO timestamps); an entry without resumedAt is the open pause
+  pauseIntervals: jsonb("pause_intervals").$type<Array<{
+    pausedAt: string;
+    resumedAt?: string;
+    atStep: number;
+  }>>().notNull().default([]),
   
   // Snapshot of execution timeline (immune to workout edits)
   executionTimelineSnapshot: jsonb("execution_timeline_snapshot").$type<{
@@ -636,6 +826,43 @@ export const blockWorkoutSessions = pgTable("block_workout_sessions", {
   notes: text("notes"),
 });
 
+// Block Set Logs - Per-set performance within a block workout session
+// One row per (session, exercise, set index); re-logging the same set updates it
+export const blockSetLogs = pgTable(
+  "block_set_logs",
+  {
+    id: serial("id").primaryKey(),
+    blockWorkoutSessionId: integer("block_workout_session_id").references(() => blockWorkoutSessions.id).notNull(),
+    exerciseId: integer("exercise_id").notNull(), // References Airtable exercise ID
+    setIndex: integer("set_index").notNull(), // 1-indexed
+    reps: integer("reps"),
+    weight: real("weight"),
+    loadUnit: text("load_unit").notNull().default("lbs"), // "lbs" | "kg"
+    rpe: real("rpe"), // 1-10; quick-log words are mapped via RPE_FOR_WORD
+    pain: boolean("pain").notNull().default(false),
+    source: text("source").notNull().default("voice"), // "voice" | "manual"
+    substitutedForExerciseId: integer("substituted_for_exercise_id"), // Planned exercise when this set was done as a mid-session swap
+    loggedAt: timestamp("logged_at").notNull().defaultNow(),
+  },
+  (t) => ({
+    bySet: uniqueIndex("block_set_logs_set_idx").on(t.blockWorkoutSessionId, t.exerciseId, t.setIndex),
+  })
+);
+
+// Block Session Substitutions - Mid-session exercise swaps (equipment busy or missing).
+// The session's timeline snapshot is rewritten in place; this records what was planned.
+export const blockSessionSubstitutions = pgTable("block_session_substitutions", {
+  id: serial("id").primaryKey(),
+  blockWorkoutSessionId: integer("block_workout_session_id").references(() => blockWorkoutSessions.id, { onDelete: "cascade" }).notNull(),
+  blockId: varchar("block_id"), // Timeline blockId the swap was limited to; null for the rest of the workout
+  originalExerciseId: integer("original_exercise_id").notNull(), // Exercise swapped out (may itself be an earlier substitute)
+  substituteExerciseId: integer("substitute_exercise_id").notNull(),
+  reason: text("reason").notNull().default("busy"), // "busy" | "missing" | "preference"
+  fromStep: integer("from_step").notNull(), // First timeline step index rewritten
+  stepsAffected: integer("steps_affected").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 // Insert schemas for Block system
 export const insertBlockSchema = createInsertSchema(blocks).omit({
   id: true,
@@ -657,6 +884,11 @@ export const insertBlockWorkoutSessionSchema = createInsertSchema(blockWorkoutSe
   id: true,
 });
 
+export const insertBlockSetLogSchema = createInsertSchema(blockSetLogs).omit({
+  id: true,
+  loggedAt: true,
+});
+
 // Types for Block system
 export type InsertBlock = z.infer<typeof insertBlockSchema>;
 export type Block = typeof blocks.$inferSelect;
@@ -664,8 +896,12 @@ export type InsertBlockExercise = z.infer<typeof insertBlockExerciseSchema>;
 export type BlockExercise = typeof blockExercises.$inferSelect;
 export type InsertBlockWorkout = z.infer<typeof insertBlockWorkoutSchema>;
 export type BlockWorkout = typeof blockWorkouts.$inferSelect;
+export type BlockWorkoutVersion = typeof blockWorkoutVersions.$inferSelect;
 export type InsertBlockWorkoutSession = z.infer<typeof insertBlockWorkoutSessionSchema>;
 export type BlockWorkoutSession = typeof blockWorkoutSessions.$inferSelect;
+export type InsertBlockSetLog = z.infer<typeof insertBlockSetLogSchema>;
+export type BlockSetLog = typeof blockSetLogs.$inferSelect;
+export type BlockSessionSubstitution = typeof blockSessionSubstitutions.$inferSelect;
 
 // ============================================================================
 // ADMIN AUDIT LOG (Canonical Admin)
@@ -674,11 +910,12 @@ export type BlockWorkoutSession = typeof blockWorkoutSessions.$inferSelect;
 export const adminAudit = pgTable("admin_audit", {
   id: serial("id").primaryKey(),
   actorId: varchar("actor_id").references(() => users.id),
-  action: text("action").notNull(), // "create" | "update" | "delete" | "publish" | "unpublish"
+  action: text("action").notNull(), // "create" | "update" | "delete" | "publish" | "unpublish" | "restore"
   entity: text("entity").notNull(), // "workout" | "block" | "block_exercise"
   entityId: integer("entity_id").notNull(),
   before: jsonb("before"),
   after: jsonb("after"),
+  restoredFromAuditId: integer("restored_from_audit_id"), // Set on "restore" entries
   at: timestamp("at").notNull().defaultNow(),
 });
 
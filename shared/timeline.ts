@@ -47,6 +47,17 @@ export const BlockParams = z.discriminatedUnion("type", [
 
 export type BlockParamsT = z.infer<typeof BlockParams>;
 
+// Workout sections, mirroring workoutSections.sectionType on legacy templates
+export const WorkoutSection = z.enum(["warmup", "main", "cooldown", "finisher"]);
+export type WorkoutSectionT = z.infer<typeof WorkoutSection>;
+
+export const SECTION_LABELS: Record<WorkoutSectionT, string> = {
+  warmup: "Warm-up",
+  main: "Main work",
+  cooldown: "Cool-down",
+  finisher: "Finisher",
+};
+
 export type StepType = "countdown" | "work" | "rest" | "round_rest" | "await_ready" | "transition" | "amrap" | "emom" | "instruction";
 
 export interface ExerciseMeta {
@@ -60,6 +71,15 @@ export interface ExerciseMeta {
   imageUrl?: string;
 }
 
+export type MarkerType = "halfway" | "last_10s";
+
+// In-step cue points for long windows (AMRAP/EMOM) that have no step boundary of their own
+export interface TimelineMarker {
+  type: MarkerType;
+  atMs: number;
+  label?: string;
+}
+
 export interface TimelineStep {
   step: number;
   type: StepType;
@@ -75,7 +95,11 @@ export interface TimelineStep {
   coachPrompt?: string;
   nextStepId?: string;
   preWorkout?: boolean;
+  markers?: TimelineMarker[];
   meta?: Record<string, any>;
+  blockId?: string;   // blocks.id the step belongs to; pre-workout/between-block gates carry the block they lead into
+  blockName?: string;
+  section?: WorkoutSectionT; // Section of the block the step belongs to; absent on legacy timelines
 }
 
 export interface CompileOptions {
@@ -85,9 +109,11 @@ export interface CompileOptions {
   workoutName?: string;
   workoutStructure?: string;
   guardGapsMs?: { postBeepToVoice: number; voiceToNextCountdown: number };
+  strictEMOM?: boolean; // Mirrors WorkoutPrefs.strictEMOM (default true): fixed minute grid, no ready gates
 }
 
 export interface ExecutionTimeline {
+  eventSchemaVersion?: number; // EVENT_SCHEMA_VERSION (@shared/events) the timeline was compiled for; absent on legacy snapshots
   workoutHeader: {
     name: string;
     totalDurationSec: number;
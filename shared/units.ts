@@ -0,0 +1,25 @@
+// Load units and RPE word mapping shared by loggers, API and coach
+
+export type LoadUnit = "lbs" | "kg";
+export type RpeWord = "Easy" | "Moderate" | "Hard";
+
+const KG_TO_LBS = 2.20462;
+
+export function convertLoad(load: number, from: LoadUnit, to: LoadUnit): number {
+  if (from === to) return load;
+  const converted = from === "kg" ? load * KG_TO_LBS : load / KG_TO_LBS;
+  return Math.round(converted * 10) / 10; // Round to 1 decimal
+}
+
+// Quick-log words → RPE (roughly 4+, 2-3 and 0-1 reps in reserve)
+export const RPE_FOR_WORD: Record<RpeWord, number> = {
+  Easy: 6,
+  Moderate: 8,
+  Hard: 9.5,
+};
+
+export function rpeToWord(rpe: number): RpeWord {
+  if (rpe >= 9) return "Hard";
+  if (rpe >= 7) return "Moderate";
+  return "Easy";
+}